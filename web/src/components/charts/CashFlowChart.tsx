@@ -13,6 +13,7 @@ import {
 } from 'chart.js'
 import styled from 'styled-components'
 import { theme } from '../../styles'
+import { DEFAULT_CURRENCY, getCurrencySymbol } from '../../core/types'
 import type { MonthlyCashFlow } from '../../core/types/report'
 
 // Register Chart.js components
@@ -20,9 +21,44 @@ ChartJS.register(CategoryScale, LinearScale, BarElement, BarController, LineElem
 
 interface CashFlowChartProps {
   data: MonthlyCashFlow[]
+  showBalance?: boolean   // Hide the balance lines when the real balance is unknown
+  currency?: string       // Currency the amounts are in
 }
 
-export function CashFlowChart({ data }: CashFlowChartProps) {
+const BALANCE_LABELS = ['Closing balance', 'Lowest balance']
+
+export function CashFlowChart({ data, showBalance = true, currency = DEFAULT_CURRENCY }: CashFlowChartProps) {
+  const symbol = getCurrencySymbol(currency)
+  const balanceDatasets = [
+    {
+      type: 'line' as const,
+      label: 'Closing balance',
+      data: data.map(d => d.closingBalance),
+      borderColor: theme.colors.primary,
+      backgroundColor: theme.colors.primaryLight,
+      borderWidth: 2,
+      pointRadius: 4,
+      pointBackgroundColor: theme.colors.primary,
+      tension: 0.1,
+      order: 1,
+      yAxisID: 'y',
+    },
+    {
+      type: 'line' as const,
+      label: 'Lowest balance',
+      data: data.map(d => d.lowestBalance),
+      borderColor: theme.colors.warning,
+      backgroundColor: theme.colors.warningLight,
+      borderWidth: 2,
+      borderDash: [6, 4],
+      pointRadius: 3,
+      pointBackgroundColor: theme.colors.warning,
+      tension: 0.1,
+      order: 1,
+      yAxisID: 'y',
+    },
+  ]
+
   const chartData = {
     labels: data.map(d => d.month),
     datasets: [
@@ -40,19 +76,7 @@ export function CashFlowChart({ data }: CashFlowChartProps) {
         backgroundColor: theme.colors.error,
         order: 2,
       },
-      {
-        type: 'line' as const,
-        label: 'Balance',
-        data: data.map(d => d.cumulativeBalance),
-        borderColor: theme.colors.primary,
-        backgroundColor: theme.colors.primaryLight,
-        borderWidth: 2,
-        pointRadius: 4,
-        pointBackgroundColor: theme.colors.primary,
-        tension: 0.1,
-        order: 1,
-        yAxisID: 'y',
-      },
+      ...(showBalance ? balanceDatasets : []),
     ],
   }
 
@@ -68,8 +92,8 @@ export function CashFlowChart({ data }: CashFlowChartProps) {
           label: (context: { raw: unknown; dataset: { label?: string } }) => {
             const value = context.raw as number
             const absValue = Math.abs(value)
-            const formattedValue = `€${absValue.toLocaleString('en', { minimumFractionDigits: 2 })}`
-            if (context.dataset.label === 'Balance') {
+            const formattedValue = `${symbol}${absValue.toLocaleString('en', { minimumFractionDigits: 2 })}`
+            if (BALANCE_LABELS.includes(context.dataset.label ?? '')) {
               return `${context.dataset.label}: ${value >= 0 ? '' : '-'}${formattedValue}`
             }
             return `${context.dataset.label}: ${formattedValue}`
@@ -90,7 +114,7 @@ export function CashFlowChart({ data }: CashFlowChartProps) {
         ticks: {
           callback: (value: number | string) => {
             const num = typeof value === 'number' ? value : parseFloat(value)
-            return `€${Math.abs(num).toLocaleString('en')}`
+            return `${symbol}${Math.abs(num).toLocaleString('en')}`
           },
         },
       },
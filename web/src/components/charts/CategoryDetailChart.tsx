@@ -11,6 +11,7 @@ import {
 } from 'chart.js'
 import styled from 'styled-components'
 import { theme } from '../../styles'
+import { DEFAULT_CURRENCY, getCurrencySymbol } from '../../core/types'
 import type { MonthlySpending } from '../../core/types/report'
 import { getCategoryStats } from '../../core/calculations/spending'
 
@@ -20,9 +21,11 @@ ChartJS.register(CategoryScale, LinearScale, BarElement, Tooltip, Legend)
 interface CategoryDetailChartProps {
   category: string
   monthlySpending: MonthlySpending[]
+  currency?: string       // Currency the amounts are in
 }
 
-export function CategoryDetailChart({ category, monthlySpending }: CategoryDetailChartProps) {
+export function CategoryDetailChart({ category, monthlySpending, currency = DEFAULT_CURRENCY }: CategoryDetailChartProps) {
+  const symbol = getCurrencySymbol(currency)
   // Filter to this category and get last 12 months
   const allMonths = [...new Set(monthlySpending.map(s => s.month))].sort()
   const last12Months = allMonths.slice(-12)
@@ -93,7 +96,7 @@ export function CategoryDetailChart({ category, monthlySpending }: CategoryDetai
             const idx = context.dataIndex
             const count = filledData[idx].count
             return [
-              `Amount: €${value.toLocaleString('en', { minimumFractionDigits: 2 })}`,
+              `Amount: ${symbol}${value.toLocaleString('en', { minimumFractionDigits: 2 })}`,
               `Transactions: ${count}`,
             ]
           },
@@ -118,7 +121,7 @@ export function CategoryDetailChart({ category, monthlySpending }: CategoryDetai
         ticks: {
           callback: (value: number | string) => {
             const num = typeof value === 'number' ? value : parseFloat(value)
-            return `€${num.toLocaleString('en')}`
+            return `${symbol}${num.toLocaleString('en')}`
           },
         },
       },
@@ -126,7 +129,7 @@ export function CategoryDetailChart({ category, monthlySpending }: CategoryDetai
   }
 
   const formatCurrency = (amount: number) =>
-    `€${Math.round(amount).toLocaleString('en')}`
+    `${symbol}${Math.round(amount).toLocaleString('en')}`
 
   return (
     <Container>
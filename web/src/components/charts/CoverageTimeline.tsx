@@ -0,0 +1,189 @@
+import styled from 'styled-components'
+import type { CoverageOverlap, StatementCoverage } from '../../core/types/report'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+interface CoverageTimelineProps {
+  coverage: StatementCoverage
+  selectedOverlap?: CoverageOverlap | null                    // Highlighted overlap
+  onOverlapSelect?: (overlap: CoverageOverlap | null) => void // Makes overlaps clickable
+}
+
+const formatDate = (date: Date) => date.toLocaleDateString('en-IE')
+
+const overlapKey = (overlap: CoverageOverlap) => overlap.files.join('|')
+
+/**
+ * Statement files as bars on a timeline, with the dates two files both cover
+ * (overlaps) and the dates none of them covers (gaps) marked on it.
+ */
+export function CoverageTimeline({ coverage, selectedOverlap = null, onOverlapSelect }: CoverageTimelineProps) {
+  const { files, overlaps, gaps } = coverage
+  const totalMs = coverage.end.getTime() - coverage.start.getTime() + DAY_MS
+
+  // Position of a date range on the track, as percentages; the end day is included
+  const position = (range: { start: Date; end: Date }) => ({
+    left: `${((range.start.getTime() - coverage.start.getTime()) / totalMs) * 100}%`,
+    width: `${((range.end.getTime() - range.start.getTime() + DAY_MS) / totalMs) * 100}%`,
+  })
+
+  // Compared by files, so the selection survives recalculating the coverage
+  const isSelected = (overlap: CoverageOverlap) =>
+    selectedOverlap !== null && overlapKey(overlap) === overlapKey(selectedOverlap)
+
+  const handleOverlapClick = (overlap: CoverageOverlap) => {
+    onOverlapSelect?.(isSelected(overlap) ? null : overlap)
+  }
+
+  return (
+    <Container>
+      <Timeline>
+        {files.map(file => (
+          <Row key={file.sourceFile}>
+            <FileLabel title={file.sourceFile}>{file.sourceFile}</FileLabel>
+            <Track>
+              {gaps.map(gap => (
+                <GapBand key={gap.start.getTime()} style={position(gap)} />
+              ))}
+              <FileBar
+                style={position(file)}
+                title={`${formatDate(file.start)} - ${formatDate(file.end)}, ${file.transactionCount} transactions`}
+              />
+              {overlaps.filter(o => o.files.includes(file.sourceFile)).map(overlap => (
+                <OverlapBand
+                  key={overlapKey(overlap)}
+                  style={position(overlap)}
+                  $selected={isSelected(overlap)}
+                />
+              ))}
+            </Track>
+          </Row>
+        ))}
+        <Axis>
+          <span>{formatDate(coverage.start)}</span>
+          <span>{formatDate(coverage.end)}</span>
+        </Axis>
+      </Timeline>
+
+      {(overlaps.length > 0 || gaps.length > 0) && (
+        <NoteList>
+          {overlaps.map(overlap => (
+            <Note key={overlapKey(overlap)} $kind="overlap">
+              <NoteButton
+                type="button"
+                disabled={!onOverlapSelect}
+                $selected={isSelected(overlap)}
+                onClick={() => handleOverlapClick(overlap)}
+              >
+                {overlap.files[0]} and {overlap.files[1]} overlap{' '}
+                {formatDate(overlap.start)} - {formatDate(overlap.end)}:{' '}
+                {overlap.duplicateGroups} duplicate group{overlap.duplicateGroups !== 1 ? 's' : ''}
+              </NoteButton>
+            </Note>
+          ))}
+          {gaps.map(gap => (
+            <Note key={gap.start.getTime()} $kind="gap">
+              No file covers {formatDate(gap.start)} - {formatDate(gap.end)}
+              {gap.missingMonths.length > 0 && <>; no transactions in {gap.missingMonths.join(', ')}</>}
+              {gap.missingMonths.length === 0 && gap.missingWeeks.length > 0 && (
+                <>; no transactions in week{gap.missingWeeks.length !== 1 ? 's' : ''} {gap.missingWeeks.join(', ')}</>
+              )}
+            </Note>
+          ))}
+        </NoteList>
+      )}
+    </Container>
+  )
+}
+
+const Container = styled.div`
+  margin-bottom: ${({ theme }) => theme.spacing.lg};
+`
+
+const Timeline = styled.div`
+  background: ${({ theme }) => theme.colors.surface};
+  border: 1px solid ${({ theme }) => theme.colors.border};
+  border-radius: ${({ theme }) => theme.borderRadius.md};
+  padding: ${({ theme }) => theme.spacing.md};
+`
+
+const Row = styled.div`
+  display: grid;
+  grid-template-columns: 140px 1fr;
+  gap: ${({ theme }) => theme.spacing.sm};
+  align-items: center;
+  margin-bottom: ${({ theme }) => theme.spacing.xs};
+`
+
+const FileLabel = styled.span`
+  font-size: ${({ theme }) => theme.fontSize.xs};
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`
+
+const Track = styled.div`
+  position: relative;
+  height: 16px;
+`
+
+const FileBar = styled.div`
+  position: absolute;
+  top: 2px;
+  bottom: 2px;
+  min-width: 2px;
+  background: ${({ theme }) => theme.colors.primary};
+  border-radius: ${({ theme }) => theme.borderRadius.sm};
+`
+
+const OverlapBand = styled.div<{ $selected: boolean }>`
+  position: absolute;
+  top: 2px;
+  bottom: 2px;
+  min-width: 2px;
+  background: ${({ theme }) => theme.colors.warning};
+  opacity: ${({ $selected }) => $selected ? 1 : 0.6};
+  border-radius: ${({ theme }) => theme.borderRadius.sm};
+`
+
+const GapBand = styled.div`
+  position: absolute;
+  top: 0;
+  bottom: 0;
+  background: ${({ theme }) => theme.colors.errorLight};
+`
+
+const Axis = styled.div`
+  display: flex;
+  justify-content: space-between;
+  margin-left: calc(140px + ${({ theme }) => theme.spacing.sm});
+  font-size: ${({ theme }) => theme.fontSize.xs};
+  color: ${({ theme }) => theme.colors.textMuted};
+`
+
+const NoteList = styled.ul`
+  list-style: none;
+  margin: ${({ theme }) => theme.spacing.sm} 0 0;
+  padding: 0;
+`
+
+const Note = styled.li<{ $kind: 'overlap' | 'gap' }>`
+  font-size: ${({ theme }) => theme.fontSize.sm};
+  color: ${({ $kind, theme }) => $kind === 'gap' ? theme.colors.error : theme.colors.warning};
+  padding: ${({ theme }) => theme.spacing.xs} 0;
+`
+
+const NoteButton = styled.button<{ $selected: boolean }>`
+  background: none;
+  border: none;
+  padding: 0;
+  font: inherit;
+  color: inherit;
+  text-align: left;
+  text-decoration: ${({ $selected }) => $selected ? 'underline' : 'none'};
+  cursor: pointer;
+
+  &:disabled {
+    cursor: default;
+  }
+`
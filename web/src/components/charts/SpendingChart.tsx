@@ -4,19 +4,25 @@ import {
   ArcElement,
   Tooltip,
   Legend,
+  type ActiveElement,
+  type ChartEvent,
   type TooltipItem,
 } from 'chart.js'
 import styled from 'styled-components'
 import { theme } from '../../styles'
+import { DEFAULT_CURRENCY, getCurrencySymbol } from '../../core/types'
 
 // Register Chart.js components
 ChartJS.register(ArcElement, Tooltip, Legend)
 
 interface SpendingChartProps {
   data: Map<string, number>
+  currency?: string       // Currency the amounts are in
+  onSelect?: (category: string) => void  // Called with the category of a clicked segment
 }
 
-export function SpendingChart({ data }: SpendingChartProps) {
+export function SpendingChart({ data, currency = DEFAULT_CURRENCY, onSelect }: SpendingChartProps) {
+  const symbol = getCurrencySymbol(currency)
   const sortedEntries = Array.from(data.entries())
     .sort((a, b) => b[1] - a[1])
     .slice(0, 10) // Top 10 categories
@@ -35,6 +41,17 @@ export function SpendingChart({ data }: SpendingChartProps) {
   const options = {
     responsive: true,
     maintainAspectRatio: false,
+    onClick: (_event: ChartEvent, elements: ActiveElement[]) => {
+      if (onSelect && elements.length > 0) {
+        onSelect(sortedEntries[elements[0].index][0])
+      }
+    },
+    onHover: (event: ChartEvent, elements: ActiveElement[]) => {
+      const canvas = event.native?.target as HTMLElement | undefined
+      if (canvas && onSelect) {
+        canvas.style.cursor = elements.length > 0 ? 'pointer' : 'default'
+      }
+    },
     plugins: {
       legend: {
         position: 'right' as const,
@@ -52,7 +69,7 @@ export function SpendingChart({ data }: SpendingChartProps) {
             const total = sortedEntries.reduce((sum, [, amt]) => sum + amt, 0)
             const value = context.raw as number
             const percent = ((value / total) * 100).toFixed(1)
-            return `${context.label}: €${value.toLocaleString('en', { minimumFractionDigits: 2 })} (${percent}%)`
+            return `${context.label}: ${symbol}${value.toLocaleString('en', { minimumFractionDigits: 2 })} (${percent}%)`
           },
         },
       },
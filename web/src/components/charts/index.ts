@@ -1,3 +1,4 @@
 export * from './SpendingChart'
 export * from './CashFlowChart'
 export * from './CategoryDetailChart'
+export * from './CoverageTimeline'
@@ -0,0 +1,379 @@
+import { useMemo, useState } from 'react'
+import styled from 'styled-components'
+import { Button } from './Button'
+import {
+  guessColumnMapping,
+  guessDateFormat,
+  parseGenericCSV,
+  readCSVHeaders,
+  type StatementSample,
+} from '../../core/parsers'
+import {
+  DATE_FORMATS,
+  type CsvColumnMapping,
+  type CsvMappingProfile,
+  type DateFormat,
+  type DecimalSeparator,
+} from '../../core/types'
+
+interface ColumnMappingWizardProps {
+  sample: StatementSample
+  onConfirm: (profile: CsvMappingProfile) => void
+  onSkip: () => void
+}
+
+const DELIMITER_OPTIONS = [
+  { value: ';', label: 'Semicolon (;)' },
+  { value: ',', label: 'Comma (,)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' },
+]
+
+const PREVIEW_ROWS = 5
+
+type AmountMode = 'single' | 'split'
+
+/**
+ * Pick the columns relevant to the chosen amount mode, dropping unset optionals.
+ */
+function cleanColumns(columns: CsvColumnMapping, amountMode: AmountMode): CsvColumnMapping {
+  const cleaned: CsvColumnMapping = { date: columns.date, title: columns.title }
+  if (amountMode === 'single') {
+    if (columns.amount) cleaned.amount = columns.amount
+  } else {
+    if (columns.debit) cleaned.debit = columns.debit
+    if (columns.credit) cleaned.credit = columns.credit
+  }
+  if (columns.name) cleaned.name = columns.name
+  if (columns.message) cleaned.message = columns.message
+  if (columns.reference) cleaned.reference = columns.reference
+  if (columns.balance) cleaned.balance = columns.balance
+  return cleaned
+}
+
+/**
+ * Interactive column mapping for a CSV no built-in parser recognises.
+ * The user picks columns and formats, checks the preview and saves a named profile.
+ */
+export function ColumnMappingWizard({ sample, onConfirm, onSkip }: ColumnMappingWizardProps) {
+  const [delimiter, setDelimiter] = useState(sample.delimiter || ';')
+  const [decimalSeparator, setDecimalSeparator] = useState<DecimalSeparator>(sample.decimalSeparator)
+  const [columns, setColumns] = useState<CsvColumnMapping>(() => guessColumnMapping(sample.headers))
+  const [amountMode, setAmountMode] = useState<AmountMode>(() =>
+    columns.amount || !(columns.debit || columns.credit) ? 'single' : 'split'
+  )
+  const [dateFormat, setDateFormat] = useState<DateFormat>(() => {
+    const dateIndex = sample.headers.indexOf(columns.date)
+    return guessDateFormat(dateIndex >= 0 ? sample.rows.map(r => r[dateIndex] ?? '') : [])
+  })
+  const [profileName, setProfileName] = useState('')
+
+  const headers = useMemo(
+    () => readCSVHeaders(sample.content, delimiter),
+    [sample.content, delimiter]
+  )
+
+  const profile: CsvMappingProfile = {
+    name: profileName.trim(),
+    headers,
+    delimiter,
+    decimalSeparator,
+    dateFormat,
+    columns: cleanColumns(columns, amountMode),
+  }
+
+  // Try the mapping on the whole file so problems show before saving
+  const preview = useMemo(() => {
+    try {
+      const transactions = parseGenericCSV(sample.content, sample.filename, {
+        name: 'preview',
+        headers,
+        delimiter,
+        decimalSeparator,
+        dateFormat,
+        columns: cleanColumns(columns, amountMode),
+      })
+      return { transactions, error: null }
+    } catch (error) {
+      return { transactions: [], error: error instanceof Error ? error.message : 'Failed to parse' }
+    }
+  }, [sample.content, sample.filename, headers, delimiter, decimalSeparator, dateFormat, columns, amountMode])
+
+  const hasAmount = amountMode === 'single'
+    ? Boolean(columns.amount)
+    : Boolean(columns.debit || columns.credit)
+  const isComplete = Boolean(columns.date && columns.title && hasAmount)
+  const canSave = isComplete && !preview.error && preview.transactions.length > 0 && profile.name !== ''
+
+  const handleDelimiterChange = (value: string) => {
+    setDelimiter(value)
+    // Column names change with the delimiter, so start the mapping over
+    setColumns(guessColumnMapping(readCSVHeaders(sample.content, value)))
+  }
+
+  const setColumn = (field: keyof CsvColumnMapping, value: string) => {
+    setColumns(prev => ({ ...prev, [field]: value || undefined }))
+  }
+
+  const renderColumnSelect = (field: keyof CsvColumnMapping, label: string, required = false) => (
+    <Field>
+      <FieldLabel htmlFor={`mapping-${field}`}>
+        {label}{required && ' *'}
+      </FieldLabel>
+      <Select
+        id={`mapping-${field}`}
+        value={columns[field] ?? ''}
+        onChange={e => setColumn(field, e.target.value)}
+      >
+        <option value="">{required ? 'Select column...' : '(none)'}</option>
+        {headers.map(h => (
+          <option key={h} value={h}>{h}</option>
+        ))}
+      </Select>
+    </Field>
+  )
+
+  return (
+    <Card>
+      <CardTitle>Map columns for {sample.filename}</CardTitle>
+      <CardDescription>
+        We don't recognise this file's format. Tell us which column holds what,
+        and save the mapping so files from this bank load automatically next time.
+      </CardDescription>
+
+      <FieldGrid>
+        <Field>
+          <FieldLabel htmlFor="mapping-delimiter">Delimiter</FieldLabel>
+          <Select
+            id="mapping-delimiter"
+            value={delimiter}
+            onChange={e => handleDelimiterChange(e.target.value)}
+          >
+            {DELIMITER_OPTIONS.map(o => (
+              <option key={o.label} value={o.value}>{o.label}</option>
+            ))}
+          </Select>
+        </Field>
+        <Field>
+          <FieldLabel htmlFor="mapping-decimal">Decimal separator</FieldLabel>
+          <Select
+            id="mapping-decimal"
+            value={decimalSeparator}
+            onChange={e => setDecimalSeparator(e.target.value as DecimalSeparator)}
+          >
+            <option value=",">Comma (1.234,56)</option>
+            <option value=".">Dot (1,234.56)</option>
+          </Select>
+        </Field>
+        <Field>
+          <FieldLabel htmlFor="mapping-date-format">Date format</FieldLabel>
+          <Select
+            id="mapping-date-format"
+            value={dateFormat}
+            onChange={e => setDateFormat(e.target.value as DateFormat)}
+          >
+            {DATE_FORMATS.map(f => (
+              <option key={f} value={f}>{f}</option>
+            ))}
+          </Select>
+        </Field>
+        <Field>
+          <FieldLabel htmlFor="mapping-amount-mode">Amount</FieldLabel>
+          <Select
+            id="mapping-amount-mode"
+            value={amountMode}
+            onChange={e => setAmountMode(e.target.value as AmountMode)}
+          >
+            <option value="single">One signed column</option>
+            <option value="split">Separate debit/credit columns</option>
+          </Select>
+        </Field>
+      </FieldGrid>
+
+      <FieldGrid>
+        {renderColumnSelect('date', 'Date', true)}
+        {amountMode === 'single'
+          ? renderColumnSelect('amount', 'Amount', true)
+          : (
+            <>
+              {renderColumnSelect('debit', 'Debit (money out)')}
+              {renderColumnSelect('credit', 'Credit (money in)')}
+            </>
+          )}
+        {renderColumnSelect('title', 'Title / payee', true)}
+        {renderColumnSelect('name', 'Name')}
+        {renderColumnSelect('message', 'Message')}
+        {renderColumnSelect('reference', 'Reference')}
+        {renderColumnSelect('balance', 'Balance')}
+      </FieldGrid>
+
+      <PreviewTitle>Preview</PreviewTitle>
+      {!isComplete ? (
+        <PreviewNote>Select the date, amount and title columns to see a preview.</PreviewNote>
+      ) : preview.error ? (
+        <PreviewError role="alert">{preview.error}</PreviewError>
+      ) : (
+        <>
+          <PreviewTable>
+            <thead>
+              <tr>
+                <th>Date</th>
+                <th>Title</th>
+                <th>Amount</th>
+              </tr>
+            </thead>
+            <tbody>
+              {preview.transactions.slice(0, PREVIEW_ROWS).map(t => (
+                <tr key={t.id}>
+                  <td>{t.date.toLocaleDateString('en-IE')}</td>
+                  <td>{t.title}</td>
+                  <td className={t.amount >= 0 ? 'positive' : 'negative'}>
+                    {t.amount.toLocaleString('en', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </PreviewTable>
+          <PreviewNote>{preview.transactions.length} transactions parsed</PreviewNote>
+        </>
+      )}
+
+      <Field>
+        <FieldLabel htmlFor="mapping-name">Save mapping as *</FieldLabel>
+        <TextInput
+          id="mapping-name"
+          value={profileName}
+          onChange={e => setProfileName(e.target.value)}
+          placeholder="e.g. S-Pankki"
+        />
+      </Field>
+
+      <ButtonRow>
+        <Button $variant="secondary" onClick={onSkip}>
+          Skip File
+        </Button>
+        <Button onClick={() => onConfirm(profile)} disabled={!canSave}>
+          Save &amp; Import
+        </Button>
+      </ButtonRow>
+    </Card>
+  )
+}
+
+const Card = styled.div`
+  background: ${({ theme }) => theme.colors.surface};
+  border: 1px solid ${({ theme }) => theme.colors.border};
+  border-radius: ${({ theme }) => theme.borderRadius.lg};
+  padding: ${({ theme }) => theme.spacing.lg};
+  margin-bottom: ${({ theme }) => theme.spacing.lg};
+`
+
+const CardTitle = styled.h3`
+  font-size: ${({ theme }) => theme.fontSize.lg};
+  margin-bottom: ${({ theme }) => theme.spacing.xs};
+  word-break: break-word;
+`
+
+const CardDescription = styled.p`
+  font-size: ${({ theme }) => theme.fontSize.sm};
+  color: ${({ theme }) => theme.colors.textSecondary};
+  margin-bottom: ${({ theme }) => theme.spacing.md};
+`
+
+const FieldGrid = styled.div`
+  display: grid;
+  grid-template-columns: repeat(auto-fit, minmax(180px, 1fr));
+  gap: ${({ theme }) => theme.spacing.md};
+  margin-bottom: ${({ theme }) => theme.spacing.md};
+`
+
+const Field = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: ${({ theme }) => theme.spacing.xs};
+  margin-bottom: ${({ theme }) => theme.spacing.md};
+`
+
+const FieldLabel = styled.label`
+  font-size: ${({ theme }) => theme.fontSize.sm};
+  font-weight: ${({ theme }) => theme.fontWeight.medium};
+  color: ${({ theme }) => theme.colors.textSecondary};
+`
+
+const Select = styled.select`
+  padding: ${({ theme }) => theme.spacing.sm};
+  border: 1px solid ${({ theme }) => theme.colors.border};
+  border-radius: ${({ theme }) => theme.borderRadius.md};
+  background: ${({ theme }) => theme.colors.background};
+  font-size: ${({ theme }) => theme.fontSize.sm};
+`
+
+const TextInput = styled.input`
+  padding: ${({ theme }) => theme.spacing.sm} ${({ theme }) => theme.spacing.md};
+  border: 2px solid ${({ theme }) => theme.colors.border};
+  border-radius: ${({ theme }) => theme.borderRadius.md};
+  font-size: ${({ theme }) => theme.fontSize.base};
+
+  &:focus {
+    outline: none;
+    border-color: ${({ theme }) => theme.colors.primary};
+  }
+`
+
+const PreviewTitle = styled.div`
+  font-weight: ${({ theme }) => theme.fontWeight.semibold};
+  margin-bottom: ${({ theme }) => theme.spacing.sm};
+`
+
+const PreviewTable = styled.table`
+  width: 100%;
+  border-collapse: collapse;
+  background: ${({ theme }) => theme.colors.background};
+  border-radius: ${({ theme }) => theme.borderRadius.md};
+  overflow: hidden;
+  font-size: ${({ theme }) => theme.fontSize.sm};
+  margin-bottom: ${({ theme }) => theme.spacing.xs};
+
+  th, td {
+    padding: ${({ theme }) => theme.spacing.xs} ${({ theme }) => theme.spacing.sm};
+    text-align: left;
+  }
+
+  th:last-child, td:last-child {
+    text-align: right;
+  }
+
+  th {
+    color: ${({ theme }) => theme.colors.textSecondary};
+    font-weight: ${({ theme }) => theme.fontWeight.semibold};
+  }
+
+  .positive {
+    color: ${({ theme }) => theme.colors.success};
+  }
+
+  .negative {
+    color: ${({ theme }) => theme.colors.error};
+  }
+`
+
+const PreviewNote = styled.div`
+  font-size: ${({ theme }) => theme.fontSize.sm};
+  color: ${({ theme }) => theme.colors.textMuted};
+  margin-bottom: ${({ theme }) => theme.spacing.md};
+`
+
+const PreviewError = styled.div`
+  font-size: ${({ theme }) => theme.fontSize.sm};
+  color: ${({ theme }) => theme.colors.error};
+  background: ${({ theme }) => theme.colors.errorLight};
+  border-radius: ${({ theme }) => theme.borderRadius.md};
+  padding: ${({ theme }) => theme.spacing.sm};
+  margin-bottom: ${({ theme }) => theme.spacing.md};
+`
+
+const ButtonRow = styled.div`
+  display: flex;
+  justify-content: flex-end;
+  gap: ${({ theme }) => theme.spacing.sm};
+`
@@ -0,0 +1,247 @@
+import { useState, type ChangeEvent, type FormEvent } from 'react'
+import styled from 'styled-components'
+import { Button } from './Button'
+import { getCurrencies } from '../../core/processors'
+import {
+  DEFAULT_CURRENCY,
+  parseDateWithFormat,
+  type ExchangeRate,
+  type Transaction,
+} from '../../core/types'
+
+interface CurrencyPanelProps {
+  transactions: Transaction[]
+  baseCurrency: string
+  rates: ExchangeRate[]
+  onBaseCurrencyChange: (currency: string) => void
+  onRateFileSelected: (file: File) => void
+  onRateAdded: (rate: ExchangeRate) => void
+}
+
+/**
+ * Currencies found in the statements and the rates for converting them.
+ * Rates come from a local CSV or are typed in - nothing is fetched.
+ */
+export function CurrencyPanel({
+  transactions,
+  baseCurrency,
+  rates,
+  onBaseCurrencyChange,
+  onRateFileSelected,
+  onRateAdded,
+}: CurrencyPanelProps) {
+  const currencies = getCurrencies(transactions)
+  const foreign = currencies.filter(c => c.currency !== baseCurrency)
+  const baseOptions = [...new Set([DEFAULT_CURRENCY, baseCurrency, ...currencies.map(c => c.currency)])]
+
+  const [rateDate, setRateDate] = useState('')
+  const [rateCurrency, setRateCurrency] = useState(foreign[0]?.currency ?? '')
+  const [rateValue, setRateValue] = useState('')
+
+  const parsedRate = parseFloat(rateValue.replace(',', '.'))
+  const canAddRate = rateDate !== '' && /^[A-Z]{3}$/.test(rateCurrency) && parsedRate > 0
+
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (file) onRateFileSelected(file)
+    // Allow loading the same file again after editing it
+    e.target.value = ''
+  }
+
+  const handleAddRate = (e: FormEvent) => {
+    e.preventDefault()
+    if (!canAddRate) return
+    onRateAdded({
+      date: parseDateWithFormat(rateDate, 'YYYY-MM-DD'),
+      currency: rateCurrency,
+      rate: parsedRate,
+    })
+    setRateValue('')
+  }
+
+  return (
+    <Card>
+      <CardTitle>Currencies</CardTitle>
+      <CardDescription>
+        Your statements use more than one currency. Totals are converted to the
+        base currency using your own rate table (a CSV with date, currency and
+        rate columns), or rates you enter below.
+      </CardDescription>
+
+      <Field>
+        <FieldLabel htmlFor="base-currency">Base currency</FieldLabel>
+        <Select
+          id="base-currency"
+          value={baseCurrency}
+          onChange={e => onBaseCurrencyChange(e.target.value)}
+        >
+          {baseOptions.map(c => (
+            <option key={c} value={c}>{c}</option>
+          ))}
+        </Select>
+      </Field>
+
+      <CurrencyList>
+        {foreign.map(({ currency, transactionCount }) => {
+          // Rates are kept oldest first
+          const forCurrency = rates.filter(r => r.currency === currency)
+          const latest = forCurrency[forCurrency.length - 1]
+          return (
+            <CurrencyItem key={currency}>
+              <CurrencyCode>{currency}</CurrencyCode>
+              <CurrencyCount>{transactionCount} transactions</CurrencyCount>
+              {latest ? (
+                <RateStatus>
+                  {forCurrency.length} {forCurrency.length === 1 ? 'rate' : 'rates'},
+                  latest 1 {currency} = {latest.rate} {baseCurrency}
+                </RateStatus>
+              ) : (
+                <RateMissing>No rate</RateMissing>
+              )}
+            </CurrencyItem>
+          )
+        })}
+      </CurrencyList>
+
+      <Field>
+        <FieldLabel htmlFor="rate-file">Load rate table (CSV)</FieldLabel>
+        <input id="rate-file" type="file" accept=".csv,text/csv" onChange={handleFileChange} />
+      </Field>
+
+      <RateForm onSubmit={handleAddRate}>
+        <Field>
+          <FieldLabel htmlFor="rate-date">From date</FieldLabel>
+          <TextInput
+            id="rate-date"
+            type="date"
+            value={rateDate}
+            onChange={e => setRateDate(e.target.value)}
+          />
+        </Field>
+        <Field>
+          <FieldLabel htmlFor="rate-currency">Currency</FieldLabel>
+          <TextInput
+            id="rate-currency"
+            value={rateCurrency}
+            onChange={e => setRateCurrency(e.target.value.trim().toUpperCase())}
+            placeholder="SEK"
+            maxLength={3}
+          />
+        </Field>
+        <Field>
+          <FieldLabel htmlFor="rate-value">{baseCurrency} per unit</FieldLabel>
+          <TextInput
+            id="rate-value"
+            inputMode="decimal"
+            value={rateValue}
+            onChange={e => setRateValue(e.target.value)}
+            placeholder="0.0862"
+          />
+        </Field>
+        <Button type="submit" $variant="outline" disabled={!canAddRate}>
+          Add Rate
+        </Button>
+      </RateForm>
+    </Card>
+  )
+}
+
+const Card = styled.div`
+  background: ${({ theme }) => theme.colors.surface};
+  border: 1px solid ${({ theme }) => theme.colors.border};
+  border-radius: ${({ theme }) => theme.borderRadius.lg};
+  padding: ${({ theme }) => theme.spacing.lg};
+  margin-bottom: ${({ theme }) => theme.spacing.lg};
+`
+
+const CardTitle = styled.h3`
+  font-size: ${({ theme }) => theme.fontSize.lg};
+  margin-bottom: ${({ theme }) => theme.spacing.xs};
+`
+
+const CardDescription = styled.p`
+  font-size: ${({ theme }) => theme.fontSize.sm};
+  color: ${({ theme }) => theme.colors.textSecondary};
+  margin-bottom: ${({ theme }) => theme.spacing.md};
+`
+
+const Field = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: ${({ theme }) => theme.spacing.xs};
+  margin-bottom: ${({ theme }) => theme.spacing.md};
+`
+
+const FieldLabel = styled.label`
+  font-size: ${({ theme }) => theme.fontSize.sm};
+  font-weight: ${({ theme }) => theme.fontWeight.medium};
+  color: ${({ theme }) => theme.colors.textSecondary};
+`
+
+const Select = styled.select`
+  padding: ${({ theme }) => theme.spacing.sm};
+  border: 1px solid ${({ theme }) => theme.colors.border};
+  border-radius: ${({ theme }) => theme.borderRadius.md};
+  background: ${({ theme }) => theme.colors.background};
+  font-size: ${({ theme }) => theme.fontSize.sm};
+  max-width: 160px;
+`
+
+const TextInput = styled.input`
+  padding: ${({ theme }) => theme.spacing.sm} ${({ theme }) => theme.spacing.md};
+  border: 2px solid ${({ theme }) => theme.colors.border};
+  border-radius: ${({ theme }) => theme.borderRadius.md};
+  font-size: ${({ theme }) => theme.fontSize.base};
+
+  &:focus {
+    outline: none;
+    border-color: ${({ theme }) => theme.colors.primary};
+  }
+`
+
+const CurrencyList = styled.ul`
+  list-style: none;
+  margin: 0 0 ${({ theme }) => theme.spacing.md};
+  padding: 0;
+  background: ${({ theme }) => theme.colors.background};
+  border-radius: ${({ theme }) => theme.borderRadius.md};
+`
+
+const CurrencyItem = styled.li`
+  display: flex;
+  align-items: center;
+  gap: ${({ theme }) => theme.spacing.md};
+  padding: ${({ theme }) => theme.spacing.sm} ${({ theme }) => theme.spacing.md};
+  border-bottom: 1px solid ${({ theme }) => theme.colors.border};
+
+  &:last-child {
+    border-bottom: none;
+  }
+`
+
+const CurrencyCode = styled.span`
+  font-weight: ${({ theme }) => theme.fontWeight.semibold};
+`
+
+const CurrencyCount = styled.span`
+  flex: 1;
+  font-size: ${({ theme }) => theme.fontSize.sm};
+  color: ${({ theme }) => theme.colors.textSecondary};
+`
+
+const RateStatus = styled.span`
+  font-size: ${({ theme }) => theme.fontSize.sm};
+  color: ${({ theme }) => theme.colors.success};
+`
+
+const RateMissing = styled.span`
+  font-size: ${({ theme }) => theme.fontSize.sm};
+  color: ${({ theme }) => theme.colors.error};
+`
+
+const RateForm = styled.form`
+  display: grid;
+  grid-template-columns: repeat(auto-fit, minmax(140px, 1fr));
+  gap: ${({ theme }) => theme.spacing.md};
+  align-items: center;
+`
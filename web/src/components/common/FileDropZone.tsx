@@ -1,18 +1,32 @@
 import { useCallback, useState, useRef } from 'react'
 import styled from 'styled-components'
+import { Button } from './Button'
+import type { FileProgress, FileStatus } from '../../workers'
 
 interface FileDropZoneProps {
   onFilesSelected: (files: File[]) => void
   accept?: string
   multiple?: boolean
   disabled?: boolean
+  progress?: FileProgress[]   // Files being processed, shown under the drop zone
+  onCancel?: () => void       // Shown as a Cancel button while files are processing
+}
+
+const STATUS_LABELS: Record<FileStatus, string> = {
+  queued: 'Waiting',
+  parsing: 'Reading...',
+  done: 'Done',
+  unrecognised: 'Needs column mapping',
+  failed: 'Failed',
 }
 
 export function FileDropZone({
   onFilesSelected,
-  accept = '.csv,.json',
+  accept = '.csv,.xml,.ofx,.qfx,.json',
   multiple = true,
   disabled = false,
+  progress = [],
+  onCancel,
 }: FileDropZoneProps) {
   const [isDragOver, setIsDragOver] = useState(false)
   const inputRef = useRef<HTMLInputElement>(null)
@@ -66,35 +80,66 @@ export function FileDropZone({
     e.target.value = ''
   }, [onFilesSelected])
 
+  const doneCount = progress.filter(p => p.status !== 'queued' && p.status !== 'parsing').length
+  const isProcessing = doneCount < progress.length
+
   return (
-    <DropZone
-      $isDragOver={isDragOver}
-      $disabled={disabled}
-      onDragOver={handleDragOver}
-      onDragLeave={handleDragLeave}
-      onDrop={handleDrop}
-      onClick={handleClick}
-      onKeyDown={handleKeyDown}
-      role="button"
-      tabIndex={disabled ? -1 : 0}
-      aria-label="Drop files here or click to select"
-      aria-disabled={disabled}
-    >
-      <HiddenInput
-        ref={inputRef}
-        type="file"
-        accept={accept}
-        multiple={multiple}
-        onChange={handleInputChange}
-        disabled={disabled}
-      />
-      <Icon aria-hidden="true">📁</Icon>
-      <MainText>
-        {isDragOver ? 'Drop files here' : 'Drag & drop files here'}
-      </MainText>
-      <SubText>or click to select files</SubText>
-      <AcceptedTypes>Accepts: CSV bank statements, JSON groupings file</AcceptedTypes>
-    </DropZone>
+    <>
+      <DropZone
+        $isDragOver={isDragOver}
+        $disabled={disabled}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+        onClick={handleClick}
+        onKeyDown={handleKeyDown}
+        role="button"
+        tabIndex={disabled ? -1 : 0}
+        aria-label="Drop files here or click to select"
+        aria-disabled={disabled}
+      >
+        <HiddenInput
+          ref={inputRef}
+          type="file"
+          accept={accept}
+          multiple={multiple}
+          onChange={handleInputChange}
+          disabled={disabled}
+        />
+        <Icon aria-hidden="true">📁</Icon>
+        <MainText>
+          {isDragOver ? 'Drop files here' : 'Drag & drop files here'}
+        </MainText>
+        <SubText>or click to select files</SubText>
+        <AcceptedTypes>Accepts: CSV, XML or OFX bank statements, JSON groupings file</AcceptedTypes>
+      </DropZone>
+      {progress.length > 0 && (
+        <ProgressPanel aria-live="polite">
+          <ProgressHeader>
+            <span>Processed {doneCount} of {progress.length} files</span>
+            {isProcessing && onCancel && (
+              <Button $variant="secondary" $size="sm" onClick={onCancel}>
+                Cancel
+              </Button>
+            )}
+          </ProgressHeader>
+          <ProgressTrack>
+            <ProgressFill style={{ width: `${(doneCount / progress.length) * 100}%` }} />
+          </ProgressTrack>
+          <ProgressList>
+            {progress.map(file => (
+              <ProgressItem key={file.filename}>
+                <ProgressName>{file.filename}</ProgressName>
+                <ProgressStatus $status={file.status}>
+                  {STATUS_LABELS[file.status]}
+                  {file.transactionCount !== undefined && ` (${file.transactionCount} transactions)`}
+                </ProgressStatus>
+              </ProgressItem>
+            ))}
+          </ProgressList>
+        </ProgressPanel>
+      )}
+    </>
   )
 }
 
@@ -163,3 +208,66 @@ const AcceptedTypes = styled.div`
   font-size: ${({ theme }) => theme.fontSize.xs};
   color: ${({ theme }) => theme.colors.textMuted};
 `
+
+const ProgressPanel = styled.div`
+  margin-top: ${({ theme }) => theme.spacing.md};
+  padding: ${({ theme }) => theme.spacing.md};
+  background: ${({ theme }) => theme.colors.surface};
+  border: 1px solid ${({ theme }) => theme.colors.border};
+  border-radius: ${({ theme }) => theme.borderRadius.md};
+`
+
+const ProgressHeader = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  font-size: ${({ theme }) => theme.fontSize.sm};
+  color: ${({ theme }) => theme.colors.textSecondary};
+  margin-bottom: ${({ theme }) => theme.spacing.sm};
+`
+
+const ProgressTrack = styled.div`
+  height: 6px;
+  background: ${({ theme }) => theme.colors.border};
+  border-radius: ${({ theme }) => theme.borderRadius.full};
+  overflow: hidden;
+  margin-bottom: ${({ theme }) => theme.spacing.sm};
+`
+
+const ProgressFill = styled.div`
+  height: 100%;
+  background: ${({ theme }) => theme.colors.primary};
+  transition: width ${({ theme }) => theme.transitions.fast};
+`
+
+const ProgressList = styled.ul`
+  list-style: none;
+  margin: 0;
+  padding: 0;
+  max-height: 200px;
+  overflow-y: auto;
+`
+
+const ProgressItem = styled.li`
+  display: flex;
+  justify-content: space-between;
+  gap: ${({ theme }) => theme.spacing.md};
+  font-size: ${({ theme }) => theme.fontSize.sm};
+  padding: ${({ theme }) => theme.spacing.xs} 0;
+`
+
+const ProgressName = styled.span`
+  word-break: break-word;
+`
+
+const ProgressStatus = styled.span<{ $status: FileStatus }>`
+  white-space: nowrap;
+  color: ${({ $status, theme }) =>
+    $status === 'done'
+      ? theme.colors.success
+      : $status === 'failed'
+        ? theme.colors.error
+        : $status === 'unrecognised'
+          ? theme.colors.warning
+          : theme.colors.textMuted};
+`
@@ -0,0 +1,348 @@
+import { useMemo, useState } from 'react'
+import styled from 'styled-components'
+import { Button } from './Button'
+import { AutocompleteInput } from './AutocompleteInput'
+import { findRuleMatches } from '../../core/processors'
+import {
+  CategoryMappingSchema,
+  MATCH_TYPES,
+  type CategoryMapping,
+  type MatchType,
+  type RuleConditions,
+  type RuleDirection,
+  type TextMatch,
+  type Transaction,
+} from '../../core/types'
+
+interface RuleEditorProps {
+  transactions: Transaction[]
+  categories: string[]
+  onSave: (mapping: CategoryMapping) => void
+  onCancel: () => void
+}
+
+type TextField = 'title' | 'name' | 'message' | 'referenceNumber'
+
+const TEXT_FIELDS: { field: TextField; label: string; placeholder: string }[] = [
+  { field: 'title', label: 'Title', placeholder: 'e.g. LIDL' },
+  { field: 'name', label: 'Name', placeholder: 'e.g. SUN KOTI OY' },
+  { field: 'message', label: 'Message', placeholder: 'e.g. vuokra' },
+  { field: 'referenceNumber', label: 'Reference', placeholder: 'e.g. 654123' },
+]
+
+const EMPTY_MATCH: TextMatch = { pattern: '', matchType: 'contains' }
+
+const PREVIEW_ROWS = 5
+
+/**
+ * Read an amount input, leaving blanks unset.
+ */
+function parseAmount(value: string): number | undefined {
+  return value.trim() === '' ? undefined : Number(value)
+}
+
+/**
+ * Interactive editor for a rule combining conditions on the title, name,
+ * message, reference, amount, direction and dates. Shows which
+ * transactions the rule matches before saving it.
+ */
+export function RuleEditor({ transactions, categories, onSave, onCancel }: RuleEditorProps) {
+  const [matches, setMatches] = useState<Record<TextField, TextMatch>>({
+    title: EMPTY_MATCH,
+    name: EMPTY_MATCH,
+    message: EMPTY_MATCH,
+    referenceNumber: EMPTY_MATCH,
+  })
+  const [minAmount, setMinAmount] = useState('')
+  const [maxAmount, setMaxAmount] = useState('')
+  const [direction, setDirection] = useState<RuleDirection>('expense')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [priority, setPriority] = useState('0')
+  const [category, setCategory] = useState('')
+
+  const rule = useMemo<CategoryMapping>(() => {
+    const textMatch = (field: TextField) => {
+      const match = matches[field]
+      return match.pattern.trim() ? { ...match, pattern: match.pattern.trim() } : undefined
+    }
+    const conditions: RuleConditions = {
+      name: textMatch('name'),
+      message: textMatch('message'),
+      referenceNumber: textMatch('referenceNumber'),
+      minAmount: parseAmount(minAmount),
+      maxAmount: parseAmount(maxAmount),
+      // Expenses are the default, so only income is written out
+      direction: direction === 'income' ? 'income' : undefined,
+      from: from || undefined,
+      to: to || undefined,
+    }
+    const setConditions = Object.fromEntries(
+      Object.entries(conditions).filter(([, value]) => value !== undefined)
+    ) as RuleConditions
+    const rulePriority = Math.trunc(Number(priority)) || 0
+
+    return {
+      pattern: matches.title.pattern.trim(),
+      matchType: matches.title.matchType,
+      category: category.trim(),
+      ...(Object.keys(setConditions).length > 0 && { conditions: setConditions }),
+      ...(rulePriority !== 0 && { priority: rulePriority }),
+    }
+  }, [matches, minAmount, maxAmount, direction, from, to, priority, category])
+
+  // Problems with the conditions; a missing category just keeps Save disabled
+  const problems = useMemo(() => {
+    const result = CategoryMappingSchema.safeParse(rule)
+    return result.success
+      ? []
+      : result.error.issues.filter(issue => issue.path[0] !== 'category').map(issue => issue.message)
+  }, [rule])
+
+  const preview = useMemo(
+    () => (problems.length === 0 ? findRuleMatches(transactions, rule) : []),
+    [transactions, rule, problems]
+  )
+
+  const isEmpty = !rule.pattern && !rule.conditions
+  const canSave = problems.length === 0 && rule.category !== ''
+
+  const setMatch = (field: TextField, change: Partial<TextMatch>) => {
+    setMatches(prev => ({ ...prev, [field]: { ...prev[field], ...change } }))
+  }
+
+  const handleSave = () => {
+    if (canSave) onSave(rule)
+  }
+
+  const renderTextMatch = (field: TextField, label: string, placeholder: string) => (
+    <Field key={field}>
+      <FieldLabel htmlFor={`rule-${field}`}>{label}</FieldLabel>
+      <MatchRow>
+        <Select
+          aria-label={`${label} match type`}
+          value={matches[field].matchType}
+          onChange={e => setMatch(field, { matchType: e.target.value as MatchType })}
+        >
+          {MATCH_TYPES.map(type => (
+            <option key={type} value={type}>{type}</option>
+          ))}
+        </Select>
+        <TextInput
+          id={`rule-${field}`}
+          value={matches[field].pattern}
+          onChange={e => setMatch(field, { pattern: e.target.value })}
+          placeholder={placeholder}
+        />
+      </MatchRow>
+    </Field>
+  )
+
+  return (
+    <Card>
+      <CardDescription>
+        Every filled-in condition must hold. Blank fields match anything.
+      </CardDescription>
+
+      {TEXT_FIELDS.map(({ field, label, placeholder }) => renderTextMatch(field, label, placeholder))}
+
+      <FieldGrid>
+        <Field>
+          <FieldLabel htmlFor="rule-min-amount">Amount from</FieldLabel>
+          <TextInput
+            id="rule-min-amount"
+            type="number"
+            min="0"
+            step="0.01"
+            value={minAmount}
+            onChange={e => setMinAmount(e.target.value)}
+          />
+        </Field>
+        <Field>
+          <FieldLabel htmlFor="rule-max-amount">Amount under</FieldLabel>
+          <TextInput
+            id="rule-max-amount"
+            type="number"
+            min="0"
+            step="0.01"
+            value={maxAmount}
+            onChange={e => setMaxAmount(e.target.value)}
+          />
+        </Field>
+        <Field>
+          <FieldLabel htmlFor="rule-direction">Direction</FieldLabel>
+          <Select
+            id="rule-direction"
+            value={direction}
+            onChange={e => setDirection(e.target.value as RuleDirection)}
+          >
+            <option value="expense">Money out</option>
+            <option value="income">Money in</option>
+          </Select>
+        </Field>
+        <Field>
+          <FieldLabel htmlFor="rule-from">From</FieldLabel>
+          <TextInput id="rule-from" type="date" value={from} onChange={e => setFrom(e.target.value)} />
+        </Field>
+        <Field>
+          <FieldLabel htmlFor="rule-to">To</FieldLabel>
+          <TextInput id="rule-to" type="date" value={to} onChange={e => setTo(e.target.value)} />
+        </Field>
+        <Field>
+          <FieldLabel htmlFor="rule-priority">Priority</FieldLabel>
+          <TextInput
+            id="rule-priority"
+            type="number"
+            step="1"
+            value={priority}
+            onChange={e => setPriority(e.target.value)}
+          />
+        </Field>
+      </FieldGrid>
+
+      {isEmpty ? (
+        <PreviewNote>Fill in at least one condition to see which transactions match.</PreviewNote>
+      ) : problems.length > 0 ? (
+        <PreviewError role="alert">{problems.join('\n')}</PreviewError>
+      ) : (
+        <>
+          <PreviewTable>
+            <tbody>
+              {preview.slice(0, PREVIEW_ROWS).map(t => (
+                <tr key={`${t.sourceFile}:${t.id}`}>
+                  <td>{t.date.toLocaleDateString('en-IE')}</td>
+                  <td>{t.title}</td>
+                  <td>
+                    {t.amount.toLocaleString('en', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </PreviewTable>
+          <PreviewNote>
+            Matches {preview.length} transaction{preview.length !== 1 ? 's' : ''}
+          </PreviewNote>
+        </>
+      )}
+
+      <Field>
+        <FieldLabel>Category *</FieldLabel>
+        <AutocompleteInput
+          value={category}
+          onChange={setCategory}
+          onSubmit={handleSave}
+          suggestions={categories}
+        />
+      </Field>
+
+      <ButtonRow>
+        <Button $variant="secondary" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} disabled={!canSave}>
+          Save Rule
+        </Button>
+      </ButtonRow>
+    </Card>
+  )
+}
+
+const Card = styled.div`
+  padding: 0 ${({ theme }) => theme.spacing.md} ${({ theme }) => theme.spacing.md};
+`
+
+const CardDescription = styled.p`
+  font-size: ${({ theme }) => theme.fontSize.xs};
+  color: ${({ theme }) => theme.colors.textMuted};
+  margin-bottom: ${({ theme }) => theme.spacing.sm};
+`
+
+const FieldGrid = styled.div`
+  display: grid;
+  grid-template-columns: repeat(auto-fit, minmax(130px, 1fr));
+  column-gap: ${({ theme }) => theme.spacing.md};
+`
+
+const Field = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: ${({ theme }) => theme.spacing.xs};
+  margin-bottom: ${({ theme }) => theme.spacing.md};
+`
+
+const FieldLabel = styled.label`
+  font-size: ${({ theme }) => theme.fontSize.sm};
+  font-weight: ${({ theme }) => theme.fontWeight.medium};
+  color: ${({ theme }) => theme.colors.textSecondary};
+`
+
+const MatchRow = styled.div`
+  display: flex;
+  gap: ${({ theme }) => theme.spacing.xs};
+
+  > input {
+    flex: 1;
+    min-width: 0;
+  }
+`
+
+const Select = styled.select`
+  padding: ${({ theme }) => theme.spacing.sm};
+  border: 1px solid ${({ theme }) => theme.colors.border};
+  border-radius: ${({ theme }) => theme.borderRadius.md};
+  background: ${({ theme }) => theme.colors.background};
+  font-size: ${({ theme }) => theme.fontSize.sm};
+`
+
+const TextInput = styled.input`
+  padding: ${({ theme }) => theme.spacing.sm} ${({ theme }) => theme.spacing.md};
+  border: 2px solid ${({ theme }) => theme.colors.border};
+  border-radius: ${({ theme }) => theme.borderRadius.md};
+  font-size: ${({ theme }) => theme.fontSize.base};
+
+  &:focus {
+    outline: none;
+    border-color: ${({ theme }) => theme.colors.primary};
+  }
+`
+
+const PreviewTable = styled.table`
+  width: 100%;
+  border-collapse: collapse;
+  background: ${({ theme }) => theme.colors.background};
+  border-radius: ${({ theme }) => theme.borderRadius.md};
+  overflow: hidden;
+  font-size: ${({ theme }) => theme.fontSize.sm};
+  margin-bottom: ${({ theme }) => theme.spacing.xs};
+
+  td {
+    padding: ${({ theme }) => theme.spacing.xs} ${({ theme }) => theme.spacing.sm};
+    text-align: left;
+  }
+
+  td:last-child {
+    text-align: right;
+  }
+`
+
+const PreviewNote = styled.div`
+  font-size: ${({ theme }) => theme.fontSize.sm};
+  color: ${({ theme }) => theme.colors.textMuted};
+  margin-bottom: ${({ theme }) => theme.spacing.md};
+`
+
+const PreviewError = styled.div`
+  font-size: ${({ theme }) => theme.fontSize.sm};
+  color: ${({ theme }) => theme.colors.error};
+  background: ${({ theme }) => theme.colors.errorLight};
+  border-radius: ${({ theme }) => theme.borderRadius.md};
+  padding: ${({ theme }) => theme.spacing.sm};
+  margin-bottom: ${({ theme }) => theme.spacing.md};
+  white-space: pre-line;
+`
+
+const ButtonRow = styled.div`
+  display: flex;
+  justify-content: flex-end;
+  gap: ${({ theme }) => theme.spacing.sm};
+`
@@ -0,0 +1,217 @@
+import { useState } from 'react'
+import styled from 'styled-components'
+import { describeRule, type RuleStats, type RuleStatus } from '../../core/processors'
+import { formatMoney, getMerchantName } from '../../core/types'
+
+interface RuleListProps {
+  rules: RuleStats[]      // From explainRules, in the order the rules are tried
+  currency: string        // Currency the amounts are in
+}
+
+const SHOWN_WINS = 10
+
+/**
+ * Name a rule by its position in the category mappings, e.g. "#3".
+ */
+function ruleLabel(index: number): string {
+  return `#${index + 1}`
+}
+
+/**
+ * Rules with what each matches and categorizes, flagging rules that never
+ * match or lose all their matches to other rules. Click a rule to see the
+ * transactions it categorized and which other rules matched them too.
+ */
+export function RuleList({ rules, currency }: RuleListProps) {
+  const [expandedRule, setExpandedRule] = useState<number | null>(null)
+
+  const unmatchedCount = rules.filter(r => r.status === 'unmatched').length
+  const shadowedCount = rules.filter(r => r.status === 'shadowed').length
+  const unusedCount = rules.filter(r => r.status === 'unused').length
+
+  if (rules.length === 0) {
+    return <Summary>No rules assign this category.</Summary>
+  }
+
+  return (
+    <>
+      <Summary>
+        {rules.length} rule{rules.length !== 1 ? 's' : ''}
+        {unmatchedCount > 0 && ` • ${unmatchedCount} never match`}
+        {shadowedCount > 0 && ` • ${shadowedCount} shadowed by other rules`}
+        {unusedCount > 0 && ` • ${unusedCount} categorize nothing`}
+      </Summary>
+      <RuleTable>
+        <thead>
+          <tr>
+            <th>Rule</th>
+            <th>Category</th>
+            <th>Matches</th>
+            <th>Categorized</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rules.map(rule => (
+            <RuleRows
+              key={rule.index}
+              rule={rule}
+              currency={currency}
+              isExpanded={expandedRule === rule.index}
+              onToggle={() => setExpandedRule(expandedRule === rule.index ? null : rule.index)}
+            />
+          ))}
+        </tbody>
+      </RuleTable>
+    </>
+  )
+}
+
+interface RuleRowsProps {
+  rule: RuleStats
+  currency: string
+  isExpanded: boolean
+  onToggle: () => void
+}
+
+/**
+ * One rule's row, and the transactions it categorized when expanded.
+ */
+function RuleRows({ rule, currency, isExpanded, onToggle }: RuleRowsProps) {
+  return (
+    <>
+      <RuleRow onClick={rule.wins.length > 0 ? onToggle : undefined} $clickable={rule.wins.length > 0}>
+        <td>
+          <RuleNumber>{ruleLabel(rule.index)}</RuleNumber> {describeRule(rule.mapping)}
+          {rule.status === 'unmatched' && (
+            <div><StatusBadge $status="unmatched">Never matches</StatusBadge></div>
+          )}
+          {rule.status === 'shadowed' && (
+            <div>
+              <StatusBadge $status="shadowed">
+                Shadowed by {rule.shadowedBy.map(ruleLabel).join(', ')}
+              </StatusBadge>
+            </div>
+          )}
+          {rule.status === 'unused' && (
+            <div><StatusBadge $status="unused">Matches, but categorizes nothing</StatusBadge></div>
+          )}
+        </td>
+        <td>{rule.mapping.category}</td>
+        <td>
+          {rule.matchCount}
+          <AmountNote>{formatMoney(rule.matchAmount, currency)}</AmountNote>
+        </td>
+        <td>
+          {rule.wins.length}
+          <AmountNote>{formatMoney(rule.winAmount, currency)}</AmountNote>
+        </td>
+      </RuleRow>
+      {isExpanded && (
+        <tr>
+          <td colSpan={4}>
+            <WinList>
+              {rule.wins.slice(0, SHOWN_WINS).map(({ transaction, alsoMatched }) => (
+                <WinItem key={`${transaction.sourceFile}:${transaction.id}`}>
+                  <span>{transaction.date.toLocaleDateString('en-IE')}</span>
+                  <WinTitle>{getMerchantName(transaction)}</WinTitle>
+                  <span>{formatMoney(Math.abs(transaction.amount), currency)}</span>
+                  {alsoMatched.length > 0 && (
+                    <AlsoMatched>also matched {alsoMatched.map(ruleLabel).join(', ')}</AlsoMatched>
+                  )}
+                </WinItem>
+              ))}
+              {rule.wins.length > SHOWN_WINS && (
+                <WinItem>...and {rule.wins.length - SHOWN_WINS} more</WinItem>
+              )}
+            </WinList>
+          </td>
+        </tr>
+      )}
+    </>
+  )
+}
+
+const Summary = styled.div`
+  font-size: ${({ theme }) => theme.fontSize.sm};
+  color: ${({ theme }) => theme.colors.textSecondary};
+  margin-bottom: ${({ theme }) => theme.spacing.sm};
+`
+
+const RuleTable = styled.table`
+  width: 100%;
+  border-collapse: collapse;
+  font-size: ${({ theme }) => theme.fontSize.sm};
+
+  th, td {
+    padding: ${({ theme }) => theme.spacing.xs} ${({ theme }) => theme.spacing.sm};
+    text-align: left;
+    vertical-align: top;
+  }
+
+  th {
+    color: ${({ theme }) => theme.colors.textSecondary};
+    font-weight: ${({ theme }) => theme.fontWeight.semibold};
+    border-bottom: 1px solid ${({ theme }) => theme.colors.border};
+  }
+
+  th:nth-child(3), th:nth-child(4),
+  td:nth-child(3), td:nth-child(4) {
+    text-align: right;
+    white-space: nowrap;
+  }
+`
+
+const RuleRow = styled.tr<{ $clickable: boolean }>`
+  cursor: ${({ $clickable }) => ($clickable ? 'pointer' : 'default')};
+  border-bottom: 1px solid ${({ theme }) => theme.colors.border};
+
+  &:hover {
+    background: ${({ theme }) => theme.colors.background};
+  }
+`
+
+const RuleNumber = styled.span`
+  color: ${({ theme }) => theme.colors.textMuted};
+`
+
+const StatusBadge = styled.span<{ $status: Exclude<RuleStatus, 'active'> }>`
+  display: inline-block;
+  margin-top: ${({ theme }) => theme.spacing.xs};
+  padding: 0 ${({ theme }) => theme.spacing.sm};
+  border-radius: ${({ theme }) => theme.borderRadius.full};
+  font-size: ${({ theme }) => theme.fontSize.xs};
+  background: ${({ $status, theme }) => ($status === 'unmatched' ? theme.colors.errorLight : theme.colors.warningLight)};
+  color: ${({ $status, theme }) => ($status === 'unmatched' ? theme.colors.error : theme.colors.warning)};
+`
+
+const AmountNote = styled.div`
+  font-size: ${({ theme }) => theme.fontSize.xs};
+  color: ${({ theme }) => theme.colors.textMuted};
+`
+
+const WinList = styled.ul`
+  list-style: none;
+  margin: 0;
+  padding: ${({ theme }) => theme.spacing.sm};
+  background: ${({ theme }) => theme.colors.background};
+  border-radius: ${({ theme }) => theme.borderRadius.sm};
+`
+
+const WinItem = styled.li`
+  display: flex;
+  flex-wrap: wrap;
+  gap: ${({ theme }) => theme.spacing.sm};
+  font-size: ${({ theme }) => theme.fontSize.xs};
+  color: ${({ theme }) => theme.colors.textSecondary};
+`
+
+const WinTitle = styled.span`
+  flex: 1;
+  color: ${({ theme }) => theme.colors.text};
+  word-break: break-word;
+`
+
+const AlsoMatched = styled.span`
+  width: 100%;
+  color: ${({ theme }) => theme.colors.textMuted};
+`
@@ -2,3 +2,7 @@ export * from './Button'
 export * from './FileDropZone'
 export * from './StepIndicator'
 export * from './AutocompleteInput'
+export * from './ColumnMappingWizard'
+export * from './CurrencyPanel'
+export * from './RuleEditor'
+export * from './RuleList'
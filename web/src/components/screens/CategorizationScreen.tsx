@@ -1,48 +1,63 @@
 import { useState, useMemo } from 'react'
 import styled from 'styled-components'
-import { Button, AutocompleteInput } from '../common'
+import { Button, AutocompleteInput, RuleEditor, RuleList } from '../common'
 import { useApp } from '../../context'
 import {
   suggestCategories,
   applyCategories,
+  reapplyCategories,
   getUniqueCategories,
   createMapping,
   getCategorizationProgress,
   extractTitlePatterns,
   findMatchingTransactions,
+  excludeInternalTransfers,
+  explainRules,
 } from '../../core/processors'
-import { calculateDataQuality } from '../../core/calculations'
-import { getAllMonthsInRange } from '../../core/calculations/contributions'
-import {
-  calculateMonthlyContributions,
-  calculateCumulativeContributions,
-  calculateContributorSummaries,
-  calculateEqualisation,
-} from '../../core/calculations/contributions'
-import { calculateMonthlySpending, calculateUncategorizedTotals } from '../../core/calculations/spending'
-import { calculateMonthlyCashFlow, calculateTotals } from '../../core/calculations/cashflow'
-import type { ReportData } from '../../core/types/report'
+import { getCurrencySymbol, getMajorGroupError, type CategoryMapping } from '../../core/types'
+import { buildReportInWorker, errorMessage } from '../../workers'
 
 export function CategorizationScreen() {
   const { state, dispatch } = useApp()
-  const { transactions, categoryMappings, selectedContributors, duplicatesRemoved } = state
+  const {
+    transactions,
+    categoryMappings,
+    majorGroups,
+    selectedContributors,
+    duplicatesRemoved,
+    openingBalance,
+    baseCurrency,
+    isLoading,
+    error,
+  } = state
+  const symbol = getCurrencySymbol(baseCurrency)
 
   const [inputValue, setInputValue] = useState('')
   const [skippedTitles, setSkippedTitles] = useState<Set<string>>(new Set())
   const [showPatterns, setShowPatterns] = useState(true)
   const [patternInput, setPatternInput] = useState('')
   const [selectedPattern, setSelectedPattern] = useState<string | null>(null)
+  const [showRuleEditor, setShowRuleEditor] = useState(false)
+  const [showMajorGroups, setShowMajorGroups] = useState(false)
+  const [showRules, setShowRules] = useState(false)
+  const [majorGroupError, setMajorGroupError] = useState<{ category: string; message: string } | null>(null)
+
+  // Transfers between our own accounts are not spending
+  const spendable = useMemo(
+    () => excludeInternalTransfers(transactions),
+    [transactions]
+  )
 
   // Get common patterns for bulk categorization
   const patterns = useMemo(
-    () => extractTitlePatterns(transactions),
-    [transactions]
+    () => extractTitlePatterns(spendable),
+    [spendable]
   )
 
   // Get uncategorized titles sorted by amount, excluding skipped ones
   const suggestions = useMemo(
-    () => suggestCategories(transactions).filter(s => !skippedTitles.has(s.title)),
-    [transactions, skippedTitles]
+    () => suggestCategories(spendable).filter(s => !skippedTitles.has(s.title)),
+    [spendable, skippedTitles]
   )
 
   // Get existing category names for autocomplete
@@ -51,13 +66,25 @@ export function CategorizationScreen() {
     [categoryMappings]
   )
 
+  // What each rule matches - only worked out while the list is open
+  const ruleStats = useMemo(
+    () => (showRules ? explainRules(spendable, categoryMappings) : []),
+    [showRules, spendable, categoryMappings]
+  )
+
+  // Major groups already in use, offered when grouping another category
+  const existingMajorGroups = useMemo(
+    () => [...new Set(Object.values(majorGroups))].sort(),
+    [majorGroups]
+  )
+
   // Current item to categorize (always first non-skipped item)
   const currentItem = suggestions[0]
 
   // Progress stats
   const progress = useMemo(
-    () => getCategorizationProgress(transactions),
-    [transactions]
+    () => getCategorizationProgress(spendable),
+    [spendable]
   )
 
   const handleAssign = (category: string) => {
@@ -97,75 +124,43 @@ export function CategorizationScreen() {
     setSelectedPattern(null)
   }
 
-  const handleFinish = () => {
-    // Generate report data
-    const dateRange = {
-      start: transactions[0]?.date || new Date(),
-      end: transactions[transactions.length - 1]?.date || new Date(),
-    }
+  const handleRuleSave = (mapping: CategoryMapping) => {
+    dispatch({ type: 'CATEGORY_ADDED', mapping })
 
-    const allMonths = getAllMonthsInRange(dateRange.start, dateRange.end)
-
-    // Contributions
-    const monthlyContributions = calculateMonthlyContributions(
-      transactions,
-      selectedContributors,
-      allMonths
-    )
-    const cumulativeContributions = calculateCumulativeContributions(
-      monthlyContributions,
-      selectedContributors
-    )
-    const contributorSummaries = calculateContributorSummaries(
-      transactions,
-      selectedContributors,
-      allMonths.length
-    )
-    const equalisation = calculateEqualisation(contributorSummaries)
-
-    // Spending
-    const monthlySpending = calculateMonthlySpending(transactions, allMonths)
-    const uncategorized = calculateUncategorizedTotals(transactions)
-
-    // Category totals
-    const categoryTotals = new Map<string, number>()
-    for (const item of monthlySpending) {
-      const current = categoryTotals.get(item.category) || 0
-      categoryTotals.set(item.category, current + item.amount)
-    }
+    // Start over so a higher-priority rule takes transactions from earlier ones
+    const updated = reapplyCategories(transactions, [...categoryMappings, mapping])
+    dispatch({ type: 'CATEGORIES_APPLIED', transactions: updated })
+
+    setShowRuleEditor(false)
+  }
 
-    // Cash flow
-    const monthlyCashFlow = calculateMonthlyCashFlow(transactions, allMonths)
-    const totals = calculateTotals(transactions)
-
-    // Data quality
-    const dataQuality = calculateDataQuality(transactions, duplicatesRemoved)
-
-    const reportData: ReportData = {
-      dataQuality,
-      contributions: {
-        contributors: contributorSummaries,
-        monthly: monthlyContributions,
-        cumulative: cumulativeContributions,
-        totalDifference: equalisation.difference,
-        equalisationAmount: equalisation.equalisationAmount,
-      },
-      spending: {
-        byCategory: categoryTotals,
-        monthly: monthlySpending,
-        uncategorized: uncategorized.transactions,
-        uncategorizedTotal: uncategorized.total,
-        uncategorizedCount: uncategorized.count,
-      },
-      cashFlow: {
-        monthly: monthlyCashFlow,
-        totalIncome: totals.totalIncome,
-        totalOutgoings: totals.totalOutgoings,
-        netBalance: totals.netBalance,
-      },
+  const handleMajorGroupChange = (category: string, value: string) => {
+    const majorGroup = value.trim()
+    const groupError = majorGroup ? getMajorGroupError(category, majorGroup, majorGroups) : null
+    setMajorGroupError(groupError ? { category, message: groupError } : null)
+    if (!groupError) {
+      dispatch({ type: 'MAJOR_GROUP_SET', category, majorGroup })
     }
+  }
 
-    dispatch({ type: 'REPORT_GENERATED', data: reportData })
+  const handleFinish = async () => {
+    dispatch({ type: 'SET_LOADING', isLoading: true })
+
+    try {
+      // Built in the statement worker - multi-year histories take a while
+      const reportData = await buildReportInWorker({
+        input: {
+          transactions,
+          contributors: selectedContributors,
+          duplicatesRemoved,
+          openingBalance,
+          majorGroups,
+        },
+      })
+      dispatch({ type: 'REPORT_GENERATED', data: reportData })
+    } catch (error) {
+      dispatch({ type: 'SET_ERROR', error: errorMessage(error, 'Failed to build report') })
+    }
   }
 
   const isDone = suggestions.length === 0
@@ -189,7 +184,7 @@ export function CategorizationScreen() {
             <ProgressFill $percent={progress.percentComplete} />
           </ProgressBar>
           <ProgressDetail>
-            €{progress.categorizedAmount.toLocaleString('en', { minimumFractionDigits: 0 })} of €{(progress.categorizedAmount + progress.uncategorizedAmount).toLocaleString('en', { minimumFractionDigits: 0 })}
+            {symbol}{progress.categorizedAmount.toLocaleString('en', { minimumFractionDigits: 0 })} of {symbol}{(progress.categorizedAmount + progress.uncategorizedAmount).toLocaleString('en', { minimumFractionDigits: 0 })}
           </ProgressDetail>
         </ProgressSection>
         <ProgressSection>
@@ -230,14 +225,14 @@ export function CategorizationScreen() {
                     onClick={() => setSelectedPattern(selectedPattern === p.pattern ? null : p.pattern)}
                   >
                     <PatternWord>{p.pattern}</PatternWord>
-                    <PatternInfo>{p.matchCount} txns • €{p.totalAmount.toLocaleString('en', { minimumFractionDigits: 0 })}</PatternInfo>
+                    <PatternInfo>{p.matchCount} txns • {symbol}{p.totalAmount.toLocaleString('en', { minimumFractionDigits: 0 })}</PatternInfo>
                   </PatternChip>
                 ))}
               </PatternList>
               {selectedPattern && (
                 <PatternAssign>
                   <PatternMatch>
-                    Matches {findMatchingTransactions(transactions, selectedPattern).length} transactions
+                    Matches {findMatchingTransactions(spendable, selectedPattern).length} transactions
                   </PatternMatch>
                   <PatternInputRow>
                     <AutocompleteInput
@@ -263,12 +258,81 @@ export function CategorizationScreen() {
         </PatternSection>
       )}
 
+      {/* Rules combining title, name, message, amount, direction and dates */}
+      <PatternSection>
+        <PatternHeader onClick={() => setShowRuleEditor(!showRuleEditor)}>
+          <PatternTitle>Custom Rule</PatternTitle>
+          <PatternToggle>{showRuleEditor ? '▼' : '▶'}</PatternToggle>
+        </PatternHeader>
+        {showRuleEditor && (
+          <RuleEditor
+            transactions={spendable}
+            categories={existingCategories}
+            onSave={handleRuleSave}
+            onCancel={() => setShowRuleEditor(false)}
+          />
+        )}
+      </PatternSection>
+
+      {/* Major groups the categories roll up into in the report */}
+      {existingCategories.length > 0 && (
+        <PatternSection>
+          <PatternHeader onClick={() => setShowMajorGroups(!showMajorGroups)}>
+            <PatternTitle>Major Groups</PatternTitle>
+            <PatternToggle>{showMajorGroups ? '▼' : '▶'}</PatternToggle>
+          </PatternHeader>
+          {showMajorGroups && (
+            <PatternContent>
+              <PatternHint>
+                Put categories in a major group, e.g. Lidl and Alepa in Groceries, to total them together
+              </PatternHint>
+              <datalist id="major-groups">
+                {existingMajorGroups.map(group => (
+                  <option key={group} value={group} />
+                ))}
+              </datalist>
+              {existingCategories.map(category => (
+                <MajorGroupRow key={category}>
+                  <MajorGroupLabel htmlFor={`major-group-${category}`}>{category}</MajorGroupLabel>
+                  <MajorGroupInput
+                    key={majorGroups[category] ?? ''}
+                    id={`major-group-${category}`}
+                    list="major-groups"
+                    defaultValue={majorGroups[category] ?? ''}
+                    onBlur={e => handleMajorGroupChange(category, e.target.value)}
+                    placeholder="(none)"
+                  />
+                  {majorGroupError?.category === category && (
+                    <MajorGroupError role="alert">{majorGroupError.message}</MajorGroupError>
+                  )}
+                </MajorGroupRow>
+              ))}
+            </PatternContent>
+          )}
+        </PatternSection>
+      )}
+
+      {/* Every rule with what it matches, flagging rules that never win */}
+      {categoryMappings.length > 0 && (
+        <PatternSection>
+          <PatternHeader onClick={() => setShowRules(!showRules)}>
+            <PatternTitle>Rules ({categoryMappings.length})</PatternTitle>
+            <PatternToggle>{showRules ? '▼' : '▶'}</PatternToggle>
+          </PatternHeader>
+          {showRules && (
+            <PatternContent>
+              <RuleList rules={ruleStats} currency={baseCurrency} />
+            </PatternContent>
+          )}
+        </PatternSection>
+      )}
+
       {!isDone && currentItem ? (
         <CategoryCard>
           <ItemTitle>{currentItem.title}</ItemTitle>
           <ItemStats>
             {currentItem.transactionCount} transactions •
-            €{currentItem.totalAmount.toLocaleString('en', { minimumFractionDigits: 2 })} total
+            {symbol}{currentItem.totalAmount.toLocaleString('en', { minimumFractionDigits: 2 })} total
           </ItemStats>
 
           <InputRow>
@@ -312,9 +376,11 @@ export function CategorizationScreen() {
         </DoneCard>
       )}
 
+      {error && <ErrorText role="alert">{error}</ErrorText>}
+
       <Actions>
-        <Button $size="lg" onClick={handleFinish}>
-          {isDone ? 'View Report' : 'Skip to Report'}
+        <Button $size="lg" onClick={handleFinish} disabled={isLoading}>
+          {isLoading ? 'Building Report...' : isDone ? 'View Report' : 'Skip to Report'}
         </Button>
       </Actions>
 
@@ -494,6 +560,37 @@ const PatternButtons = styled.div`
   justify-content: flex-end;
 `
 
+const MajorGroupRow = styled.div`
+  display: grid;
+  grid-template-columns: 1fr 1fr;
+  align-items: center;
+  gap: ${({ theme }) => theme.spacing.xs} ${({ theme }) => theme.spacing.sm};
+  margin-bottom: ${({ theme }) => theme.spacing.xs};
+`
+
+const MajorGroupLabel = styled.label`
+  font-size: ${({ theme }) => theme.fontSize.sm};
+  word-break: break-word;
+`
+
+const MajorGroupInput = styled.input`
+  padding: ${({ theme }) => theme.spacing.xs} ${({ theme }) => theme.spacing.sm};
+  border: 1px solid ${({ theme }) => theme.colors.border};
+  border-radius: ${({ theme }) => theme.borderRadius.sm};
+  font-size: ${({ theme }) => theme.fontSize.sm};
+
+  &:focus {
+    outline: none;
+    border-color: ${({ theme }) => theme.colors.primary};
+  }
+`
+
+const MajorGroupError = styled.div`
+  grid-column: 1 / -1;
+  font-size: ${({ theme }) => theme.fontSize.xs};
+  color: ${({ theme }) => theme.colors.error};
+`
+
 const CategoryCard = styled.div`
   background: ${({ theme }) => theme.colors.surface};
   border: 1px solid ${({ theme }) => theme.colors.border};
@@ -570,6 +667,12 @@ const Actions = styled.div`
   justify-content: center;
 `
 
+const ErrorText = styled.p`
+  text-align: center;
+  color: ${({ theme }) => theme.colors.error};
+  margin-bottom: ${({ theme }) => theme.spacing.md};
+`
+
 const CategoriesUsed = styled.div`
   margin-top: ${({ theme }) => theme.spacing.xxl};
   padding-top: ${({ theme }) => theme.spacing.lg};
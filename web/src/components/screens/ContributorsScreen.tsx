@@ -2,18 +2,56 @@ import { useState, useMemo } from 'react'
 import styled from 'styled-components'
 import { Button } from '../common'
 import { useApp } from '../../context'
-import { findTopContributors, tagContributions } from '../../core/processors'
+import {
+  findTopContributors,
+  tagContributions,
+  findCounterpartyAccounts,
+  markInternalTransfers,
+  excludeInternalTransfers,
+  normalizeAccount,
+  reapplyCategories,
+} from '../../core/processors'
+import { getCurrencySymbol } from '../../core/types'
+
+/**
+ * Add or remove a value from a set, returning a new set.
+ */
+function toggleInSet(set: Set<string>, value: string): Set<string> {
+  const next = new Set(set)
+  if (next.has(value)) {
+    next.delete(value)
+  } else {
+    next.add(value)
+  }
+  return next
+}
 
 export function ContributorsScreen() {
   const { state, dispatch } = useApp()
-  const { transactions } = state
+  const { transactions, ownAccounts, baseCurrency, categoryMappings } = state
+  const symbol = getCurrencySymbol(baseCurrency)
 
-  // Find all contributors from income transactions
-  const allContributors = useMemo(
-    () => findTopContributors(transactions, 10),
+  // Accounts money moved to or from - the user marks which are their own
+  const counterpartyAccounts = useMemo(
+    () => findCounterpartyAccounts(transactions),
     [transactions]
   )
 
+  const [ownSelected, setOwnSelected] = useState<Set<string>>(
+    () => new Set(ownAccounts.map(normalizeAccount))
+  )
+
+  const markedTransactions = useMemo(
+    () => markInternalTransfers(transactions, Array.from(ownSelected)),
+    [transactions, ownSelected]
+  )
+
+  // Find all contributors from income transactions, leaving out internal transfers
+  const allContributors = useMemo(
+    () => findTopContributors(excludeInternalTransfers(markedTransactions), 10),
+    [markedTransactions]
+  )
+
   // Default to top 2 selected
   const [selected, setSelected] = useState<Set<string>>(() => {
     const top2 = allContributors.slice(0, 2).map(c => c.name)
@@ -21,25 +59,23 @@ export function ContributorsScreen() {
   })
 
   const handleToggle = (name: string) => {
-    setSelected(prev => {
-      const next = new Set(prev)
-      if (next.has(name)) {
-        next.delete(name)
-      } else {
-        next.add(name)
-      }
-      return next
-    })
+    setSelected(prev => toggleInSet(prev, name))
+  }
+
+  const handleAccountToggle = (account: string) => {
+    setOwnSelected(prev => toggleInSet(prev, account))
   }
 
   const handleContinue = () => {
     const selectedNames = Array.from(selected)
 
-    // Update selected contributors in state
+    // Update selected contributors and own accounts in state
     dispatch({ type: 'CONTRIBUTORS_SELECTED', names: selectedNames })
+    dispatch({ type: 'OWN_ACCOUNTS_SET', accounts: Array.from(ownSelected) })
 
-    // Tag transactions with contributor info
-    const tagged = tagContributions(transactions, selectedNames)
+    // Tag transactions with contributor and internal transfer info, and
+    // categorize them with the rules loaded from a groupings or R helper file
+    const tagged = reapplyCategories(tagContributions(markedTransactions, selectedNames), categoryMappings)
     dispatch({ type: 'TRANSACTIONS_TAGGED', transactions: tagged })
   }
 
@@ -87,7 +123,7 @@ export function ContributorsScreen() {
               </ContributorStats>
             </ContributorInfo>
             <ContributorTotal>
-              €{contributor.total.toLocaleString('en', { minimumFractionDigits: 2 })}
+              {symbol}{contributor.total.toLocaleString('en', { minimumFractionDigits: 2 })}
             </ContributorTotal>
           </ContributorCard>
         ))}
@@ -95,22 +131,63 @@ export function ContributorsScreen() {
 
       {allContributors.length === 0 && (
         <EmptyState>
-          No income transactions found. Make sure your CSV contains positive amounts.
+          No income transactions found. Make sure your statements contain positive amounts.
         </EmptyState>
       )}
 
+      {counterpartyAccounts.length > 0 && (
+        <>
+          <SectionHeader>
+            <SectionTitle>Our Own Accounts</SectionTitle>
+            <Description>
+              Tick any other accounts of this household, such as savings. Transfers to and
+              from them are shown separately and not counted as income or spending.
+            </Description>
+          </SectionHeader>
+
+          <ContributorList role="group" aria-label="Own accounts">
+            {counterpartyAccounts.map(account => (
+              <ContributorCard
+                key={account.account}
+                $selected={ownSelected.has(account.account)}
+                onClick={() => handleAccountToggle(account.account)}
+                role="checkbox"
+                aria-checked={ownSelected.has(account.account)}
+                tabIndex={0}
+                onKeyDown={e => {
+                  if (e.key === 'Enter' || e.key === ' ') {
+                    e.preventDefault()
+                    handleAccountToggle(account.account)
+                  }
+                }}
+              >
+                <Checkbox $checked={ownSelected.has(account.account)}>
+                  {ownSelected.has(account.account) && '✓'}
+                </Checkbox>
+                <ContributorInfo>
+                  <ContributorName>{account.name || account.account}</ContributorName>
+                  <ContributorStats>
+                    {account.account} • {account.transactionCount} transactions
+                  </ContributorStats>
+                </ContributorInfo>
+              </ContributorCard>
+            ))}
+          </ContributorList>
+        </>
+      )}
+
       <Summary>
         <SummaryRow>
           <SummaryLabel>Selected contributors:</SummaryLabel>
           <SummaryValue>
-            €{selectedTotal.toLocaleString('en', { minimumFractionDigits: 2 })}
+            {symbol}{selectedTotal.toLocaleString('en', { minimumFractionDigits: 2 })}
           </SummaryValue>
         </SummaryRow>
         {otherTotal > 0 && (
           <SummaryRow $muted>
             <SummaryLabel>Other income:</SummaryLabel>
             <SummaryValue>
-              €{otherTotal.toLocaleString('en', { minimumFractionDigits: 2 })}
+              {symbol}{otherTotal.toLocaleString('en', { minimumFractionDigits: 2 })}
             </SummaryValue>
           </SummaryRow>
         )}
@@ -151,6 +228,15 @@ const Description = styled.p`
   color: ${({ theme }) => theme.colors.textSecondary};
 `
 
+const SectionHeader = styled.div`
+  margin-bottom: ${({ theme }) => theme.spacing.md};
+`
+
+const SectionTitle = styled.h2`
+  font-size: ${({ theme }) => theme.fontSize.lg};
+  margin-bottom: ${({ theme }) => theme.spacing.xs};
+`
+
 const ContributorList = styled.div`
   display: flex;
   flex-direction: column;
@@ -1,14 +1,78 @@
+import { useMemo, useState } from 'react'
 import styled from 'styled-components'
 import { Button } from '../common'
+import { CoverageTimeline } from '../charts'
 import { useApp } from '../../context'
-import { getTransactionsToRemove, removeDuplicates } from '../../core/processors'
+import {
+  createDuplicateDecision,
+  getCopiesToRemove,
+  getDuplicateGroupKey,
+  getFileHashes,
+  getTransactionsToRemove,
+  isDecisionMatched,
+  removeDuplicates,
+} from '../../core/processors'
+import { calculateCoverage } from '../../core/calculations'
+import { getCurrencySymbol, type DuplicateDecision, type DuplicateGroup } from '../../core/types'
+import type { CoverageOverlap } from '../../core/types/report'
+import { errorMessage, findDuplicatesInWorker } from '../../workers'
+
+/**
+ * Date tolerances offered for likely duplicates, in days.
+ */
+const TOLERANCE_OPTIONS = [0, 1, 2, 3]
 
 export function DedupScreen() {
   const { state, dispatch } = useApp()
-  const { transactions, duplicateGroups } = state
+  const {
+    transactions,
+    duplicateGroups,
+    fuzzyDuplicateGroups,
+    fuzzyMatch,
+    duplicateDecisions,
+    importedFiles,
+    baseCurrency,
+    isLoading,
+    error,
+  } = state
+
+  // Decisions by group key - loaded from the groupings file, then the user's
+  const [decisions, setDecisions] = useState(
+    () => new Map(duplicateDecisions.map(d => [d.groupKey, d]))
+  )
 
-  const toRemove = getTransactionsToRemove(duplicateGroups)
+  // Overlap picked on the coverage timeline; only its duplicate groups are listed
+  const [selectedOverlap, setSelectedOverlap] = useState<CoverageOverlap | null>(null)
+
+  // Saved decisions follow a statement by its content when it's renamed
+  const fileHashes = useMemo(() => getFileHashes(importedFiles), [importedFiles])
+
+  const allGroups = [...duplicateGroups, ...fuzzyDuplicateGroups]
+  const coverage = useMemo(
+    () => calculateCoverage(transactions, [...duplicateGroups, ...fuzzyDuplicateGroups]),
+    [transactions, duplicateGroups, fuzzyDuplicateGroups]
+  )
+  const inSelectedOverlap = (group: DuplicateGroup) => !selectedOverlap ||
+    selectedOverlap.files.every(file => group.transactions.some(t => t.sourceFile === file))
+  const shownGroups = duplicateGroups.filter(inSelectedOverlap)
+  const shownFuzzyGroups = fuzzyDuplicateGroups.filter(inSelectedOverlap)
+  const groupDecisions = allGroups
+    .map(g => decisions.get(getDuplicateGroupKey(g)))
+    .filter((d): d is DuplicateDecision => d !== undefined)
+  // Likely duplicates are only removed once the user has decided on them
+  const decidedFuzzyGroups = fuzzyDuplicateGroups.filter(g => decisions.has(getDuplicateGroupKey(g)))
+  const toRemove = getTransactionsToRemove([...duplicateGroups, ...decidedFuzzyGroups], groupDecisions, fileHashes)
   const totalDuplicates = duplicateGroups.reduce((sum, g) => sum + g.transactions.length, 0)
+  const savedGroups = allGroups.filter(g =>
+    duplicateDecisions.some(d => d.groupKey === getDuplicateGroupKey(g))
+  )
+  // Saved decisions naming none of the uploaded files fall back to keeping the first copy
+  const isUnmatched = (group: DuplicateGroup) => {
+    const decision = decisions.get(getDuplicateGroupKey(group))
+    return decision !== undefined && !isDecisionMatched(group, decision, fileHashes)
+  }
+  const unmatchedCount = savedGroups.filter(isUnmatched).length
+  const savedCount = savedGroups.length - unmatchedCount
 
   const handleRemoveDuplicates = () => {
     const deduplicated = removeDuplicates(transactions, toRemove)
@@ -16,6 +80,7 @@ export function DedupScreen() {
       type: 'DUPLICATES_RESOLVED',
       transactions: deduplicated,
       removedCount: toRemove.length,
+      decisions: groupDecisions,
     })
   }
 
@@ -24,70 +89,227 @@ export function DedupScreen() {
       type: 'DUPLICATES_RESOLVED',
       transactions,
       removedCount: 0,
+      decisions: [],
+    })
+  }
+
+  const setDecision = (groupKey: string, decision: DuplicateDecision | null) => {
+    setDecisions(prev => {
+      const next = new Map(prev)
+      if (decision) {
+        next.set(groupKey, decision)
+      } else {
+        next.delete(groupKey)
+      }
+      return next
     })
   }
 
+  const getKeptFiles = (group: DuplicateGroup, isLikely: boolean): Set<string> => {
+    const decision = decisions.get(getDuplicateGroupKey(group))
+    const removed = isLikely && !decision ? [] : getCopiesToRemove(group, decision, fileHashes)
+    return new Set(group.transactions.filter(t => !removed.includes(t)).map(t => t.sourceFile))
+  }
+
+  const handleToggleCopy = (group: DuplicateGroup, isLikely: boolean, sourceFile: string) => {
+    const kept = getKeptFiles(group, isLikely)
+    if (kept.has(sourceFile)) {
+      if (kept.size === 1) return // Always keep at least one copy
+      kept.delete(sourceFile)
+    } else {
+      kept.add(sourceFile)
+    }
+    const groupKey = getDuplicateGroupKey(group)
+    setDecision(groupKey, createDuplicateDecision(groupKey, [...kept], fileHashes))
+  }
+
+  const handleToggleNotDuplicate = (group: DuplicateGroup) => {
+    const groupKey = getDuplicateGroupKey(group)
+    if (decisions.get(groupKey)?.notDuplicate) {
+      setDecision(groupKey, null)
+    } else {
+      setDecision(groupKey, createDuplicateDecision(
+        groupKey,
+        group.transactions.map(t => t.sourceFile),
+        fileHashes,
+        true
+      ))
+    }
+  }
+
+  const handleToleranceChange = async (dateToleranceDays: number) => {
+    const options = { ...fuzzyMatch, dateToleranceDays }
+    dispatch({ type: 'SET_LOADING', isLoading: true })
+
+    try {
+      const { fuzzyGroups } = await findDuplicatesInWorker({ transactions, fuzzy: options })
+      dispatch({ type: 'FUZZY_DUPLICATES_FOUND', groups: fuzzyGroups, options })
+    } catch (error) {
+      dispatch({ type: 'SET_ERROR', error: errorMessage(error, 'Failed to find duplicates') })
+    }
+  }
+
   const formatCurrency = (amount: number) => {
-    return `€${Math.abs(amount).toLocaleString('en', { minimumFractionDigits: 2 })}`
+    return `${getCurrencySymbol(baseCurrency)}${Math.abs(amount).toLocaleString('en', { minimumFractionDigits: 2 })}`
   }
 
   const formatDate = (date: Date) => {
     return new Date(date).toLocaleDateString('en-IE')
   }
 
+  const renderGroup = (group: DuplicateGroup, isLikely: boolean) => {
+    const groupKey = getDuplicateGroupKey(group)
+    const notDuplicate = decisions.get(groupKey)?.notDuplicate ?? false
+    const kept = getKeptFiles(group, isLikely)
+
+    return (
+      <DuplicateCard key={groupKey} $muted={notDuplicate}>
+        <DuplicateHeader>
+          <DuplicateDate>{formatDate(group.date)}</DuplicateDate>
+          {group.confidence !== undefined && (
+            <Confidence $confidence={group.confidence}>
+              {Math.round(group.confidence * 100)}% match
+            </Confidence>
+          )}
+          <DuplicateAmount $isIncome={group.amount > 0}>
+            {group.amount > 0 ? '+' : '-'}{formatCurrency(group.amount)}
+          </DuplicateAmount>
+        </DuplicateHeader>
+        <DuplicateTitle>{group.title}</DuplicateTitle>
+        {isUnmatched(group) && (
+          <UnmatchedNote>
+            Your saved choice kept copies from files that aren't uploaded now - the first copy is kept.
+          </UnmatchedNote>
+        )}
+        {group.transactions.map(t => (
+          <CopyOption key={`${t.sourceFile}-${t.id}`} $removed={!kept.has(t.sourceFile)}>
+            <input
+              type="checkbox"
+              checked={kept.has(t.sourceFile)}
+              disabled={notDuplicate}
+              onChange={() => handleToggleCopy(group, isLikely, t.sourceFile)}
+            />
+            Keep
+            <DuplicateFiles>{t.sourceFile}</DuplicateFiles>
+            {isLikely && <DuplicateDate>{formatDate(t.date)} - {t.title}</DuplicateDate>}
+          </CopyOption>
+        ))}
+        <NotDuplicateOption>
+          <input
+            type="checkbox"
+            checked={notDuplicate}
+            onChange={() => handleToggleNotDuplicate(group)}
+          />
+          Not a duplicate - these are separate transactions
+        </NotDuplicateOption>
+      </DuplicateCard>
+    )
+  }
+
   return (
     <Container>
       <Header>
         <Title>Review Duplicates</Title>
         <Description>
           We found {duplicateGroups.length} duplicate group{duplicateGroups.length !== 1 ? 's' : ''} ({totalDuplicates} transactions total).
-          These appear in multiple uploaded files.
+          These appear in multiple uploaded files. Choose which copy to keep in each group.
         </Description>
+        {savedCount > 0 && (
+          <Description>
+            {savedCount} group{savedCount !== 1 ? 's are' : ' is'} resolved as in your groupings file.
+          </Description>
+        )}
+        {unmatchedCount > 0 && (
+          <UnmatchedNote role="status">
+            {unmatchedCount} saved decision{unmatchedCount !== 1 ? 's name' : ' names'} files
+            that aren't uploaded now. Check {unmatchedCount !== 1 ? 'those groups' : 'that group'} below.
+          </UnmatchedNote>
+        )}
       </Header>
 
+      {coverage && coverage.files.length > 1 && (
+        <CoverageTimeline
+          coverage={coverage}
+          selectedOverlap={selectedOverlap}
+          onOverlapSelect={setSelectedOverlap}
+        />
+      )}
+
+      {selectedOverlap && (
+        <FilterNote>
+          Showing duplicates in both {selectedOverlap.files[0]} and {selectedOverlap.files[1]}.{' '}
+          <Button $variant="outline" $size="sm" onClick={() => setSelectedOverlap(null)}>
+            Show all
+          </Button>
+        </FilterNote>
+      )}
+
       <Summary>
         <SummaryItem>
           <SummaryLabel>Duplicate groups</SummaryLabel>
           <SummaryValue>{duplicateGroups.length}</SummaryValue>
         </SummaryItem>
+        <SummaryItem>
+          <SummaryLabel>Likely duplicates</SummaryLabel>
+          <SummaryValue>{fuzzyDuplicateGroups.length}</SummaryValue>
+        </SummaryItem>
         <SummaryItem>
           <SummaryLabel>Will be removed</SummaryLabel>
           <SummaryValue $highlight>{toRemove.length}</SummaryValue>
         </SummaryItem>
       </Summary>
 
-      <DuplicateList>
-        {duplicateGroups.slice(0, 10).map((group, idx) => (
-          <DuplicateCard key={idx}>
-            <DuplicateHeader>
-              <DuplicateDate>{formatDate(group.date)}</DuplicateDate>
-              <DuplicateAmount $isIncome={group.amount > 0}>
-                {group.amount > 0 ? '+' : '-'}{formatCurrency(group.amount)}
-              </DuplicateAmount>
-            </DuplicateHeader>
-            <DuplicateTitle>{group.title}</DuplicateTitle>
-            <DuplicateFiles>
-              Found in {group.transactions.length} files:{' '}
-              {[...new Set(group.transactions.map(t => t.sourceFile))].join(', ')}
-            </DuplicateFiles>
-          </DuplicateCard>
-        ))}
-        {duplicateGroups.length > 10 && (
-          <MoreItems>...and {duplicateGroups.length - 10} more groups</MoreItems>
+      {shownGroups.length > 0 && (
+        <DuplicateList>
+          {shownGroups.map(group => renderGroup(group, false))}
+        </DuplicateList>
+      )}
+
+      <FuzzySection>
+        <SectionHeader>
+          <SectionTitle>Likely Duplicates</SectionTitle>
+          <ToleranceLabel>
+            Booking dates up to
+            <select
+              value={fuzzyMatch.dateToleranceDays}
+              disabled={isLoading}
+              onChange={e => handleToleranceChange(Number(e.target.value))}
+            >
+              {TOLERANCE_OPTIONS.map(days => (
+                <option key={days} value={days}>{days}</option>
+              ))}
+            </select>
+            day(s) apart
+          </ToleranceLabel>
+        </SectionHeader>
+        <SectionDescription>
+          Same amount and title (ignoring case and spacing) in different files, but
+          not an exact match. All copies are kept until you untick the ones to remove.
+        </SectionDescription>
+
+        {shownFuzzyGroups.length === 0 ? (
+          <MoreItems>No likely duplicates found.</MoreItems>
+        ) : (
+          <DuplicateList>
+            {shownFuzzyGroups.map(group => renderGroup(group, true))}
+          </DuplicateList>
         )}
-      </DuplicateList>
+      </FuzzySection>
+
+      {error && <ErrorText role="alert">{error}</ErrorText>}
 
       <Actions>
-        <Button $size="lg" onClick={handleRemoveDuplicates}>
+        <Button $size="lg" onClick={handleRemoveDuplicates} disabled={isLoading}>
           Remove {toRemove.length} Duplicate{toRemove.length !== 1 ? 's' : ''}
         </Button>
-        <Button $variant="secondary" onClick={handleKeepAll}>
+        <Button $variant="secondary" onClick={handleKeepAll} disabled={isLoading}>
           Keep All
         </Button>
       </Actions>
 
       <HelpText>
-        Removing duplicates keeps one copy of each transaction and removes the rest.
+        Your choices are saved in the groupings file, so the same duplicates are
+        resolved the same way next time.
       </HelpText>
     </Container>
   )
@@ -112,6 +334,13 @@ const Description = styled.p`
   color: ${({ theme }) => theme.colors.textSecondary};
 `
 
+const FilterNote = styled.p`
+  text-align: center;
+  font-size: ${({ theme }) => theme.fontSize.sm};
+  color: ${({ theme }) => theme.colors.textSecondary};
+  margin-bottom: ${({ theme }) => theme.spacing.md};
+`
+
 const Summary = styled.div`
   display: flex;
   justify-content: center;
@@ -144,7 +373,8 @@ const DuplicateList = styled.div`
   overflow-y: auto;
 `
 
-const DuplicateCard = styled.div`
+const DuplicateCard = styled.div<{ $muted?: boolean }>`
+  opacity: ${({ $muted }) => $muted ? 0.7 : 1};
   background: ${({ theme }) => theme.colors.surface};
   border: 1px solid ${({ theme }) => theme.colors.border};
   border-radius: ${({ theme }) => theme.borderRadius.md};
@@ -174,11 +404,80 @@ const DuplicateTitle = styled.div`
   word-break: break-word;
 `
 
+const UnmatchedNote = styled.p`
+  font-size: ${({ theme }) => theme.fontSize.sm};
+  color: ${({ theme }) => theme.colors.warning};
+  margin-bottom: ${({ theme }) => theme.spacing.xs};
+`
+
 const DuplicateFiles = styled.div`
   font-size: ${({ theme }) => theme.fontSize.xs};
   color: ${({ theme }) => theme.colors.textMuted};
 `
 
+const FuzzySection = styled.section`
+  margin-bottom: ${({ theme }) => theme.spacing.xl};
+`
+
+const SectionHeader = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  flex-wrap: wrap;
+  gap: ${({ theme }) => theme.spacing.sm};
+  margin-bottom: ${({ theme }) => theme.spacing.xs};
+`
+
+const SectionTitle = styled.h2`
+  font-size: ${({ theme }) => theme.fontSize.lg};
+`
+
+const SectionDescription = styled.p`
+  font-size: ${({ theme }) => theme.fontSize.sm};
+  color: ${({ theme }) => theme.colors.textSecondary};
+  margin-bottom: ${({ theme }) => theme.spacing.md};
+`
+
+const ToleranceLabel = styled.label`
+  display: flex;
+  align-items: center;
+  gap: ${({ theme }) => theme.spacing.xs};
+  font-size: ${({ theme }) => theme.fontSize.sm};
+  color: ${({ theme }) => theme.colors.textSecondary};
+`
+
+const CopyOption = styled.label<{ $removed: boolean }>`
+  display: flex;
+  align-items: baseline;
+  flex-wrap: wrap;
+  gap: ${({ theme }) => theme.spacing.sm};
+  padding-top: ${({ theme }) => theme.spacing.xs};
+  font-size: ${({ theme }) => theme.fontSize.sm};
+  text-decoration: ${({ $removed }) => $removed ? 'line-through' : 'none'};
+  cursor: pointer;
+`
+
+const NotDuplicateOption = styled.label`
+  display: flex;
+  align-items: center;
+  gap: ${({ theme }) => theme.spacing.sm};
+  margin-top: ${({ theme }) => theme.spacing.sm};
+  font-size: ${({ theme }) => theme.fontSize.sm};
+  color: ${({ theme }) => theme.colors.textSecondary};
+  cursor: pointer;
+`
+
+const Confidence = styled.span<{ $confidence: number }>`
+  font-size: ${({ theme }) => theme.fontSize.xs};
+  color: ${({ $confidence, theme }) => $confidence >= 0.8 ? theme.colors.success : theme.colors.warning};
+`
+
+const ErrorText = styled.p`
+  text-align: center;
+  color: ${({ theme }) => theme.colors.error};
+  margin-bottom: ${({ theme }) => theme.spacing.md};
+`
+
 const MoreItems = styled.div`
   text-align: center;
   padding: ${({ theme }) => theme.spacing.md};
@@ -1,7 +1,13 @@
+import { useMemo } from 'react'
 import styled from 'styled-components'
-import { Button, FileDropZone } from '../common'
+import { Button, ColumnMappingWizard, CurrencyPanel, FileDropZone } from '../common'
+import { CoverageTimeline } from '../charts'
 import { useFileUpload } from '../../hooks'
-import { useAppState } from '../../context'
+import { useApp } from '../../context'
+import { ENCODING_LABELS, getParsers, type ImportIssueKind } from '../../core/parsers'
+import { findMissingRates, getCurrencies } from '../../core/processors'
+import { calculateCoverage } from '../../core/calculations'
+import type { ExchangeRate } from '../../core/types'
 
 // Import sample data - Vite handles these as raw strings
 import sample202405 from '../../assets/sample-data/202405.csv?raw'
@@ -11,6 +17,13 @@ import sample202408 from '../../assets/sample-data/202408.csv?raw'
 import sample202409 from '../../assets/sample-data/202409.csv?raw'
 import sample202410 from '../../assets/sample-data/202410.csv?raw'
 
+const ISSUE_LABELS: Record<ImportIssueKind, string> = {
+  date: 'Bad date',
+  amount: 'Bad amount',
+  columns: 'Wrong column count',
+  other: 'Unreadable',
+}
+
 const sampleData = [
   { content: sample202405, name: '202405.csv' },
   { content: sample202406, name: '202406.csv' },
@@ -21,11 +34,39 @@ const sampleData = [
 ]
 
 export function LandingScreen() {
-  const { isLoading, error } = useAppState()
-  const { processFiles } = useFileUpload()
+  const { state, dispatch } = useApp()
+  const {
+    isLoading,
+    error,
+    importedFiles,
+    lenientParsing,
+    unmappedFiles,
+    rawTransactions,
+    reuploadedFiles,
+    legacyRuleImport,
+    baseCurrency,
+    exchangeRates,
+    fuzzyMatch,
+  } = state
+  const {
+    fileProgress,
+    processFiles,
+    cancelProcessing,
+    applyCsvProfile,
+    loadExchangeRates,
+    continueToDedup,
+  } = useFileUpload()
+  const supportedFormats = getParsers().map(p => p.label).join(', ')
+
+  const hasForeignCurrency = getCurrencies(rawTransactions).some(c => c.currency !== baseCurrency)
+  const missingRates = findMissingRates(rawTransactions, exchangeRates, baseCurrency)
+  const skippedCount = importedFiles.reduce((sum, f) => sum + f.skipped.length, 0)
+  const coverage = useMemo(() => calculateCoverage(rawTransactions), [rawTransactions])
+  const legacyTitleRules = legacyRuleImport?.categories.filter(c => c.matchType === 'exact').length ?? 0
+  const legacyKeywordRules = (legacyRuleImport?.categories.length ?? 0) - legacyTitleRules
 
   const handleFilesSelected = (files: File[]) => {
-    processFiles(files)
+    processFiles(files, lenientParsing)
   }
 
   const handleUseSampleData = () => {
@@ -33,7 +74,19 @@ export function LandingScreen() {
     const sampleFiles = sampleData.map(
       ({ content, name }) => new File([content], name, { type: 'text/csv' })
     )
-    processFiles(sampleFiles)
+    processFiles(sampleFiles, lenientParsing)
+  }
+
+  const handleSkipUnmapped = (filename: string) => {
+    dispatch({ type: 'UNMAPPED_FILE_SKIPPED', filename })
+  }
+
+  const handleRateAdded = (rate: ExchangeRate) => {
+    dispatch({ type: 'EXCHANGE_RATES_LOADED', rates: [rate] })
+  }
+
+  const handleContinue = () => {
+    continueToDedup(rawTransactions, exchangeRates, baseCurrency, fuzzyMatch)
   }
 
   return (
@@ -56,15 +109,148 @@ export function LandingScreen() {
       <UploadSection>
         <SectionTitle>Upload Bank Statements</SectionTitle>
         <SectionDescription>
-          Upload your Nordea CSV exports to start analysing.
-          You can also include a previous groupings file to reuse your categories.
+          Upload your bank statement exports to start analysing ({supportedFormats}).
+          You can also include a previous groupings file to reuse your categories, or the
+          minor_groups.csv, major_groups.csv and fallback_patterns.csv helpers from the R project.
         </SectionDescription>
         <FileDropZone
           onFilesSelected={handleFilesSelected}
           disabled={isLoading}
+          progress={fileProgress}
+          onCancel={isLoading ? cancelProcessing : undefined}
         />
+        <LenientOption>
+          <input
+            type="checkbox"
+            checked={lenientParsing}
+            onChange={e => dispatch({ type: 'LENIENT_PARSING_SET', lenient: e.target.checked })}
+          />
+          Skip rows that can't be read instead of rejecting the whole file
+        </LenientOption>
       </UploadSection>
 
+      {unmappedFiles.length > 0 && (
+        <ColumnMappingWizard
+          key={unmappedFiles[0].filename}
+          sample={unmappedFiles[0]}
+          onConfirm={profile => applyCsvProfile(profile, unmappedFiles, lenientParsing)}
+          onSkip={() => handleSkipUnmapped(unmappedFiles[0].filename)}
+        />
+      )}
+
+      {importedFiles.length > 0 && (
+        <LoadedSection>
+          <SectionTitle>Loaded Statements</SectionTitle>
+          <SectionDescription>
+            {rawTransactions.length} transactions from {importedFiles.length} file(s)
+            {skippedCount > 0 && `, ${skippedCount} row(s) skipped`}
+          </SectionDescription>
+          {reuploadedFiles.length > 0 && (
+            <ReuploadNotice role="status">
+              <strong>
+                {reuploadedFiles.length} file(s) left out - their transactions were already uploaded:
+              </strong>
+              <WarningList>
+                {reuploadedFiles.map(file => (
+                  <WarningItem key={file.filename}>
+                    {file.filename}{' '}
+                    {file.kind === 'identical'
+                      ? `is the same file as ${file.duplicateOf}`
+                      : `has all of its ${file.transactionCount} transactions in ${file.duplicateOf}`}
+                  </WarningItem>
+                ))}
+              </WarningList>
+            </ReuploadNotice>
+          )}
+          {legacyRuleImport && (
+            <RuleImportNotice role="status">
+              <strong>
+                Imported {legacyTitleRules} title rule(s), {legacyKeywordRules} keyword rule(s) and{' '}
+                {Object.keys(legacyRuleImport.majorGroups).length} major group(s) from the R helper files
+              </strong>
+              {legacyRuleImport.unmapped.length > 0 && (
+                <SkippedList>
+                  {legacyRuleImport.unmapped.map(row => (
+                    <SkippedItem key={`${row.filename}:${row.row}`}>
+                      <SkippedReason>
+                        {row.filename} row {row.row}: {row.reason}
+                      </SkippedReason>
+                      <SkippedRaw>{row.raw}</SkippedRaw>
+                    </SkippedItem>
+                  ))}
+                </SkippedList>
+              )}
+              {legacyRuleImport.warnings.length > 0 && (
+                <WarningList>
+                  {legacyRuleImport.warnings.map(warning => (
+                    <WarningItem key={warning}>{warning}</WarningItem>
+                  ))}
+                </WarningList>
+              )}
+            </RuleImportNotice>
+          )}
+          <LoadedList>
+            {importedFiles.map(file => (
+              <LoadedItem key={file.filename}>
+                <LoadedRow>
+                  <LoadedName>{file.filename}</LoadedName>
+                  <LoadedFormat>{file.format}</LoadedFormat>
+                  {file.encoding && file.encoding !== 'utf-8' && (
+                    <LoadedEncoding>{ENCODING_LABELS[file.encoding]}</LoadedEncoding>
+                  )}
+                  <LoadedCount>{file.transactionCount} transactions</LoadedCount>
+                  {file.skipped.length > 0 && (
+                    <SkippedCount>{file.skipped.length} skipped</SkippedCount>
+                  )}
+                </LoadedRow>
+                {file.skipped.length > 0 && (
+                  <SkippedList>
+                    {file.skipped.map(issue => (
+                      <SkippedItem key={issue.row}>
+                        <SkippedReason>
+                          Row {issue.row}: {ISSUE_LABELS[issue.kind]} - {issue.message}
+                        </SkippedReason>
+                        <SkippedRaw>{issue.raw}</SkippedRaw>
+                      </SkippedItem>
+                    ))}
+                  </SkippedList>
+                )}
+                {file.warnings.length > 0 && (
+                  <WarningList>
+                    {file.warnings.map(warning => (
+                      <WarningItem key={warning}>{warning}</WarningItem>
+                    ))}
+                  </WarningList>
+                )}
+              </LoadedItem>
+            ))}
+          </LoadedList>
+          {coverage && coverage.files.length > 1 && <CoverageTimeline coverage={coverage} />}
+          {hasForeignCurrency && (
+            <CurrencyPanel
+              transactions={rawTransactions}
+              baseCurrency={baseCurrency}
+              rates={exchangeRates}
+              onBaseCurrencyChange={currency => dispatch({ type: 'BASE_CURRENCY_SET', currency })}
+              onRateFileSelected={loadExchangeRates}
+              onRateAdded={handleRateAdded}
+            />
+          )}
+          <LoadedActions>
+            <Button
+              $size="lg"
+              onClick={handleContinue}
+              disabled={isLoading || unmappedFiles.length > 0 || missingRates.length > 0}
+            >
+              Continue
+            </Button>
+          </LoadedActions>
+          {missingRates.length > 0 && (
+            <LoadedNote>Add a rate for {missingRates.join(', ')} to continue.</LoadedNote>
+          )}
+        </LoadedSection>
+      )}
+
       <Divider>
         <DividerLine />
         <DividerText>or</DividerText>
@@ -137,12 +323,146 @@ const ErrorIcon = styled.span`
 
 const ErrorText = styled.span`
   color: ${({ theme }) => theme.colors.error};
+  white-space: pre-line;
 `
 
 const UploadSection = styled.section`
   margin-bottom: ${({ theme }) => theme.spacing.lg};
 `
 
+const LenientOption = styled.label`
+  display: flex;
+  align-items: center;
+  gap: ${({ theme }) => theme.spacing.sm};
+  margin-top: ${({ theme }) => theme.spacing.sm};
+  font-size: ${({ theme }) => theme.fontSize.sm};
+  color: ${({ theme }) => theme.colors.textSecondary};
+  cursor: pointer;
+`
+
+const LoadedSection = styled.section`
+  margin-bottom: ${({ theme }) => theme.spacing.lg};
+`
+
+const LoadedList = styled.ul`
+  list-style: none;
+  margin: 0 0 ${({ theme }) => theme.spacing.lg};
+  padding: 0;
+  background: ${({ theme }) => theme.colors.surface};
+  border: 1px solid ${({ theme }) => theme.colors.border};
+  border-radius: ${({ theme }) => theme.borderRadius.md};
+`
+
+const LoadedItem = styled.li`
+  padding: ${({ theme }) => theme.spacing.sm} ${({ theme }) => theme.spacing.md};
+  border-bottom: 1px solid ${({ theme }) => theme.colors.border};
+
+  &:last-child {
+    border-bottom: none;
+  }
+`
+
+const LoadedRow = styled.div`
+  display: flex;
+  align-items: center;
+  gap: ${({ theme }) => theme.spacing.md};
+`
+
+const LoadedName = styled.span`
+  flex: 1;
+  font-weight: ${({ theme }) => theme.fontWeight.medium};
+  word-break: break-word;
+`
+
+const LoadedFormat = styled.span`
+  font-size: ${({ theme }) => theme.fontSize.xs};
+  color: ${({ theme }) => theme.colors.primary};
+  background: ${({ theme }) => theme.colors.primaryLight};
+  border-radius: ${({ theme }) => theme.borderRadius.full};
+  padding: ${({ theme }) => theme.spacing.xs} ${({ theme }) => theme.spacing.sm};
+`
+
+const LoadedEncoding = styled.span`
+  font-size: ${({ theme }) => theme.fontSize.xs};
+  color: ${({ theme }) => theme.colors.textSecondary};
+  background: ${({ theme }) => theme.colors.background};
+  border-radius: ${({ theme }) => theme.borderRadius.full};
+  padding: ${({ theme }) => theme.spacing.xs} ${({ theme }) => theme.spacing.sm};
+`
+
+const LoadedCount = styled.span`
+  font-size: ${({ theme }) => theme.fontSize.sm};
+  color: ${({ theme }) => theme.colors.textSecondary};
+`
+
+const SkippedCount = styled.span`
+  font-size: ${({ theme }) => theme.fontSize.sm};
+  color: ${({ theme }) => theme.colors.warning};
+`
+
+const SkippedList = styled.ul`
+  list-style: none;
+  margin: ${({ theme }) => theme.spacing.sm} 0 0;
+  padding: ${({ theme }) => theme.spacing.sm};
+  background: ${({ theme }) => theme.colors.warningLight};
+  border-radius: ${({ theme }) => theme.borderRadius.sm};
+`
+
+const SkippedItem = styled.li`
+  margin-bottom: ${({ theme }) => theme.spacing.xs};
+
+  &:last-child {
+    margin-bottom: 0;
+  }
+`
+
+const SkippedReason = styled.div`
+  font-size: ${({ theme }) => theme.fontSize.sm};
+  color: ${({ theme }) => theme.colors.text};
+`
+
+const SkippedRaw = styled.code`
+  display: block;
+  font-size: ${({ theme }) => theme.fontSize.xs};
+  color: ${({ theme }) => theme.colors.textSecondary};
+  white-space: pre-wrap;
+  word-break: break-all;
+`
+
+const ReuploadNotice = styled.div`
+  font-size: ${({ theme }) => theme.fontSize.sm};
+  margin-bottom: ${({ theme }) => theme.spacing.md};
+`
+
+const RuleImportNotice = styled.div`
+  font-size: ${({ theme }) => theme.fontSize.sm};
+  margin-bottom: ${({ theme }) => theme.spacing.md};
+`
+
+const WarningList = styled.ul`
+  margin: ${({ theme }) => theme.spacing.sm} 0 0;
+  padding: ${({ theme }) => theme.spacing.sm} ${({ theme }) => theme.spacing.lg};
+  background: ${({ theme }) => theme.colors.warningLight};
+  border-radius: ${({ theme }) => theme.borderRadius.sm};
+`
+
+const WarningItem = styled.li`
+  font-size: ${({ theme }) => theme.fontSize.sm};
+  color: ${({ theme }) => theme.colors.text};
+`
+
+const LoadedActions = styled.div`
+  display: flex;
+  justify-content: center;
+`
+
+const LoadedNote = styled.p`
+  text-align: center;
+  font-size: ${({ theme }) => theme.fontSize.sm};
+  color: ${({ theme }) => theme.colors.textMuted};
+  margin-top: ${({ theme }) => theme.spacing.sm};
+`
+
 const SampleSection = styled.section`
   text-align: center;
   margin-bottom: ${({ theme }) => theme.spacing.xxl};
@@ -1,21 +1,56 @@
-import { useState } from 'react'
+import { useMemo, useState } from 'react'
 import styled from 'styled-components'
-import { Button } from '../common'
+import { Button, RuleList } from '../common'
 import { SpendingChart, CashFlowChart, CategoryDetailChart } from '../charts'
 import { useApp } from '../../context'
 import { downloadReportZIP } from '../../core/export'
+import { calculateMonthlyCashFlow, splitByAccount } from '../../core/calculations'
+import { explainRules } from '../../core/processors'
+import {
+  formatMoney,
+  getMerchantName,
+  getMinorGroups,
+  type CategoryLevel,
+  type Transaction,
+} from '../../core/types'
 
 export function ReportScreen() {
   const { state, dispatch } = useApp()
-  const { reportData, transactions, categoryMappings, selectedContributors } = state
+  const {
+    reportData,
+    transactions,
+    categoryMappings,
+    selectedContributors,
+    csvProfiles,
+    ownAccounts,
+    openingBalance,
+    baseCurrency,
+    exchangeRates,
+    duplicateDecisions,
+    majorGroups,
+  } = state
   const [isDownloading, setIsDownloading] = useState(false)
+  const [openingInput, setOpeningInput] = useState(openingBalance?.toString() ?? '')
   const [showDataOverview, setShowDataOverview] = useState(false)
   const [showContributions, setShowContributions] = useState(false)
   const [showCashFlow, setShowCashFlow] = useState(false)
+  const [showTransfers, setShowTransfers] = useState(false)
   const [showSpendingByCategory, setShowSpendingByCategory] = useState(false)
   const [showMonthlyCashFlow, setShowMonthlyCashFlow] = useState(false)
   const [showCategoryDetails, setShowCategoryDetails] = useState(false)
   const [showUncategorized, setShowUncategorized] = useState(false)
+  const [spendingLevel, setSpendingLevel] = useState<CategoryLevel>(
+    Object.keys(majorGroups).length > 0 ? 'major' : 'minor'
+  )
+  const [selectedMajorGroup, setSelectedMajorGroup] = useState<string | null>(null)
+  const [selectedCategory, setSelectedCategory] = useState<string | null>(null)
+
+  // The rules behind the category clicked in the spending table
+  const categoryRules = useMemo(() => {
+    if (!selectedCategory) return []
+    const spendable = transactions.filter(t => !t.isInternal)
+    return explainRules(spendable, categoryMappings).filter(r => r.mapping.category === selectedCategory)
+  }, [selectedCategory, transactions, categoryMappings])
 
   if (!reportData) {
     return (
@@ -31,7 +66,7 @@ export function ReportScreen() {
     )
   }
 
-  const { dataQuality, contributions, spending, cashFlow } = reportData
+  const { dataQuality, contributions, spending, cashFlow, transfers } = reportData
 
   const formatDate = (date: Date) => {
     return new Date(date).toLocaleDateString('en-IE', {
@@ -41,8 +76,34 @@ export function ReportScreen() {
     })
   }
 
-  const formatCurrency = (amount: number) => {
-    return `€${amount.toLocaleString('en', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+  const formatCurrency = (amount: number) => formatMoney(amount, baseCurrency)
+
+  // Converted transactions also show the amount as booked, e.g. "(SEK 1,200.00)"
+  const formatOriginal = (tx: Transaction) => {
+    if (tx.originalAmount === undefined || !tx.originalCurrency) return null
+    return <OriginalAmount>({formatMoney(Math.abs(tx.originalAmount), tx.originalCurrency)})</OriginalAmount>
+  }
+
+  // For accounts without statement balances the user can enter the balance the period started from
+  const hasStatementBalances = transactions.some(t => t.balance !== undefined)
+  const hasUnbookedAccounts = splitByAccount(transactions)
+    .some(account => account.transactions.every(t => t.balance === undefined))
+  const balanceKnown = cashFlow.openingBalance !== null
+
+  const formatBalance = (amount: number) => {
+    return balanceKnown ? formatCurrency(amount) : '—'
+  }
+
+  const handleOpeningBalanceApply = () => {
+    const balance = parseFloat(openingInput.replace(',', '.'))
+    if (isNaN(balance)) return
+
+    const months = cashFlow.monthly.map(m => m.month)
+    dispatch({
+      type: 'OPENING_BALANCE_SET',
+      balance,
+      monthly: calculateMonthlyCashFlow(transactions, months, balance),
+    })
   }
 
   const handleStartOver = () => {
@@ -53,7 +114,20 @@ export function ReportScreen() {
     if (!reportData) return
     setIsDownloading(true)
     try {
-      await downloadReportZIP(transactions, categoryMappings, reportData, selectedContributors)
+      await downloadReportZIP({
+        transactions,
+        report: reportData,
+        groupings: {
+          contributors: selectedContributors,
+          categories: categoryMappings,
+          csvProfiles,
+          ownAccounts,
+          baseCurrency,
+          duplicateDecisions,
+          majorGroups,
+        },
+        exchangeRates,
+      })
     } catch (error) {
       console.error('Download failed:', error)
     } finally {
@@ -64,9 +138,45 @@ export function ReportScreen() {
   // Sort categories by amount descending
   const sortedCategories = Array.from(spending.byCategory.entries())
     .sort((a, b) => b[1] - a[1])
+  const sortedMajorGroups = Array.from(spending.byMajorGroup.entries())
+    .sort((a, b) => b[1] - a[1])
+
+  // Totals at the chosen level, or the categories of the major group drilled into
+  const spendingTotals = spendingLevel === 'minor'
+    ? spending.byCategory
+    : selectedMajorGroup
+      ? new Map(
+          getMinorGroups(selectedMajorGroup, Array.from(spending.byCategory.keys()), majorGroups)
+            .map(category => [category, spending.byCategory.get(category) ?? 0])
+        )
+      : spending.byMajorGroup
+  const sortedSpending = Array.from(spendingTotals.entries())
+    .sort((a, b) => b[1] - a[1])
+  const canDrillDown = spendingLevel === 'major' && !selectedMajorGroup
+
+  const handleLevelChange = (level: CategoryLevel) => {
+    setSpendingLevel(level)
+    setSelectedMajorGroup(null)
+    setSelectedCategory(null)
+  }
+
+  const handleMajorGroupChange = (group: string | null) => {
+    setSelectedMajorGroup(group)
+    setSelectedCategory(null)
+  }
+
+  // Major groups drill down to their categories; categories show their rules
+  const handleSpendingSelect = (category: string) => {
+    if (canDrillDown) {
+      handleMajorGroupChange(category)
+    } else {
+      setSelectedCategory(selectedCategory === category ? null : category)
+    }
+  }
 
   const hasWarnings = dataQuality.missingWeeks.length > 0 ||
     dataQuality.missingMonths.length > 0 ||
+    dataQuality.balanceGaps.length > 0 ||
     spending.uncategorizedCount > 0
 
   return (
@@ -133,6 +243,12 @@ export function ReportScreen() {
                   .join(', ')}
               </Warning>
             )}
+            {dataQuality.balanceGaps.map((gap, i) => (
+              <Warning key={i}>
+                Likely missing transactions{gap.account && ` on ${gap.account}`} between {formatDate(gap.after)} and {formatDate(gap.before)}:
+                balance is off by {gap.difference < 0 ? '-' : '+'}{formatMoney(Math.abs(gap.difference), gap.currency)}
+              </Warning>
+            ))}
             {spending.uncategorizedCount > 0 && (
               <Warning>
                 {spending.uncategorizedCount} transactions ({formatCurrency(spending.uncategorizedTotal)}) remain uncategorized
@@ -213,6 +329,54 @@ export function ReportScreen() {
         )}
       </Section>
 
+      {/* Transfers Between Own Accounts */}
+      {transfers.transactions.length > 0 && (
+        <Section>
+          <CollapsibleHeader onClick={() => setShowTransfers(!showTransfers)}>
+            <SectionTitle style={{ marginBottom: 0, borderBottom: 'none', paddingBottom: 0 }}>
+              Transfers Between Own Accounts
+            </SectionTitle>
+            <ToggleIcon>{showTransfers ? '−' : '+'}</ToggleIcon>
+          </CollapsibleHeader>
+          {showTransfers && (
+          <CollapsibleContent>
+          <UncategorizedInfo>
+            Not counted as income, contributions or spending.
+          </UncategorizedInfo>
+          <CashFlowGrid>
+            <CashFlowCard $type="income">
+              <CashFlowLabel>Moved In</CashFlowLabel>
+              <CashFlowValue>{formatCurrency(transfers.totalIn)}</CashFlowValue>
+            </CashFlowCard>
+            <CashFlowCard $type="expense">
+              <CashFlowLabel>Moved Out</CashFlowLabel>
+              <CashFlowValue>{formatCurrency(transfers.totalOut)}</CashFlowValue>
+            </CashFlowCard>
+          </CashFlowGrid>
+          <UncategorizedList>
+            {transfers.transactions.slice(0, 20).map(tx => (
+              <UncategorizedItem key={`${tx.sourceFile}-${tx.id}`}>
+                <UncategorizedDate>
+                  {new Date(tx.date).toLocaleDateString('en-IE')}
+                </UncategorizedDate>
+                <UncategorizedTitle>{tx.title}</UncategorizedTitle>
+                <UncategorizedAmount>
+                  {tx.amount < 0 ? '-' : '+'}{formatCurrency(Math.abs(tx.amount))}
+                  {formatOriginal(tx)}
+                </UncategorizedAmount>
+              </UncategorizedItem>
+            ))}
+            {transfers.transactions.length > 20 && (
+              <MoreItems>
+                ...and {transfers.transactions.length - 20} more
+              </MoreItems>
+            )}
+          </UncategorizedList>
+          </CollapsibleContent>
+          )}
+        </Section>
+      )}
+
       {/* Spending by Category */}
       {sortedCategories.length > 0 && (
         <Section>
@@ -224,34 +388,75 @@ export function ReportScreen() {
           </CollapsibleHeader>
           {showSpendingByCategory && (
           <CollapsibleContent>
+          <LevelToggle>
+            <Button
+              $size="sm"
+              $variant={spendingLevel === 'major' ? 'primary' : 'outline'}
+              onClick={() => handleLevelChange('major')}
+            >
+              Major Groups
+            </Button>
+            <Button
+              $size="sm"
+              $variant={spendingLevel === 'minor' ? 'primary' : 'outline'}
+              onClick={() => handleLevelChange('minor')}
+            >
+              Categories
+            </Button>
+            {selectedMajorGroup && (
+              <DrillDownNote>
+                {selectedMajorGroup} by category •{' '}
+                <DrillDownBack type="button" onClick={() => handleMajorGroupChange(null)}>
+                  All major groups
+                </DrillDownBack>
+              </DrillDownNote>
+            )}
+          </LevelToggle>
           <ChartWrapper>
-            <SpendingChart data={spending.byCategory} />
+            <SpendingChart
+              data={spendingTotals}
+              currency={baseCurrency}
+              onSelect={handleSpendingSelect}
+            />
           </ChartWrapper>
+          <DrillDownHint>
+            {canDrillDown ? 'Click a major group to see its categories' : 'Click a category to see the rules behind it'}
+          </DrillDownHint>
           <CategoryTable>
             <thead>
               <tr>
-                <th>Category</th>
+                <th>{spendingLevel === 'major' && !selectedMajorGroup ? 'Major Group' : 'Category'}</th>
                 <th>Amount</th>
                 <th>% of Total</th>
               </tr>
             </thead>
             <tbody>
-              {sortedCategories.map(([category, amount]) => (
-                <tr key={category}>
+              {sortedSpending.map(([category, amount]) => (
+                <SpendingRow
+                  key={category}
+                  onClick={() => handleSpendingSelect(category)}
+                  $selected={category === selectedCategory}
+                >
                   <td>{category}</td>
                   <td>{formatCurrency(amount)}</td>
                   <td>{((amount / cashFlow.totalOutgoings) * 100).toFixed(1)}%</td>
-                </tr>
+                </SpendingRow>
               ))}
             </tbody>
             <tfoot>
               <tr>
                 <td><strong>Total Categorized</strong></td>
-                <td><strong>{formatCurrency(sortedCategories.reduce((sum, [, amt]) => sum + amt, 0))}</strong></td>
+                <td><strong>{formatCurrency(sortedSpending.reduce((sum, [, amt]) => sum + amt, 0))}</strong></td>
                 <td></td>
               </tr>
             </tfoot>
           </CategoryTable>
+          {selectedCategory && (
+            <CategoryRules>
+              <CategoryRulesTitle>Rules for {selectedCategory}</CategoryRulesTitle>
+              <RuleList key={selectedCategory} rules={categoryRules} currency={baseCurrency} />
+            </CategoryRules>
+          )}
           </CollapsibleContent>
           )}
         </Section>
@@ -268,8 +473,34 @@ export function ReportScreen() {
           </CollapsibleHeader>
           {showMonthlyCashFlow && (
           <CollapsibleContent>
+          {hasUnbookedAccounts && (
+            <OpeningBalanceForm
+              onSubmit={e => {
+                e.preventDefault()
+                handleOpeningBalanceApply()
+              }}
+            >
+              <OpeningBalanceLabel htmlFor="opening-balance">
+                {hasStatementBalances
+                  ? 'Some of your statements don\'t include account balances. Their balance on '
+                  : 'Your statements don\'t include account balances. Balance on '}
+                {formatDate(dataQuality.dateRange.start)}, before the first transaction:
+              </OpeningBalanceLabel>
+              <OpeningBalanceInput
+                id="opening-balance"
+                type="text"
+                inputMode="decimal"
+                value={openingInput}
+                onChange={e => setOpeningInput(e.target.value)}
+                placeholder="0.00"
+              />
+              <Button type="submit" $size="sm" $variant="secondary">
+                Apply
+              </Button>
+            </OpeningBalanceForm>
+          )}
           <ChartWrapper>
-            <CashFlowChart data={cashFlow.monthly} />
+            <CashFlowChart data={cashFlow.monthly} showBalance={balanceKnown} currency={baseCurrency} />
           </ChartWrapper>
           <MonthlyTable>
             <thead>
@@ -278,7 +509,9 @@ export function ReportScreen() {
                 <th>Income</th>
                 <th>Outgoings</th>
                 <th>Net</th>
-                <th>Balance</th>
+                <th>Opening</th>
+                <th>Closing</th>
+                <th>Lowest</th>
               </tr>
             </thead>
             <tbody>
@@ -290,8 +523,12 @@ export function ReportScreen() {
                   <td className={month.net >= 0 ? 'positive' : 'negative'}>
                     {formatCurrency(month.net)}
                   </td>
-                  <td className={month.cumulativeBalance >= 0 ? 'positive' : 'negative'}>
-                    {formatCurrency(month.cumulativeBalance)}
+                  <td>{formatBalance(month.openingBalance)}</td>
+                  <td className={month.closingBalance >= 0 ? 'positive' : 'negative'}>
+                    {formatBalance(month.closingBalance)}
+                  </td>
+                  <td className={month.lowestBalance >= 0 ? undefined : 'negative'}>
+                    {formatBalance(month.lowestBalance)}
                   </td>
                 </tr>
               ))}
@@ -313,11 +550,12 @@ export function ReportScreen() {
           </CollapsibleHeader>
           {showCategoryDetails && (
             <CollapsibleContent>
-              {sortedCategories.map(([category]) => (
+              {(spendingLevel === 'major' ? sortedMajorGroups : sortedCategories).map(([category]) => (
                 <CategoryDetailChart
                   key={category}
                   category={category}
-                  monthlySpending={spending.monthly}
+                  monthlySpending={spendingLevel === 'major' ? spending.monthlyByMajorGroup : spending.monthly}
+                  currency={baseCurrency}
                 />
               ))}
             </CollapsibleContent>
@@ -345,9 +583,10 @@ export function ReportScreen() {
                 <UncategorizedDate>
                   {new Date(tx.date).toLocaleDateString('en-IE')}
                 </UncategorizedDate>
-                <UncategorizedTitle>{tx.title}</UncategorizedTitle>
+                <UncategorizedTitle>{getMerchantName(tx)}</UncategorizedTitle>
                 <UncategorizedAmount>
                   {formatCurrency(Math.abs(tx.amount))}
+                  {formatOriginal(tx)}
                 </UncategorizedAmount>
               </UncategorizedItem>
             ))}
@@ -609,6 +848,53 @@ const CategoryTable = styled.table`
   }
 `
 
+const SpendingRow = styled.tr<{ $selected: boolean }>`
+  cursor: pointer;
+  background: ${({ $selected, theme }) => ($selected ? theme.colors.primaryLight : 'transparent')};
+`
+
+const CategoryRules = styled.div`
+  margin-top: ${({ theme }) => theme.spacing.md};
+  padding: ${({ theme }) => theme.spacing.md};
+  background: ${({ theme }) => theme.colors.surface};
+  border-radius: ${({ theme }) => theme.borderRadius.md};
+`
+
+const CategoryRulesTitle = styled.div`
+  font-weight: ${({ theme }) => theme.fontWeight.semibold};
+  margin-bottom: ${({ theme }) => theme.spacing.sm};
+`
+
+const LevelToggle = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  align-items: center;
+  gap: ${({ theme }) => theme.spacing.sm};
+  margin-bottom: ${({ theme }) => theme.spacing.md};
+`
+
+const DrillDownNote = styled.span`
+  font-size: ${({ theme }) => theme.fontSize.sm};
+  color: ${({ theme }) => theme.colors.textSecondary};
+`
+
+const DrillDownBack = styled.button`
+  background: none;
+  border: none;
+  padding: 0;
+  color: ${({ theme }) => theme.colors.primary};
+  font-size: inherit;
+  cursor: pointer;
+  text-decoration: underline;
+`
+
+const DrillDownHint = styled.div`
+  font-size: ${({ theme }) => theme.fontSize.xs};
+  color: ${({ theme }) => theme.colors.textMuted};
+  text-align: center;
+  margin-bottom: ${({ theme }) => theme.spacing.sm};
+`
+
 const MonthlyTable = styled.table`
   width: 100%;
   border-collapse: collapse;
@@ -653,6 +939,32 @@ const MonthlyTable = styled.table`
   }
 `
 
+const OpeningBalanceForm = styled.form`
+  display: flex;
+  align-items: center;
+  flex-wrap: wrap;
+  gap: ${({ theme }) => theme.spacing.sm};
+  margin-bottom: ${({ theme }) => theme.spacing.md};
+`
+
+const OpeningBalanceLabel = styled.label`
+  font-size: ${({ theme }) => theme.fontSize.sm};
+  color: ${({ theme }) => theme.colors.textSecondary};
+`
+
+const OpeningBalanceInput = styled.input`
+  width: 120px;
+  padding: ${({ theme }) => theme.spacing.xs} ${({ theme }) => theme.spacing.sm};
+  border: 2px solid ${({ theme }) => theme.colors.border};
+  border-radius: ${({ theme }) => theme.borderRadius.md};
+  font-size: ${({ theme }) => theme.fontSize.sm};
+
+  &:focus {
+    outline: none;
+    border-color: ${({ theme }) => theme.colors.primary};
+  }
+`
+
 const UncategorizedInfo = styled.div`
   font-size: ${({ theme }) => theme.fontSize.sm};
   color: ${({ theme }) => theme.colors.textSecondary};
@@ -697,6 +1009,12 @@ const UncategorizedAmount = styled.div`
   margin-left: ${({ theme }) => theme.spacing.md};
 `
 
+const OriginalAmount = styled.span`
+  font-weight: ${({ theme }) => theme.fontWeight.normal};
+  color: ${({ theme }) => theme.colors.textMuted};
+  margin-left: ${({ theme }) => theme.spacing.xs};
+`
+
 const MoreItems = styled.div`
   padding: ${({ theme }) => theme.spacing.md};
   text-align: center;
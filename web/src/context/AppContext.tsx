@@ -1,5 +1,7 @@
 import { useReducer, type ReactNode } from 'react'
 import { type AppState, type AppAction, initialState } from './types'
+import type { CategoryMapping } from '../core/types'
+import { findReuploadedFiles } from '../core/processors'
 import { AppContext } from './useAppHooks'
 
 /**
@@ -13,11 +15,17 @@ function appReducer(state: AppState, action: AppAction): AppState {
     case 'SET_ERROR':
       return { ...state, error: action.error, isLoading: false }
 
+    case 'LENIENT_PARSING_SET':
+      return { ...state, lenientParsing: action.lenient }
+
     case 'FILES_LOADED':
       return {
         ...state,
         rawTransactions: action.transactions,
         transactions: action.transactions,
+        importedFiles: action.files,
+        reuploadedFiles: action.reuploads,
+        unmappedFiles: action.unmapped,
         isLoading: false,
         error: null,
       }
@@ -27,22 +35,118 @@ function appReducer(state: AppState, action: AppAction): AppState {
         ...state,
         selectedContributors: action.contributors,
         categoryMappings: action.categories,
+        csvProfiles: action.csvProfiles,
+        ownAccounts: action.ownAccounts,
+        baseCurrency: action.baseCurrency ?? state.baseCurrency,
+        duplicateDecisions: action.duplicateDecisions,
+        majorGroups: action.majorGroups,
+      }
+
+    case 'LEGACY_RULES_IMPORTED': {
+      // Rules already loaded from a groupings file win over the old ones
+      const ruleKey = (m: CategoryMapping) => `${m.matchType}|${m.pattern.toLowerCase()}`
+      const known = new Set(state.categoryMappings.map(ruleKey))
+      return {
+        ...state,
+        categoryMappings: [
+          ...state.categoryMappings,
+          ...action.rules.categories.filter(m => !known.has(ruleKey(m))),
+        ],
+        majorGroups: { ...action.rules.majorGroups, ...state.majorGroups },
+        legacyRuleImport: action.rules,
+      }
+    }
+
+    case 'CSV_PROFILE_APPLIED': {
+      const mappedNames = new Set(action.files.map(f => f.filename))
+      // Mapped files may repeat, or contain, files already loaded
+      const files = [...state.importedFiles, ...action.files]
+      const reuploads = findReuploadedFiles(files, [...state.rawTransactions, ...action.transactions])
+      const dropped = new Map(reuploads.map(r => [r.filename, r.duplicateOf]))
+      const merged = [...state.rawTransactions, ...action.transactions]
+        .filter(t => !dropped.has(t.sourceFile))
+        .sort((a, b) => a.date.getTime() - b.date.getTime())
+      return {
+        ...state,
+        rawTransactions: merged,
+        transactions: merged,
+        importedFiles: files.filter(f => !dropped.has(f.filename)),
+        reuploadedFiles: [
+          ...state.reuploadedFiles.map(r => ({ ...r, duplicateOf: dropped.get(r.duplicateOf) ?? r.duplicateOf })),
+          ...reuploads,
+        ],
+        unmappedFiles: state.unmappedFiles.filter(f => !mappedNames.has(f.filename)),
+        // A profile saved under an existing name replaces it
+        csvProfiles: [
+          ...state.csvProfiles.filter(p => p.name !== action.profile.name),
+          action.profile,
+        ],
+        error: null,
+      }
+    }
+
+    case 'UNMAPPED_FILE_SKIPPED':
+      return {
+        ...state,
+        unmappedFiles: state.unmappedFiles.filter(f => f.filename !== action.filename),
+      }
+
+    case 'EXCHANGE_RATES_LOADED':
+      return {
+        ...state,
+        // Loaded rates replace any earlier rate for the same currency and day
+        exchangeRates: [
+          ...state.exchangeRates.filter(r => !action.rates.some(n =>
+            n.currency === r.currency && n.date.getTime() === r.date.getTime()
+          )),
+          ...action.rates,
+        ].sort((a, b) => a.date.getTime() - b.date.getTime()),
+        error: null,
+      }
+
+    case 'BASE_CURRENCY_SET':
+      return { ...state, baseCurrency: action.currency }
+
+    case 'CURRENCIES_CONVERTED':
+      return {
+        ...state,
+        rawTransactions: action.transactions,
+        transactions: action.transactions,
       }
 
-    case 'DUPLICATES_FOUND':
+    case 'DUPLICATES_FOUND': {
+      const found = action.groups.length + action.fuzzyGroups.length
       return {
         ...state,
         duplicateGroups: action.groups,
-        step: action.groups.length > 0 ? 'dedup' : 'contributors',
+        fuzzyDuplicateGroups: action.fuzzyGroups,
+        step: found > 0 ? 'dedup' : 'contributors',
+        isLoading: false,
       }
+    }
 
-    case 'DUPLICATES_RESOLVED':
+    case 'FUZZY_DUPLICATES_FOUND':
+      return {
+        ...state,
+        fuzzyDuplicateGroups: action.groups,
+        fuzzyMatch: action.options,
+        isLoading: false,
+      }
+
+    case 'DUPLICATES_RESOLVED': {
+      // New decisions replace earlier ones for the same group
+      const decided = new Set(action.decisions.map(d => d.groupKey))
       return {
         ...state,
         transactions: action.transactions,
         duplicatesRemoved: action.removedCount,
+        duplicateDecisions: [
+          ...state.duplicateDecisions.filter(d => !decided.has(d.groupKey)),
+          ...action.decisions,
+        ],
         step: 'contributors',
       }
+    }
 
     case 'CONTRIBUTORS_SELECTED':
       return {
@@ -50,6 +154,12 @@ function appReducer(state: AppState, action: AppAction): AppState {
         selectedContributors: action.names,
       }
 
+    case 'OWN_ACCOUNTS_SET':
+      return {
+        ...state,
+        ownAccounts: action.accounts,
+      }
+
     case 'TRANSACTIONS_TAGGED':
       return {
         ...state,
@@ -63,6 +173,19 @@ function appReducer(state: AppState, action: AppAction): AppState {
         categoryMappings: [...state.categoryMappings, action.mapping],
       }
 
+    case 'MAJOR_GROUP_SET': {
+      // An empty major group takes the category out of its group
+      const majorGroups = Object.fromEntries(
+        Object.entries(state.majorGroups).filter(([category]) => category !== action.category)
+      )
+      return {
+        ...state,
+        majorGroups: action.majorGroup
+          ? { ...majorGroups, [action.category]: action.majorGroup }
+          : majorGroups,
+      }
+    }
+
     case 'CATEGORIES_APPLIED':
       return {
         ...state,
@@ -74,6 +197,22 @@ function appReducer(state: AppState, action: AppAction): AppState {
         ...state,
         reportData: action.data,
         step: 'report',
+        isLoading: false,
+      }
+
+    case 'OPENING_BALANCE_SET':
+      return {
+        ...state,
+        openingBalance: action.balance,
+        reportData: state.reportData && {
+          ...state.reportData,
+          cashFlow: {
+            ...state.reportData.cashFlow,
+            monthly: action.monthly,
+            // Accounts with statement balances add to the one entered
+            openingBalance: action.monthly[0]?.openingBalance ?? action.balance,
+          },
+        },
       }
 
     case 'GO_TO_STEP':
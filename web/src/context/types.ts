@@ -1,6 +1,15 @@
-import type { Transaction } from '../core/types'
-import type { CategoryMapping } from '../core/types/category'
-import type { DuplicateGroup, ReportData } from '../core/types/report'
+import { DEFAULT_CURRENCY, type ExchangeRate, type Transaction } from '../core/types'
+import type { CategoryMapping, MajorGroups } from '../core/types/category'
+import type { CsvMappingProfile } from '../core/types/csvProfile'
+import type {
+  DuplicateDecision,
+  DuplicateGroup,
+  MonthlyCashFlow,
+  ReportData,
+  ReuploadedFile,
+} from '../core/types/report'
+import type { ImportReport, StatementSample } from '../core/parsers'
+import { DEFAULT_FUZZY_OPTIONS, type FuzzyMatchOptions, type LegacyRuleImport } from '../core/processors'
 
 /**
  * Application steps in the wizard flow.
@@ -22,19 +31,59 @@ export interface AppState {
   // Raw transactions (before deduplication)
   rawTransactions: Transaction[]
 
+  // Statement files loaded, with the format each was recognised as
+  // and any rows that could not be imported
+  importedFiles: ImportReport[]
+
+  // Files left out because another uploaded file already holds their transactions
+  reuploadedFiles: ReuploadedFile[]
+
+  // Skip unreadable rows instead of rejecting the whole file
+  lenientParsing: boolean
+
+  // CSV files no parser recognised, waiting for a column mapping
+  unmappedFiles: StatementSample[]
+
+  // Saved column mappings for banks without a built-in parser
+  csvProfiles: CsvMappingProfile[]
+
+  // Currency the report is in, and the user's rates for converting to it
+  baseCurrency: string
+  exchangeRates: ExchangeRate[]
+
   // Duplicate information
   duplicateGroups: DuplicateGroup[]
   duplicatesRemoved: number
 
+  // Likely duplicates (e.g. a booking day apart) for the user to confirm
+  fuzzyDuplicateGroups: DuplicateGroup[]
+  fuzzyMatch: FuzzyMatchOptions
+
+  // How the user resolved duplicate groups, kept in the groupings file
+  duplicateDecisions: DuplicateDecision[]
+
   // Cleaned transactions (after deduplication)
   transactions: Transaction[]
 
   // Contributor selection
   selectedContributors: string[]
 
+  // Our own accounts (IBANs) - transfers to and from them are internal
+  ownAccounts: string[]
+
   // Category mappings (user-defined)
   categoryMappings: CategoryMapping[]
 
+  // The major group each category rolls up into
+  majorGroups: MajorGroups
+
+  // Rules converted from the old R project's helper files, with the rows left out
+  legacyRuleImport: LegacyRuleImport | null
+
+  // Account balance before the first transaction, entered by the user
+  // when the statements don't carry balances
+  openingBalance: number | null
+
   // Generated report data
   reportData: ReportData | null
 
@@ -49,15 +98,26 @@ export interface AppState {
 export type AppAction =
   | { type: 'SET_LOADING'; isLoading: boolean }
   | { type: 'SET_ERROR'; error: string | null }
-  | { type: 'FILES_LOADED'; transactions: Transaction[] }
-  | { type: 'GROUPINGS_LOADED'; contributors: string[]; categories: CategoryMapping[] }
-  | { type: 'DUPLICATES_FOUND'; groups: DuplicateGroup[] }
-  | { type: 'DUPLICATES_RESOLVED'; transactions: Transaction[]; removedCount: number }
+  | { type: 'LENIENT_PARSING_SET'; lenient: boolean }
+  | { type: 'FILES_LOADED'; transactions: Transaction[]; files: ImportReport[]; unmapped: StatementSample[]; reuploads: ReuploadedFile[] }
+  | { type: 'GROUPINGS_LOADED'; contributors: string[]; categories: CategoryMapping[]; csvProfiles: CsvMappingProfile[]; ownAccounts: string[]; baseCurrency?: string; duplicateDecisions: DuplicateDecision[]; majorGroups: MajorGroups }
+  | { type: 'LEGACY_RULES_IMPORTED'; rules: LegacyRuleImport }
+  | { type: 'CSV_PROFILE_APPLIED'; profile: CsvMappingProfile; transactions: Transaction[]; files: ImportReport[] }
+  | { type: 'UNMAPPED_FILE_SKIPPED'; filename: string }
+  | { type: 'EXCHANGE_RATES_LOADED'; rates: ExchangeRate[] }
+  | { type: 'BASE_CURRENCY_SET'; currency: string }
+  | { type: 'CURRENCIES_CONVERTED'; transactions: Transaction[] }
+  | { type: 'DUPLICATES_FOUND'; groups: DuplicateGroup[]; fuzzyGroups: DuplicateGroup[] }
+  | { type: 'FUZZY_DUPLICATES_FOUND'; groups: DuplicateGroup[]; options: FuzzyMatchOptions }
+  | { type: 'DUPLICATES_RESOLVED'; transactions: Transaction[]; removedCount: number; decisions: DuplicateDecision[] }
   | { type: 'CONTRIBUTORS_SELECTED'; names: string[] }
+  | { type: 'OWN_ACCOUNTS_SET'; accounts: string[] }
   | { type: 'TRANSACTIONS_TAGGED'; transactions: Transaction[] }
   | { type: 'CATEGORY_ADDED'; mapping: CategoryMapping }
   | { type: 'CATEGORIES_APPLIED'; transactions: Transaction[] }
+  | { type: 'MAJOR_GROUP_SET'; category: string; majorGroup: string }
   | { type: 'REPORT_GENERATED'; data: ReportData }
+  | { type: 'OPENING_BALANCE_SET'; balance: number; monthly: MonthlyCashFlow[] }
   | { type: 'GO_TO_STEP'; step: AppStep }
   | { type: 'RESET' }
 
@@ -67,11 +127,25 @@ export type AppAction =
 export const initialState: AppState = {
   step: 'landing',
   rawTransactions: [],
+  importedFiles: [],
+  reuploadedFiles: [],
+  lenientParsing: false,
+  unmappedFiles: [],
+  csvProfiles: [],
+  baseCurrency: DEFAULT_CURRENCY,
+  exchangeRates: [],
   duplicateGroups: [],
   duplicatesRemoved: 0,
+  fuzzyDuplicateGroups: [],
+  fuzzyMatch: DEFAULT_FUZZY_OPTIONS,
+  duplicateDecisions: [],
   transactions: [],
   selectedContributors: [],
+  ownAccounts: [],
   categoryMappings: [],
+  majorGroups: {},
+  legacyRuleImport: null,
+  openingBalance: null,
   reportData: null,
   isLoading: false,
   error: null,
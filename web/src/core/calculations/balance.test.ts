@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest'
+import { balancesMatch, orderByBalance, getOpeningBalance, splitByAccount } from './balance'
+import type { Transaction } from '../types'
+
+function createTransaction(overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    id: 'test-0',
+    date: new Date('2024-05-10'),
+    amount: -100,
+    title: 'TEST',
+    name: '',
+    referenceNumber: '',
+    message: '',
+    sourceFile: 'test.csv',
+    ...overrides,
+  }
+}
+
+describe('balancesMatch', () => {
+  it('matches balances equal to the cent', () => {
+    expect(balancesMatch(0.1 + 0.2, 0.3)).toBe(true)
+  })
+
+  it('does not match balances a cent apart', () => {
+    expect(balancesMatch(10.01, 10.02)).toBe(false)
+  })
+})
+
+describe('orderByBalance', () => {
+  it('sorts by date', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'b', date: new Date('2024-05-20') }),
+      createTransaction({ id: 'a', date: new Date('2024-05-10') }),
+    ]
+
+    expect(orderByBalance(transactions).map(t => t.id)).toEqual(['a', 'b'])
+  })
+
+  it('chains same-day transactions by balance', () => {
+    // Listed newest first, as in a Nordea export
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'a', date: new Date('2024-05-01'), amount: -10, balance: 100 }),
+      createTransaction({ id: 'c', date: new Date('2024-05-02'), amount: -5, balance: 115 }),
+      createTransaction({ id: 'b', date: new Date('2024-05-02'), amount: 20, balance: 120 }),
+    ]
+
+    expect(orderByBalance(transactions).map(t => t.id)).toEqual(['a', 'b', 'c'])
+  })
+
+  it('chains the first day without a carried balance', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'b', date: new Date('2024-05-01'), amount: -5, balance: 95 }),
+      createTransaction({ id: 'a', date: new Date('2024-05-01'), amount: -10, balance: 100 }),
+    ]
+
+    expect(orderByBalance(transactions).map(t => t.id)).toEqual(['a', 'b'])
+  })
+
+  it('puts same-day transactions without a balance last', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'x', date: new Date('2024-05-01'), amount: -1 }),
+      createTransaction({ id: 'a', date: new Date('2024-05-01'), amount: -10, balance: 100 }),
+    ]
+
+    expect(orderByBalance(transactions).map(t => t.id)).toEqual(['a', 'x'])
+  })
+
+  it('follows balances in the account currency', () => {
+    // Converted balances lose cents to rounding; the booked ones still chain
+    const transactions: Transaction[] = [
+      createTransaction({
+        id: 'b', date: new Date('2024-05-01'), amount: -0.87, balance: 8.54,
+        originalAmount: -10, originalBalance: 99, originalCurrency: 'SEK',
+      }),
+      createTransaction({
+        id: 'a', date: new Date('2024-05-01'), amount: -0.87, balance: 9.4,
+        originalAmount: -10, originalBalance: 109, originalCurrency: 'SEK',
+      }),
+    ]
+
+    expect(orderByBalance(transactions).map(t => t.id)).toEqual(['a', 'b'])
+  })
+
+  it('does not modify the input', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'b', date: new Date('2024-05-20') }),
+      createTransaction({ id: 'a', date: new Date('2024-05-10') }),
+    ]
+
+    orderByBalance(transactions)
+
+    expect(transactions[0].id).toBe('b')
+  })
+})
+
+describe('getOpeningBalance', () => {
+  it('unwinds the first booked balance', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'a', date: new Date('2024-05-01'), amount: -39.99, balance: 123.45 }),
+      createTransaction({ id: 'b', date: new Date('2024-05-10'), amount: 800, balance: 923.45 }),
+    ]
+
+    expect(getOpeningBalance(transactions)).toBeCloseTo(163.44)
+  })
+
+  it('accounts for earlier transactions without a balance', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'x', date: new Date('2024-04-28'), amount: -20 }),
+      createTransaction({ id: 'a', date: new Date('2024-05-01'), amount: -30, balance: 100 }),
+    ]
+
+    expect(getOpeningBalance(transactions)).toBe(150)
+  })
+
+  it('returns null when no transaction has a balance', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'a', amount: -30 }),
+    ]
+
+    expect(getOpeningBalance(transactions)).toBeNull()
+  })
+
+  it('sums the opening balances of several accounts', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'a', amount: -100, balance: 900, senderAccount: 'FI11 1111', sourceFile: 'current.csv' }),
+      createTransaction({ id: 'b', amount: -50, balance: 4950, currency: 'SEK', sourceFile: 'sek.csv' }),
+    ]
+
+    expect(getOpeningBalance(transactions)).toBe(6000)
+  })
+})
+
+describe('splitByAccount', () => {
+  it('keeps each file with the account it is a statement of', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'a', amount: -10, senderAccount: 'FI11 1111', recipientAccount: 'FI22 2222', sourceFile: 'may.csv' }),
+      createTransaction({ id: 'b', amount: 800, recipientAccount: 'FI11 1111', sourceFile: 'may.csv' }),
+      createTransaction({ id: 'c', amount: -10, senderAccount: 'fi11 1111', sourceFile: 'june.csv' }),
+      createTransaction({ id: 'd', amount: -10, senderAccount: 'FI22 2222', sourceFile: 'savings.csv' }),
+    ]
+
+    const series = splitByAccount(transactions)
+
+    expect(series.map(s => [s.account, s.transactions.map(t => t.id)])).toEqual([
+      ['FI111111', ['a', 'b', 'c']],
+      ['FI222222', ['d']],
+    ])
+  })
+
+  it('splits files without an account by currency', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'a', sourceFile: 'op.csv' }),
+      createTransaction({ id: 'b', currency: 'SEK', sourceFile: 'sek.csv' }),
+    ]
+
+    expect(splitByAccount(transactions)).toEqual([
+      { currency: 'EUR', transactions: [transactions[0]] },
+      { currency: 'SEK', transactions: [transactions[1]] },
+    ])
+  })
+})
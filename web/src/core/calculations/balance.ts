@@ -0,0 +1,156 @@
+import { getAccountCurrency, getBookedAmount, getBookedBalance, type Transaction } from '../types'
+
+/**
+ * Balances are in cents; allow for floating point error when comparing.
+ */
+const BALANCE_TOLERANCE = 0.005
+
+/**
+ * Check whether two balances are equal to the cent.
+ */
+export function balancesMatch(a: number, b: number): boolean {
+  return Math.abs(a - b) < BALANCE_TOLERANCE
+}
+
+/**
+ * Get the statement's own account of a transaction: the sender for money
+ * out, the recipient for money in. Normalized like counterparty accounts.
+ */
+function getOwnAccount(transaction: Transaction): string | undefined {
+  const account = transaction.amount < 0 ? transaction.senderAccount : transaction.recipientAccount
+  return account ? account.replace(/\s+/g, '').toUpperCase() : undefined
+}
+
+/**
+ * Split transactions into one balance series per account, so each
+ * account's booked balances are followed on their own.
+ *
+ * A file's account is the own account most of its transactions name.
+ * Files that name none (e.g. OP exports) are told apart only by currency,
+ * as are the accounts within each series.
+ *
+ * @param transactions - Transactions from any number of accounts
+ * @returns The series, each with its account where known
+ */
+export function splitByAccount(
+  transactions: Transaction[]
+): { account?: string; currency: string; transactions: Transaction[] }[] {
+  // Count each file's own accounts to find the one it is a statement of
+  const accountCounts = new Map<string, Map<string, number>>()
+  for (const t of transactions) {
+    const account = getOwnAccount(t)
+    if (!account) continue
+    const counts = accountCounts.get(t.sourceFile) ?? new Map<string, number>()
+    counts.set(account, (counts.get(account) ?? 0) + 1)
+    accountCounts.set(t.sourceFile, counts)
+  }
+  const fileAccounts = new Map([...accountCounts].map(([file, counts]) => [
+    file,
+    [...counts].reduce((best, entry) => (entry[1] > best[1] ? entry : best))[0],
+  ]))
+
+  const series = new Map<string, { account?: string; currency: string; transactions: Transaction[] }>()
+  for (const t of transactions) {
+    const account = fileAccounts.get(t.sourceFile)
+    const currency = getAccountCurrency(t)
+    const key = `${account ?? ''}|${currency}`
+    const existing = series.get(key) ?? { ...(account && { account }), currency, transactions: [] }
+    existing.transactions.push(t)
+    series.set(key, existing)
+  }
+
+  return [...series.values()]
+}
+
+/**
+ * Order transactions oldest first, following the booked balances within a day.
+ *
+ * Statements list same-day transactions in either order, so row order can't
+ * be trusted. Within a day, transactions with a balance are chained from the
+ * balance carried over from the previous day; transactions without one
+ * follow in their original order. Balances are followed in the account's own
+ * currency, as converted balances drift with the exchange rate.
+ *
+ * @param transactions - Transactions in any order
+ * @returns A new, ordered array
+ */
+export function orderByBalance(transactions: Transaction[]): Transaction[] {
+  const sorted = [...transactions].sort((a, b) => a.date.getTime() - b.date.getTime())
+  const ordered: Transaction[] = []
+  let carried: number | undefined
+  let i = 0
+
+  while (i < sorted.length) {
+    // Collect the transactions booked on this day
+    const day = sorted[i].date.getTime()
+    const remaining: Transaction[] = []
+    const withoutBalance: Transaction[] = []
+    while (i < sorted.length && sorted[i].date.getTime() === day) {
+      const t = sorted[i++]
+      if (getBookedBalance(t) === undefined) {
+        withoutBalance.push(t)
+      } else {
+        remaining.push(t)
+      }
+    }
+
+    while (remaining.length > 0) {
+      const from = carried
+      let index = from !== undefined
+        ? remaining.findIndex(t => balancesMatch(from + getBookedAmount(t), getBookedBalance(t)!))
+        : -1
+
+      if (index === -1) {
+        // Chain broken (or just starting): continue from the transaction
+        // no other remaining transaction of the day leads into
+        const head = remaining.findIndex(t =>
+          !remaining.some(o =>
+            o !== t && balancesMatch(getBookedBalance(o)!, getBookedBalance(t)! - getBookedAmount(t))
+          )
+        )
+        index = head === -1 ? 0 : head
+      }
+
+      const next = remaining.splice(index, 1)[0]
+      ordered.push(next)
+      carried = getBookedBalance(next)
+    }
+
+    ordered.push(...withoutBalance)
+  }
+
+  return ordered
+}
+
+/**
+ * Work out one account's balance before its first transaction.
+ */
+function getAccountOpeningBalance(transactions: Transaction[]): number | null {
+  const ordered = orderByBalance(transactions)
+  const anchorIndex = ordered.findIndex(t => t.balance !== undefined)
+  if (anchorIndex === -1) return null
+
+  // Unwind the anchor and everything booked before it
+  const anchor = ordered[anchorIndex]
+  let balance = anchor.balance! - anchor.amount
+  for (let i = 0; i < anchorIndex; i++) {
+    balance -= ordered[i].amount
+  }
+
+  return balance
+}
+
+/**
+ * Work out the balance before the first transaction from the statements'
+ * booked balances, summed over the accounts that have them.
+ *
+ * @param transactions - All transactions
+ * @returns Opening balance, or null if no transaction carries a balance
+ */
+export function getOpeningBalance(transactions: Transaction[]): number | null {
+  const openings = splitByAccount(transactions)
+    .map(account => getAccountOpeningBalance(account.transactions))
+    .filter(balance => balance !== null)
+
+  return openings.length > 0 ? openings.reduce((sum, balance) => sum + balance, 0) : null
+}
@@ -4,6 +4,7 @@ import {
   calculateTotals,
   findExtremeMonths,
   calculateAverages,
+  calculateInternalTransfers,
 } from './cashflow'
 import type { Transaction } from '../types'
 
@@ -55,7 +56,7 @@ describe('calculateMonthlyCashFlow', () => {
     expect(result[0].net).toBe(600) // 1000 - 400
   })
 
-  it('calculates cumulative balance', () => {
+  it('runs the balance on from the opening balance', () => {
     const transactions: Transaction[] = [
       createTransaction({ id: 'a', date: new Date('2024-05-10'), amount: 1000 }),
       createTransaction({ id: 'b', date: new Date('2024-05-20'), amount: -400 }),
@@ -63,10 +64,90 @@ describe('calculateMonthlyCashFlow', () => {
       createTransaction({ id: 'd', date: new Date('2024-06-20'), amount: -200 }),
     ]
 
+    const result = calculateMonthlyCashFlow(transactions, ['2024-05', '2024-06'], 250)
+
+    expect(result[0].openingBalance).toBe(250)
+    expect(result[0].closingBalance).toBe(850)   // May: 250 + 1000 - 400
+    expect(result[1].openingBalance).toBe(850)
+    expect(result[1].closingBalance).toBe(1150)  // June: 850 + (500 - 200)
+  })
+
+  it('starts from zero without an opening balance', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'a', date: new Date('2024-05-10'), amount: 1000 }),
+      createTransaction({ id: 'b', date: new Date('2024-05-20'), amount: -400 }),
+    ]
+
+    const result = calculateMonthlyCashFlow(transactions, ['2024-05'])
+
+    expect(result[0].closingBalance).toBe(600)
+  })
+
+  it('follows booked balances from the statement', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'a', date: new Date('2024-05-10'), amount: -100, balance: 900 }),
+      // A gap: 50 went missing between these two
+      createTransaction({ id: 'b', date: new Date('2024-06-10'), amount: -200, balance: 650 }),
+    ]
+
+    const result = calculateMonthlyCashFlow(transactions, ['2024-05', '2024-06'], 1000)
+
+    expect(result[0].closingBalance).toBe(900)
+    expect(result[1].openingBalance).toBe(900)
+    expect(result[1].closingBalance).toBe(650)
+  })
+
+  it('sums the balances of several accounts', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'a', date: new Date('2024-05-10'), amount: -100, balance: 900, senderAccount: 'FI11 1111', sourceFile: 'current.csv' }),
+      createTransaction({ id: 'x', date: new Date('2024-05-15'), amount: -50, balance: 4950, senderAccount: 'FI22 2222', sourceFile: 'savings.csv' }),
+      createTransaction({ id: 'b', date: new Date('2024-06-10'), amount: -200, balance: 700, senderAccount: 'FI11 1111', sourceFile: 'current.csv' }),
+    ]
+
     const result = calculateMonthlyCashFlow(transactions, ['2024-05', '2024-06'])
 
-    expect(result[0].cumulativeBalance).toBe(600)  // May: 1000 - 400
-    expect(result[1].cumulativeBalance).toBe(900)  // June: 600 + (500 - 200)
+    expect(result[0].openingBalance).toBe(6000)   // 1000 + 5000
+    expect(result[0].lowestBalance).toBe(5850)
+    expect(result[0].closingBalance).toBe(5850)   // 900 + 4950
+    expect(result[1].closingBalance).toBe(5650)   // 700 + 4950
+  })
+
+  it('runs accounts without booked balances on from the opening balance', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'a', date: new Date('2024-05-10'), amount: -100, balance: 900, senderAccount: 'FI11 1111', sourceFile: 'nordea.csv' }),
+      createTransaction({ id: 'b', date: new Date('2024-05-20'), amount: -30, sourceFile: 'op.csv' }),
+    ]
+
+    const result = calculateMonthlyCashFlow(transactions, ['2024-05'], 200)
+
+    expect(result[0].openingBalance).toBe(1200)
+    expect(result[0].closingBalance).toBe(1070)
+  })
+
+  it('tracks the lowest balance within each month', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'a', date: new Date('2024-05-02'), amount: -700 }),
+      createTransaction({ id: 'b', date: new Date('2024-05-25'), amount: 2000 }),
+      createTransaction({ id: 'c', date: new Date('2024-06-10'), amount: -100 }),
+    ]
+
+    const result = calculateMonthlyCashFlow(transactions, ['2024-05', '2024-06'], 500)
+
+    expect(result[0].lowestBalance).toBe(-200)  // 500 - 700 before payday
+    expect(result[0].closingBalance).toBe(1800)
+    expect(result[1].lowestBalance).toBe(1700)
+  })
+
+  it('carries the balance through months with no transactions', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'a', date: new Date('2024-05-10'), amount: 500 }),
+    ]
+
+    const result = calculateMonthlyCashFlow(transactions, ['2024-05', '2024-06'], 100)
+
+    expect(result[1].openingBalance).toBe(600)
+    expect(result[1].closingBalance).toBe(600)
+    expect(result[1].lowestBalance).toBe(600)
   })
 
   it('fills zero for months with no transactions', () => {
@@ -81,7 +162,20 @@ describe('calculateMonthlyCashFlow', () => {
     expect(result[1].net).toBe(0)
   })
 
-  it('handles negative cumulative balance', () => {
+  it('keeps internal transfers out of income and outgoings but in the balance', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'a', date: new Date('2024-05-10'), amount: 1000 }),
+      createTransaction({ id: 'b', date: new Date('2024-05-20'), amount: -300, isInternal: true }),
+    ]
+
+    const result = calculateMonthlyCashFlow(transactions, ['2024-05'])
+
+    expect(result[0].outgoings).toBe(0)
+    expect(result[0].net).toBe(1000)
+    expect(result[0].closingBalance).toBe(700)
+  })
+
+  it('handles negative balance', () => {
     const transactions: Transaction[] = [
       createTransaction({ id: 'a', date: new Date('2024-05-10'), amount: 100 }),
       createTransaction({ id: 'b', date: new Date('2024-05-20'), amount: -500 }),
@@ -90,7 +184,7 @@ describe('calculateMonthlyCashFlow', () => {
     const result = calculateMonthlyCashFlow(transactions, ['2024-05'])
 
     expect(result[0].net).toBe(-400)
-    expect(result[0].cumulativeBalance).toBe(-400)
+    expect(result[0].closingBalance).toBe(-400)
   })
 })
 
@@ -110,6 +204,18 @@ describe('calculateTotals', () => {
     expect(result.netBalance).toBe(1000)
   })
 
+  it('leaves out internal transfers', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'a', amount: 1000 }),
+      createTransaction({ id: 'b', amount: -300, isInternal: true }),
+    ]
+
+    const result = calculateTotals(transactions)
+
+    expect(result.totalOutgoings).toBe(0)
+    expect(result.netBalance).toBe(1000)
+  })
+
   it('handles empty transactions', () => {
     const result = calculateTotals([])
 
@@ -119,12 +225,28 @@ describe('calculateTotals', () => {
   })
 })
 
+describe('calculateInternalTransfers', () => {
+  it('collects internal transfers with totals in each direction', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'a', amount: -300, isInternal: true }),
+      createTransaction({ id: 'b', amount: 100, isInternal: true }),
+      createTransaction({ id: 'c', amount: -50 }),
+    ]
+
+    const result = calculateInternalTransfers(transactions)
+
+    expect(result.transactions.map(t => t.id)).toEqual(['a', 'b'])
+    expect(result.totalIn).toBe(100)
+    expect(result.totalOut).toBe(300)
+  })
+})
+
 describe('findExtremeMonths', () => {
   it('finds highest and lowest net months', () => {
     const cashFlow = [
-      { month: '2024-05', income: 1000, outgoings: 200, net: 800, cumulativeBalance: 800 },
-      { month: '2024-06', income: 500, outgoings: 700, net: -200, cumulativeBalance: 600 },
-      { month: '2024-07', income: 600, outgoings: 400, net: 200, cumulativeBalance: 800 },
+      { month: '2024-05', income: 1000, outgoings: 200, net: 800, openingBalance: 0, closingBalance: 800, lowestBalance: 0 },
+      { month: '2024-06', income: 500, outgoings: 700, net: -200, openingBalance: 800, closingBalance: 600, lowestBalance: 600 },
+      { month: '2024-07', income: 600, outgoings: 400, net: 200, openingBalance: 600, closingBalance: 800, lowestBalance: 600 },
     ]
 
     const result = findExtremeMonths(cashFlow)
@@ -135,8 +257,8 @@ describe('findExtremeMonths', () => {
 
   it('finds highest income and outgoings months', () => {
     const cashFlow = [
-      { month: '2024-05', income: 1000, outgoings: 200, net: 800, cumulativeBalance: 800 },
-      { month: '2024-06', income: 500, outgoings: 900, net: -400, cumulativeBalance: 400 },
+      { month: '2024-05', income: 1000, outgoings: 200, net: 800, openingBalance: 0, closingBalance: 800, lowestBalance: 0 },
+      { month: '2024-06', income: 500, outgoings: 900, net: -400, openingBalance: 800, closingBalance: 400, lowestBalance: 400 },
     ]
 
     const result = findExtremeMonths(cashFlow)
@@ -156,8 +278,8 @@ describe('findExtremeMonths', () => {
 describe('calculateAverages', () => {
   it('calculates average income, outgoings, and net', () => {
     const cashFlow = [
-      { month: '2024-05', income: 1000, outgoings: 400, net: 600, cumulativeBalance: 600 },
-      { month: '2024-06', income: 800, outgoings: 600, net: 200, cumulativeBalance: 800 },
+      { month: '2024-05', income: 1000, outgoings: 400, net: 600, openingBalance: 0, closingBalance: 600, lowestBalance: 0 },
+      { month: '2024-06', income: 800, outgoings: 600, net: 200, openingBalance: 600, closingBalance: 800, lowestBalance: 600 },
     ]
 
     const result = calculateAverages(cashFlow)
@@ -1,55 +1,88 @@
 import type { Transaction } from '../types'
 import type { MonthlyCashFlow } from '../types/report'
 import { formatMonth } from './contributions'
+import { getOpeningBalance, orderByBalance, splitByAccount } from './balance'
 
 /**
- * Calculate monthly cash flow (income, outgoings, net, cumulative).
+ * Calculate monthly cash flow (income, outgoings, net) and the balance at
+ * the start, end and lowest point of each month, summed over all accounts.
+ *
+ * Each account's balance follows its statements' booked balances where
+ * transactions carry one, and otherwise runs on from the opening balance
+ * given, which covers the accounts without booked balances. Internal
+ * transfers move the balance but are not income or outgoings.
  *
  * @param transactions - All transactions
  * @param allMonths - All months to include
+ * @param openingBalance - Balance before the first transaction of the accounts without booked balances
  * @returns Monthly cash flow data
  */
 export function calculateMonthlyCashFlow(
   transactions: Transaction[],
-  allMonths: string[]
+  allMonths: string[],
+  openingBalance: number = 0
 ): MonthlyCashFlow[] {
-  // Group transactions by month
-  const monthlyData = new Map<string, { income: number; outgoings: number }>()
+  // Each account starts from its own booked balance
+  const accounts = splitByAccount(transactions)
+  const accountOf = new Map<Transaction, number>()
+  const bookedOpenings = accounts.map((account, i) => {
+    for (const t of account.transactions) accountOf.set(t, i)
+    return getOpeningBalance(account.transactions)
+  })
+  const balances = bookedOpenings.map(b => b ?? 0)
+
+  // The opening balance given covers the accounts without booked balances
+  const hasUnbooked = accounts.length === 0 || bookedOpenings.includes(null)
+  let balance = (hasUnbooked ? openingBalance : 0) + balances.reduce((sum, b) => sum + b, 0)
+
+  // Group transactions by month, in booking order within each account
+  const monthlyData = new Map<string, Transaction[]>()
 
-  // Initialize all months with zeros
   for (const month of allMonths) {
-    monthlyData.set(month, { income: 0, outgoings: 0 })
+    monthlyData.set(month, [])
   }
 
-  // Accumulate transactions
-  for (const t of transactions) {
-    const month = formatMonth(t.date)
-    const data = monthlyData.get(month) || { income: 0, outgoings: 0 }
-
-    if (t.amount > 0) {
-      data.income += t.amount
-    } else {
-      data.outgoings += Math.abs(t.amount)
-    }
-
-    monthlyData.set(month, data)
+  const ordered = accounts
+    .flatMap(account => orderByBalance(account.transactions))
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+  for (const t of ordered) {
+    monthlyData.get(formatMonth(t.date))?.push(t)
   }
 
-  // Calculate net and cumulative
+  // Walk the months, tracking the total balance after each transaction
   const results: MonthlyCashFlow[] = []
-  let cumulativeBalance = 0
 
   for (const month of allMonths) {
-    const data = monthlyData.get(month) || { income: 0, outgoings: 0 }
-    const net = data.income - data.outgoings
-    cumulativeBalance += net
+    const monthTransactions = monthlyData.get(month) || []
+    const monthOpening = balance
+    let lowestBalance = balance
+    let income = 0
+    let outgoings = 0
+
+    for (const t of monthTransactions) {
+      if (t.isInternal) {
+        // Counted in the balance only
+      } else if (t.amount > 0) {
+        income += t.amount
+      } else {
+        outgoings += Math.abs(t.amount)
+      }
+
+      const account = accountOf.get(t)!
+      const accountBalance = t.balance ?? balances[account] + t.amount
+      balance += accountBalance - balances[account]
+      balances[account] = accountBalance
+      lowestBalance = Math.min(lowestBalance, balance)
+    }
 
     results.push({
       month,
-      income: data.income,
-      outgoings: data.outgoings,
-      net,
-      cumulativeBalance,
+      income,
+      outgoings,
+      net: income - outgoings,
+      openingBalance: monthOpening,
+      closingBalance: balance,
+      lowestBalance,
     })
   }
 
@@ -58,6 +91,7 @@ export function calculateMonthlyCashFlow(
 
 /**
  * Calculate total income, outgoings, and net balance.
+ * Internal transfers are left out.
  */
 export function calculateTotals(transactions: Transaction[]): {
   totalIncome: number
@@ -68,6 +102,8 @@ export function calculateTotals(transactions: Transaction[]): {
   let totalOutgoings = 0
 
   for (const t of transactions) {
+    if (t.isInternal) continue
+
     if (t.amount > 0) {
       totalIncome += t.amount
     } else {
@@ -82,6 +118,23 @@ export function calculateTotals(transactions: Transaction[]): {
   }
 }
 
+/**
+ * Collect transfers between our own accounts, with totals in each direction.
+ */
+export function calculateInternalTransfers(transactions: Transaction[]): {
+  transactions: Transaction[]
+  totalIn: number
+  totalOut: number
+} {
+  const transfers = transactions.filter(t => t.isInternal)
+
+  return {
+    transactions: transfers,
+    totalIn: transfers.filter(t => t.amount > 0).reduce((sum, t) => sum + t.amount, 0),
+    totalOut: transfers.filter(t => t.amount < 0).reduce((sum, t) => sum + Math.abs(t.amount), 0),
+  }
+}
+
 /**
  * Find the month with highest/lowest net flow.
  */
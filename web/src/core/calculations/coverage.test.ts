@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest'
+import {
+  calculateCoverage,
+  getFileCoverage,
+  findCoverageOverlaps,
+  findCoverageGaps,
+} from './coverage'
+import type { Transaction } from '../types'
+import type { DuplicateGroup } from '../types/report'
+
+function createTransaction(overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    id: 'test-0',
+    date: new Date(2024, 4, 10),
+    amount: -100,
+    title: 'TEST',
+    name: '',
+    referenceNumber: '',
+    message: '',
+    sourceFile: 'may.csv',
+    ...overrides,
+  }
+}
+
+function createGroup(files: string[]): DuplicateGroup {
+  return {
+    transactions: files.map(sourceFile => createTransaction({ sourceFile })),
+    date: new Date(2024, 4, 10),
+    amount: -100,
+    title: 'TEST',
+    referenceNumber: '',
+  }
+}
+
+describe('getFileCoverage', () => {
+  it('gives each file its first and last date, by start date', () => {
+    const files = getFileCoverage([
+      createTransaction({ sourceFile: 'june.csv', date: new Date(2024, 5, 3) }),
+      createTransaction({ sourceFile: 'may.csv', date: new Date(2024, 4, 2) }),
+      createTransaction({ sourceFile: 'june.csv', date: new Date(2024, 5, 28) }),
+      createTransaction({ sourceFile: 'may.csv', date: new Date(2024, 4, 30) }),
+    ])
+
+    expect(files).toEqual([
+      { sourceFile: 'may.csv', start: new Date(2024, 4, 2), end: new Date(2024, 4, 30), transactionCount: 2 },
+      { sourceFile: 'june.csv', start: new Date(2024, 5, 3), end: new Date(2024, 5, 28), transactionCount: 2 },
+    ])
+  })
+})
+
+describe('findCoverageOverlaps', () => {
+  const files = getFileCoverage([
+    createTransaction({ sourceFile: 'may.csv', date: new Date(2024, 4, 1) }),
+    createTransaction({ sourceFile: 'may.csv', date: new Date(2024, 4, 31) }),
+    createTransaction({ sourceFile: 'export.csv', date: new Date(2024, 4, 20) }),
+    createTransaction({ sourceFile: 'export.csv', date: new Date(2024, 5, 10) }),
+    createTransaction({ sourceFile: 'july.csv', date: new Date(2024, 6, 1) }),
+  ])
+
+  it('finds the dates two files both cover', () => {
+    const overlaps = findCoverageOverlaps(files)
+
+    expect(overlaps).toHaveLength(1)
+    expect(overlaps[0]).toMatchObject({
+      files: ['may.csv', 'export.csv'],
+      start: new Date(2024, 4, 20),
+      end: new Date(2024, 4, 31),
+      duplicateGroups: 0,
+    })
+  })
+
+  it('counts the duplicate groups the two files share', () => {
+    const groups = [
+      createGroup(['may.csv', 'export.csv']),
+      createGroup(['export.csv', 'may.csv']),
+      createGroup(['may.csv', 'june.csv']),
+    ]
+
+    expect(findCoverageOverlaps(files, groups)[0].duplicateGroups).toBe(2)
+  })
+})
+
+describe('findCoverageGaps', () => {
+  it('finds stretches no file covers', () => {
+    const transactions = [
+      createTransaction({ sourceFile: 'may.csv', date: new Date(2024, 4, 1) }),
+      createTransaction({ sourceFile: 'may.csv', date: new Date(2024, 4, 31) }),
+      createTransaction({ sourceFile: 'july.csv', date: new Date(2024, 6, 1) }),
+    ]
+
+    const gaps = findCoverageGaps(transactions, getFileCoverage(transactions))
+
+    expect(gaps).toHaveLength(1)
+    expect(gaps[0].start).toEqual(new Date(2024, 5, 1))
+    expect(gaps[0].end).toEqual(new Date(2024, 5, 30))
+    expect(gaps[0].missingMonths).toEqual(['2024-06'])
+    expect(gaps[0].missingWeeks).toContain('2024-W24')
+    expect(gaps[0].missingWeeks).not.toContain('2024-W22') // May 31st is in W22
+  })
+
+  it('ignores a few quiet days between statements', () => {
+    const transactions = [
+      createTransaction({ sourceFile: 'may.csv', date: new Date(2024, 4, 27) }),
+      createTransaction({ sourceFile: 'june.csv', date: new Date(2024, 5, 3) }),
+    ]
+
+    expect(findCoverageGaps(transactions, getFileCoverage(transactions))).toEqual([])
+    expect(findCoverageGaps(transactions, getFileCoverage(transactions), 3)).toHaveLength(1)
+  })
+
+  it('does not count dates a longer file covers as a gap', () => {
+    const transactions = [
+      createTransaction({ sourceFile: 'year.csv', date: new Date(2024, 0, 1) }),
+      createTransaction({ sourceFile: 'year.csv', date: new Date(2024, 11, 31) }),
+      createTransaction({ sourceFile: 'march.csv', date: new Date(2024, 2, 15) }),
+      createTransaction({ sourceFile: 'may.csv', date: new Date(2024, 4, 15) }),
+    ]
+
+    expect(findCoverageGaps(transactions, getFileCoverage(transactions))).toEqual([])
+  })
+})
+
+describe('calculateCoverage', () => {
+  it('returns null without transactions', () => {
+    expect(calculateCoverage([])).toBeNull()
+  })
+
+  it('spans all files', () => {
+    const coverage = calculateCoverage([
+      createTransaction({ sourceFile: 'may.csv', date: new Date(2024, 4, 2) }),
+      createTransaction({ sourceFile: 'june.csv', date: new Date(2024, 5, 28) }),
+    ])
+
+    expect(coverage?.start).toEqual(new Date(2024, 4, 2))
+    expect(coverage?.end).toEqual(new Date(2024, 5, 28))
+    expect(coverage?.files).toHaveLength(2)
+    expect(coverage?.gaps).toHaveLength(1)
+  })
+})
@@ -0,0 +1,134 @@
+import type { Transaction } from '../types'
+import type {
+  CoverageGap,
+  CoverageOverlap,
+  DuplicateGroup,
+  FileCoverage,
+  StatementCoverage,
+} from '../types/report'
+import { getAllMonthsInRange } from './contributions'
+import { findMissingMonths, findMissingWeeks, getAllWeeksInRange, getDateRange } from './dataQuality'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Shortest stretch between files reported as a gap. Shorter ones are usually
+ * just quiet days at the edge of a statement.
+ */
+export const MIN_GAP_DAYS = 7
+
+/**
+ * Start of the local day, shifted by a number of days.
+ */
+function startOfDay(date: Date, offsetDays: number = 0): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + offsetDays)
+}
+
+/**
+ * Whole days from one day to another.
+ */
+function daysBetween(from: Date, to: Date): number {
+  return Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / DAY_MS)
+}
+
+/**
+ * Get the dates each source file covers, by start date.
+ */
+export function getFileCoverage(transactions: Transaction[]): FileCoverage[] {
+  const byFile = new Map<string, Transaction[]>()
+
+  for (const t of transactions) {
+    const existing = byFile.get(t.sourceFile) || []
+    existing.push(t)
+    byFile.set(t.sourceFile, existing)
+  }
+
+  return [...byFile].map(([sourceFile, fileTransactions]) => {
+    const { start, end } = getDateRange(fileTransactions)!
+    return { sourceFile, start, end, transactionCount: fileTransactions.length }
+  }).sort((a, b) => a.start.getTime() - b.start.getTime())
+}
+
+/**
+ * Find the dates covered by more than one file, counting the duplicate
+ * groups each pair of files shares.
+ */
+export function findCoverageOverlaps(
+  files: FileCoverage[],
+  duplicateGroups: DuplicateGroup[] = []
+): CoverageOverlap[] {
+  const overlaps: CoverageOverlap[] = []
+
+  for (let i = 0; i < files.length; i++) {
+    for (let j = i + 1; j < files.length; j++) {
+      const a = files[i]
+      const b = files[j]
+      const start = a.start > b.start ? a.start : b.start
+      const end = a.end < b.end ? a.end : b.end
+      if (start > end) continue
+
+      const shared = duplicateGroups.filter(g =>
+        g.transactions.some(t => t.sourceFile === a.sourceFile) &&
+        g.transactions.some(t => t.sourceFile === b.sourceFile)
+      )
+      overlaps.push({ files: [a.sourceFile, b.sourceFile], start, end, duplicateGroups: shared.length })
+    }
+  }
+
+  return overlaps.sort((a, b) => a.start.getTime() - b.start.getTime())
+}
+
+/**
+ * Find stretches of at least minDays that no file covers, with the weeks and
+ * months in them that have no transactions at all.
+ */
+export function findCoverageGaps(
+  transactions: Transaction[],
+  files: FileCoverage[],
+  minDays: number = MIN_GAP_DAYS
+): CoverageGap[] {
+  const gaps: CoverageGap[] = []
+  let coveredUntil: Date | null = null
+
+  for (const file of files) {
+    if (coveredUntil && daysBetween(coveredUntil, file.start) - 1 >= minDays) {
+      const start = startOfDay(coveredUntil, 1)
+      const end = startOfDay(file.start, -1)
+      gaps.push({
+        start,
+        end,
+        missingWeeks: findMissingWeeks(transactions, getAllWeeksInRange(start, end)),
+        missingMonths: findMissingMonths(transactions, getAllMonthsInRange(start, end)),
+      })
+    }
+    if (!coveredUntil || file.end > coveredUntil) {
+      coveredUntil = file.end
+    }
+  }
+
+  return gaps
+}
+
+/**
+ * Calculate which dates each statement file covers, where files overlap and
+ * where there are gaps between them.
+ *
+ * @param transactions - Transactions from all files, before deduplication
+ * @param duplicateGroups - Duplicate groups, counted against the overlaps they fall in
+ * @returns The coverage, or null without transactions
+ */
+export function calculateCoverage(
+  transactions: Transaction[],
+  duplicateGroups: DuplicateGroup[] = []
+): StatementCoverage | null {
+  const range = getDateRange(transactions)
+  if (!range) return null
+
+  const files = getFileCoverage(transactions)
+  return {
+    ...range,
+    files,
+    overlaps: findCoverageOverlaps(files, duplicateGroups),
+    gaps: findCoverageGaps(transactions, files),
+  }
+}
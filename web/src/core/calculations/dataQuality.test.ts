@@ -7,6 +7,7 @@ import {
   getDateRange,
   countSourceFiles,
   calculateDataQuality,
+  findBalanceGaps,
   getTransactionCountsByMonth,
 } from './dataQuality'
 import type { Transaction } from '../types'
@@ -113,6 +114,86 @@ describe('countSourceFiles', () => {
   })
 })
 
+describe('findBalanceGaps', () => {
+  it('finds no gaps in a continuous balance chain', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'a', date: new Date('2024-05-01'), amount: -39.99, balance: 123.45 }),
+      createTransaction({ id: 'b', date: new Date('2024-05-10'), amount: 800, balance: 923.45 }),
+      createTransaction({ id: 'c', date: new Date('2024-05-13'), amount: -64.39, balance: 859.06 }),
+    ]
+
+    expect(findBalanceGaps(transactions)).toHaveLength(0)
+  })
+
+  it('reports a break with the size of the gap', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'a', date: new Date('2024-05-01'), amount: -39.99, balance: 123.45 }),
+      createTransaction({ id: 'b', date: new Date('2024-05-20'), amount: 800, balance: 873.45 }),
+    ]
+
+    const gaps = findBalanceGaps(transactions)
+
+    expect(gaps).toHaveLength(1)
+    expect(gaps[0].after).toEqual(new Date('2024-05-01'))
+    expect(gaps[0].before).toEqual(new Date('2024-05-20'))
+    expect(gaps[0].expectedBalance).toBeCloseTo(123.45)
+    expect(gaps[0].actualBalance).toBeCloseTo(73.45)
+    expect(gaps[0].difference).toBeCloseTo(-50)
+  })
+
+  it('follows balances within a day regardless of row order', () => {
+    // Newest-first within the day, as some exports list them
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'a', date: new Date('2024-05-01'), amount: -10, balance: 100 }),
+      createTransaction({ id: 'c', date: new Date('2024-05-02'), amount: -5, balance: 115 }),
+      createTransaction({ id: 'b', date: new Date('2024-05-02'), amount: 20, balance: 120 }),
+    ]
+
+    expect(findBalanceGaps(transactions)).toHaveLength(0)
+  })
+
+  it('ignores transactions without a balance', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'a', date: new Date('2024-05-01'), amount: -10, balance: 100 }),
+      createTransaction({ id: 'x', date: new Date('2024-05-02'), amount: -999 }),
+      createTransaction({ id: 'b', date: new Date('2024-05-03'), amount: -20, balance: 80 }),
+    ]
+
+    expect(findBalanceGaps(transactions)).toHaveLength(0)
+  })
+
+  it('tolerates floating point error', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'a', date: new Date('2024-05-01'), amount: 0.1, balance: 0.1 }),
+      createTransaction({ id: 'b', date: new Date('2024-05-02'), amount: 0.2, balance: 0.3 }),
+    ]
+
+    expect(findBalanceGaps(transactions)).toHaveLength(0)
+  })
+
+  it('reconciles each account and currency on its own', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'a', date: new Date('2024-05-01'), amount: -10, balance: 100, currency: 'EUR', sourceFile: 'eur.csv' }),
+      createTransaction({ id: 'x', date: new Date('2024-05-02'), amount: -50, balance: 4950, currency: 'SEK', sourceFile: 'sek.csv' }),
+      createTransaction({ id: 'b', date: new Date('2024-05-03'), amount: -20, balance: 80, currency: 'EUR', sourceFile: 'eur.csv' }),
+      createTransaction({ id: 'y', date: new Date('2024-05-04'), amount: -50, balance: 4900, currency: 'SEK', sourceFile: 'sek.csv' }),
+      createTransaction({ id: 'c', date: new Date('2024-05-05'), amount: -5, balance: 500, senderAccount: 'FI11 1111', sourceFile: 'savings.csv' }),
+      createTransaction({ id: 'd', date: new Date('2024-05-06'), amount: -5, balance: 495, senderAccount: 'FI11 1111', sourceFile: 'savings.csv' }),
+    ]
+
+    expect(findBalanceGaps(transactions)).toHaveLength(0)
+  })
+
+  it('names the account of a break', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'a', date: new Date('2024-05-01'), amount: -10, balance: 100, senderAccount: 'FI11 1111' }),
+      createTransaction({ id: 'b', date: new Date('2024-05-03'), amount: -20, balance: 50, senderAccount: 'FI11 1111' }),
+    ]
+
+    expect(findBalanceGaps(transactions).map(g => g.account)).toEqual(['FI111111'])
+  })
+})
+
 describe('calculateDataQuality', () => {
   it('calculates complete data quality metrics', () => {
     const transactions: Transaction[] = [
@@ -135,6 +216,7 @@ describe('calculateDataQuality', () => {
 
     expect(quality.totalTransactions).toBe(0)
     expect(quality.missingWeeks).toHaveLength(0)
+    expect(quality.balanceGaps).toHaveLength(0)
   })
 })
 
@@ -1,6 +1,11 @@
-import type { Transaction } from '../types'
-import type { DataQuality } from '../types/report'
+import {
+  getBookedAmount,
+  getBookedBalance,
+  type Transaction,
+} from '../types'
+import type { BalanceGap, DataQuality } from '../types/report'
 import { formatMonth, getAllMonthsInRange } from './contributions'
+import { balancesMatch, orderByBalance, splitByAccount } from './balance'
 
 /**
  * Format a date as ISO week: "YYYY-WW"
@@ -77,6 +82,44 @@ export function countSourceFiles(transactions: Transaction[]): number {
   return new Set(transactions.map(t => t.sourceFile)).size
 }
 
+/**
+ * Reconcile running balances: each transaction's balance should equal the
+ * previous balance plus its amount. Breaks mean transactions are missing.
+ * Only transactions carrying a booked balance are checked, in the account's
+ * own currency, and each account is reconciled on its own.
+ *
+ * @param transactions - Deduplicated transactions
+ * @returns Breaks in the balance chain, oldest first
+ */
+export function findBalanceGaps(transactions: Transaction[]): BalanceGap[] {
+  const gaps: BalanceGap[] = []
+
+  for (const series of splitByAccount(transactions)) {
+    const withBalance = orderByBalance(series.transactions).filter(t => getBookedBalance(t) !== undefined)
+
+    for (let i = 1; i < withBalance.length; i++) {
+      const previous = withBalance[i - 1]
+      const next = withBalance[i]
+      const expectedBalance = getBookedBalance(previous)!
+      const actualBalance = getBookedBalance(next)! - getBookedAmount(next)
+
+      if (!balancesMatch(expectedBalance, actualBalance)) {
+        gaps.push({
+          after: previous.date,
+          before: next.date,
+          expectedBalance,
+          actualBalance,
+          difference: actualBalance - expectedBalance,
+          currency: series.currency,
+          ...(series.account && { account: series.account }),
+        })
+      }
+    }
+  }
+
+  return gaps.sort((a, b) => a.before.getTime() - b.before.getTime())
+}
+
 /**
  * Calculate complete data quality metrics.
  */
@@ -97,6 +140,7 @@ export function calculateDataQuality(
       duplicatesRemoved,
       missingWeeks: [],
       missingMonths: [],
+      balanceGaps: [],
     }
   }
 
@@ -116,6 +160,7 @@ export function calculateDataQuality(
     duplicatesRemoved,
     missingWeeks: findMissingWeeks(transactions, allWeeks),
     missingMonths: findMissingMonths(transactions, allMonths),
+    balanceGaps: findBalanceGaps(transactions),
   }
 }
 
@@ -2,3 +2,6 @@ export * from './contributions'
 export * from './spending'
 export * from './cashflow'
 export * from './dataQuality'
+export * from './balance'
+export * from './report'
+export * from './coverage'
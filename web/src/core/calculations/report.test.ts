@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest'
+import { buildReport } from './report'
+import type { Transaction } from '../types'
+
+function createTransaction(overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    id: 'test-0',
+    date: new Date('2024-05-10'),
+    amount: -100,
+    title: 'TEST',
+    name: '',
+    referenceNumber: '',
+    message: '',
+    sourceFile: 'test.csv',
+    ...overrides,
+  }
+}
+
+describe('buildReport', () => {
+  const transactions: Transaction[] = [
+    createTransaction({ id: 'a', date: new Date('2024-05-01'), amount: 800, name: 'ALEX', contributor: 'ALEX', balance: 1800 }),
+    createTransaction({ id: 'b', date: new Date('2024-05-10'), amount: -60, category: 'Groceries', balance: 1740 }),
+    createTransaction({ id: 'c', date: new Date('2024-06-02'), amount: -200, isInternal: true, balance: 1540 }),
+    createTransaction({ id: 'd', date: new Date('2024-06-15'), amount: -40, balance: 1500 }),
+  ]
+
+  const report = buildReport({
+    transactions,
+    contributors: ['ALEX'],
+    duplicatesRemoved: 2,
+    openingBalance: null,
+    majorGroups: { Groceries: 'Food' },
+  })
+
+  it('covers every month in the range', () => {
+    expect(report.cashFlow.monthly.map(m => m.month)).toEqual(['2024-05', '2024-06'])
+  })
+
+  it('totals spending by category, leaving out internal transfers', () => {
+    expect(report.spending.byCategory.get('Groceries')).toBe(60)
+    expect(report.spending.uncategorizedCount).toBe(1)
+  })
+
+  it('also totals spending by major group', () => {
+    expect(report.spending.byMajorGroup.get('Food')).toBe(60)
+    expect(report.spending.monthlyByMajorGroup.find(s => s.month === '2024-05' && s.category === 'Food')?.amount)
+      .toBe(60)
+  })
+
+  it('sums contributions per contributor', () => {
+    expect(report.contributions.contributors[0].total).toBe(800)
+  })
+
+  it('takes the opening balance from the statements', () => {
+    expect(report.cashFlow.openingBalance).toBe(1000)
+  })
+
+  it('falls back to the entered opening balance', () => {
+    const withoutBalances = transactions.map(t => ({ ...t, balance: undefined }))
+
+    const result = buildReport({
+      transactions: withoutBalances,
+      contributors: [],
+      duplicatesRemoved: 0,
+      openingBalance: 500,
+      majorGroups: {},
+    })
+
+    expect(result.cashFlow.openingBalance).toBe(500)
+  })
+
+  it('lists internal transfers separately', () => {
+    expect(report.transfers.transactions.map(t => t.id)).toEqual(['c'])
+  })
+
+  it('records how many duplicates were removed', () => {
+    expect(report.dataQuality.duplicatesRemoved).toBe(2)
+  })
+})
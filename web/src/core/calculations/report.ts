@@ -0,0 +1,98 @@
+import type { MajorGroups, Transaction } from '../types'
+import type { ReportData } from '../types/report'
+import {
+  getAllMonthsInRange,
+  calculateMonthlyContributions,
+  calculateCumulativeContributions,
+  calculateContributorSummaries,
+  calculateEqualisation,
+} from './contributions'
+import { calculateCategoryTotals, calculateMonthlySpending, calculateUncategorizedTotals } from './spending'
+import { calculateMonthlyCashFlow, calculateTotals, calculateInternalTransfers } from './cashflow'
+import { calculateDataQuality } from './dataQuality'
+import { getOpeningBalance } from './balance'
+
+/**
+ * Everything the report is built from.
+ */
+export interface ReportInput {
+  transactions: Transaction[]     // Deduplicated, tagged and categorized, oldest first
+  contributors: string[]          // Selected contributor names
+  duplicatesRemoved: number
+  openingBalance: number | null   // Entered by the user; statement balances win
+  majorGroups: MajorGroups        // Category -> the major group it rolls up into
+}
+
+/**
+ * Build the full report from the cleaned transactions.
+ */
+export function buildReport({
+  transactions,
+  contributors,
+  duplicatesRemoved,
+  openingBalance,
+  majorGroups,
+}: ReportInput): ReportData {
+  const dateRange = {
+    start: transactions[0]?.date || new Date(),
+    end: transactions[transactions.length - 1]?.date || new Date(),
+  }
+
+  const allMonths = getAllMonthsInRange(dateRange.start, dateRange.end)
+
+  // Transfers between our own accounts are neither contributions nor spending
+  const spendable = transactions.filter(t => !t.isInternal)
+
+  // Contributions
+  const monthlyContributions = calculateMonthlyContributions(spendable, contributors, allMonths)
+  const cumulativeContributions = calculateCumulativeContributions(monthlyContributions, contributors)
+  const contributorSummaries = calculateContributorSummaries(spendable, contributors, allMonths.length)
+  const equalisation = calculateEqualisation(contributorSummaries)
+
+  // Spending
+  const monthlySpending = calculateMonthlySpending(spendable, allMonths)
+  const uncategorized = calculateUncategorizedTotals(spendable)
+  const monthlyByMajorGroup = calculateMonthlySpending(spendable, allMonths, majorGroups)
+
+  // Category totals
+  const categoryTotals = new Map<string, number>()
+  for (const item of monthlySpending) {
+    const current = categoryTotals.get(item.category) || 0
+    categoryTotals.set(item.category, current + item.amount)
+  }
+
+  // Cash flow - all transactions, as internal transfers still move the balance
+  // Statement balances win over a balance the user entered earlier
+  const monthlyCashFlow = calculateMonthlyCashFlow(transactions, allMonths, openingBalance ?? 0)
+  const knownBalance = getOpeningBalance(transactions) ?? openingBalance
+  const startingBalance = knownBalance === null ? null : monthlyCashFlow[0]?.openingBalance ?? knownBalance
+  const totals = calculateTotals(transactions)
+
+  return {
+    dataQuality: calculateDataQuality(transactions, duplicatesRemoved),
+    contributions: {
+      contributors: contributorSummaries,
+      monthly: monthlyContributions,
+      cumulative: cumulativeContributions,
+      totalDifference: equalisation.difference,
+      equalisationAmount: equalisation.equalisationAmount,
+    },
+    spending: {
+      byCategory: categoryTotals,
+      monthly: monthlySpending,
+      byMajorGroup: calculateCategoryTotals(spendable, majorGroups),
+      monthlyByMajorGroup,
+      uncategorized: uncategorized.transactions,
+      uncategorizedTotal: uncategorized.total,
+      uncategorizedCount: uncategorized.count,
+    },
+    cashFlow: {
+      monthly: monthlyCashFlow,
+      totalIncome: totals.totalIncome,
+      totalOutgoings: totals.totalOutgoings,
+      netBalance: totals.netBalance,
+      openingBalance: startingBalance,
+    },
+    transfers: calculateInternalTransfers(transactions),
+  }
+}
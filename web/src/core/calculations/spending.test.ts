@@ -61,6 +61,21 @@ describe('calculateMonthlySpending', () => {
 
     expect(result).toHaveLength(0)
   })
+
+  it('rolls categories up into their major groups', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'a', amount: -40, category: 'Lidl' }),
+      createTransaction({ id: 'b', amount: -60, category: 'Alepa' }),
+      createTransaction({ id: 'c', amount: -15, category: 'Netflix' }),
+    ]
+
+    const result = calculateMonthlySpending(transactions, ['2024-05'], { Lidl: 'Groceries', Alepa: 'Groceries' })
+
+    expect(result).toEqual([
+      { month: '2024-05', category: 'Groceries', amount: 100, count: 2 },
+      { month: '2024-05', category: 'Netflix', amount: 15, count: 1 },
+    ])
+  })
 })
 
 describe('calculateCategoryTotals', () => {
@@ -76,6 +91,18 @@ describe('calculateCategoryTotals', () => {
     expect(totals.get('Groceries')).toBe(300)
     expect(totals.get('Entertainment')).toBe(50)
   })
+
+  it('totals per major group when given major groups', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'a', amount: -100, category: 'Lidl' }),
+      createTransaction({ id: 'b', amount: -200, category: 'Alepa' }),
+      createTransaction({ id: 'c', amount: -50 }),
+    ]
+
+    const totals = calculateCategoryTotals(transactions, { Lidl: 'Groceries', Alepa: 'Groceries' })
+
+    expect(Array.from(totals)).toEqual([['Groceries', 300], ['Uncategorized', 50]])
+  })
 })
 
 describe('getUncategorizedTransactions', () => {
@@ -1,17 +1,28 @@
-import type { Transaction } from '../types'
+import { getMajorGroup, type MajorGroups, type Transaction } from '../types'
 import type { MonthlySpending } from '../types/report'
 import { formatMonth } from './contributions'
 
+/**
+ * The category a transaction's spending counts towards: its own category,
+ * or the major group that rolls up into when major groups are given.
+ */
+function getSpendingCategory(t: Transaction, majorGroups?: MajorGroups): string {
+  const category = t.category || 'Uncategorized'
+  return majorGroups ? getMajorGroup(category, majorGroups) : category
+}
+
 /**
  * Calculate monthly spending by category.
  *
  * @param transactions - Transactions with category field populated
  * @param allMonths - All months to include
+ * @param majorGroups - Roll categories up into their major groups; by category when omitted
  * @returns Monthly spending data sorted by month then category
  */
 export function calculateMonthlySpending(
   transactions: Transaction[],
-  allMonths: string[]
+  allMonths: string[],
+  majorGroups?: MajorGroups
 ): MonthlySpending[] {
   // Filter to expenses only
   const expenses = transactions.filter(t => t.amount < 0)
@@ -19,7 +30,7 @@ export function calculateMonthlySpending(
   // Get all unique categories (including "Uncategorized" for those without)
   const categories = new Set<string>()
   for (const t of expenses) {
-    categories.add(t.category || 'Uncategorized')
+    categories.add(getSpendingCategory(t, majorGroups))
   }
 
   // Group by month and category
@@ -27,7 +38,7 @@ export function calculateMonthlySpending(
 
   for (const t of expenses) {
     const month = formatMonth(t.date)
-    const category = t.category || 'Uncategorized'
+    const category = getSpendingCategory(t, majorGroups)
     const key = `${month}|${category}`
 
     const existing = data.get(key) || { amount: 0, count: 0 }
@@ -64,17 +75,19 @@ export function calculateMonthlySpending(
 }
 
 /**
- * Calculate total spending per category (all time).
+ * Calculate total spending per category (all time), or per major group
+ * when major groups are given.
  */
 export function calculateCategoryTotals(
-  transactions: Transaction[]
+  transactions: Transaction[],
+  majorGroups?: MajorGroups
 ): Map<string, number> {
   const totals = new Map<string, number>()
 
   for (const t of transactions) {
     if (t.amount >= 0) continue // Only expenses
 
-    const category = t.category || 'Uncategorized'
+    const category = getSpendingCategory(t, majorGroups)
     totals.set(category, (totals.get(category) || 0) + Math.abs(t.amount))
   }
 
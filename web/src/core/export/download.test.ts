@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest'
+import { transactionsToNordeaCSV } from './download'
+import { parseNordeaCSV, parseOPCSV } from '../parsers'
+import { findDuplicates } from '../processors'
+
+const OP_CSV = `Kirjauspäivä;Arvopäivä;Määrä EUROA;Laji;Selitys;Saaja/Maksaja;Saajan tilinumero;Viite;Viesti;Arkistointitunnus
+01.05.2024;01.05.2024;-39,99;162;KORTTIOSTO;FAT LIZARD OTANIEMI;;;'Viesti: 789 HELSINKI';20240501593497TQ0001
+10.05.2024;10.05.2024;+800,00;710;TILISIIRTO;ALEX ROWAN NGUYEN;FI69 2000 4200 0420 42 NDEAFIHH;;;20240510ABCD1234X002
+10.05.2024;10.05.2024;-4,50;162;KORTTIOSTO;HSL;;;;20240510593497TQ0003
+10.05.2024;10.05.2024;-4,50;162;KORTTIOSTO;HSL;;;;20240510593497TQ0004`
+
+describe('transactionsToNordeaCSV', () => {
+  const original = parseOPCSV(OP_CSV, 'op-202405.csv')
+  const reimported = parseNordeaCSV(transactionsToNordeaCSV(original, 'EUR'), '202405-transactions.csv')
+
+  it('re-imports with the same IDs', () => {
+    expect(reimported.map(t => t.id)).toEqual(original.map(t => t.id))
+  })
+
+  it('keeps the bank-assigned IDs', () => {
+    expect(reimported.map(t => t.externalId)).toEqual(original.map(t => t.externalId))
+  })
+
+  it('matches the re-imported export against the original statement', () => {
+    const groups = findDuplicates([...original, ...reimported])
+
+    expect(groups).toHaveLength(original.length)
+  })
+})
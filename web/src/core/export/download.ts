@@ -1,5 +1,14 @@
 import JSZip from 'jszip'
-import type { Transaction, CategoryMapping } from '../types'
+import {
+  DEFAULT_CURRENCY,
+  getAccountCurrency,
+  getBookedAmount,
+  getBookedBalance,
+  type Transaction,
+  type CategoryMapping,
+  type ExchangeRate,
+  type GroupingsFile,
+} from '../types'
 import type { ReportData } from '../types/report'
 
 /**
@@ -37,11 +46,25 @@ function getYearMonth(date: Date): string {
   return `${year}${month}`
 }
 
+/**
+ * Format a Date as ISO "YYYY-MM-DD".
+ */
+function formatISODate(date: Date): string {
+  const year = date.getFullYear()
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${year}-${month}-${day}`
+}
+
 /**
  * Generate a Nordea-format CSV string from transactions.
  * Uses semicolon delimiter and European decimal format.
+ * Amount, Balance and Currency are as booked on the statement, so the file
+ * re-imports unchanged; the converted amount, the transaction ID and the
+ * bank-assigned ID follow in extra columns. The Nordea parser reads the IDs
+ * back, so a re-imported export keeps its IDs and duplicate decisions.
  */
-function transactionsToNordeaCSV(transactions: Transaction[]): string {
+export function transactionsToNordeaCSV(transactions: Transaction[], baseCurrency: string): string {
   const headers = [
     'Booking date',
     'Amount',
@@ -53,19 +76,25 @@ function transactionsToNordeaCSV(transactions: Transaction[]): string {
     'Reference number',
     'Balance',
     'Currency',
+    `Amount (${baseCurrency})`,
+    'Transaction ID',
+    'External ID',
   ]
 
   const rows = transactions.map(t => [
     formatNordeaDate(t.date),
-    formatEuropeanDecimal(t.amount),
-    '', // Sender - not stored
-    '', // Recipient - not stored
+    formatEuropeanDecimal(getBookedAmount(t)),
+    t.senderAccount ?? '',
+    t.recipientAccount ?? '',
     t.name,
     t.title,
     t.message,
     t.referenceNumber,
-    '', // Balance - not stored
-    'EUR',
+    getBookedBalance(t) !== undefined ? formatEuropeanDecimal(getBookedBalance(t)!) : '',
+    getAccountCurrency(t),
+    formatEuropeanDecimal(t.amount),
+    t.id,
+    t.externalId ?? '',
   ])
 
   return [headers.join(';'), ...rows.map(r => r.join(';'))].join('\n')
@@ -87,16 +116,53 @@ function groupTransactionsByMonth(transactions: Transaction[]): Map<string, Tran
   return groups
 }
 
+/**
+ * Generate the exchange rate table in the format it is loaded from.
+ */
+function ratesToCSV(rates: ExchangeRate[]): string {
+  const rows = rates.map(r => `${formatISODate(r.date)},${r.currency},${r.rate}`)
+  return ['date,currency,rate', ...rows].join('\n')
+}
+
+/**
+ * The settings saved in the groupings file; the version and dates are
+ * added when it is written.
+ */
+export type GroupingsSettings = Omit<GroupingsFile, 'version' | 'createdAt' | 'lastUsed'>
+
+/**
+ * Everything the export ZIP is built from.
+ */
+export interface ReportExportInput {
+  transactions: Transaction[]     // Cleaned transactions, one CSV per month
+  report: ReportData
+  groupings: GroupingsSettings    // Saved as groupings.json for re-import
+  exchangeRates: ExchangeRate[]   // Saved alongside when any were used
+}
 
 /**
  * Generate category mappings JSON in GroupingsFile format.
- * This format can be re-imported on the landing screen.
+ * This format can be re-imported on the landing screen. Optional settings
+ * left at their defaults are left out.
  */
-function mappingsToJSON(mappings: CategoryMapping[], contributors: string[]): string {
-  const groupingsFile = {
-    version: 1,
+function mappingsToJSON({
+  contributors,
+  categories,
+  csvProfiles = [],
+  ownAccounts = [],
+  baseCurrency = DEFAULT_CURRENCY,
+  duplicateDecisions = [],
+  majorGroups = {},
+}: GroupingsSettings): string {
+  const groupingsFile: GroupingsFile = {
+    version: 2,
     contributors,
-    categories: mappings,
+    categories,
+    ...(csvProfiles.length > 0 && { csvProfiles }),
+    ...(ownAccounts.length > 0 && { ownAccounts }),
+    ...(baseCurrency !== DEFAULT_CURRENCY && { baseCurrency }),
+    ...(duplicateDecisions.length > 0 && { duplicateDecisions }),
+    ...(Object.keys(majorGroups).length > 0 && { majorGroups }),
     createdAt: new Date().toISOString(),
     lastUsed: new Date().toISOString(),
   }
@@ -105,15 +171,17 @@ function mappingsToJSON(mappings: CategoryMapping[], contributors: string[]): st
 }
 
 /**
- * Create and download a ZIP file with clean Nordea-format CSVs (one per month) and groupings.
+ * Create and download a ZIP file with clean Nordea-format CSVs (one per month) and groupings,
+ * plus the exchange rate table when one was used.
  */
-export async function downloadReportZIP(
-  transactions: Transaction[],
-  mappings: CategoryMapping[],
-  report: ReportData,
-  contributors: string[]
-): Promise<void> {
+export async function downloadReportZIP({
+  transactions,
+  report,
+  groupings,
+  exchangeRates,
+}: ReportExportInput): Promise<void> {
   const zip = new JSZip()
+  const baseCurrency = groupings.baseCurrency ?? DEFAULT_CURRENCY
 
   // Group transactions by month and add as Nordea-format CSVs
   const monthlyGroups = groupTransactionsByMonth(transactions)
@@ -123,11 +191,15 @@ export async function downloadReportZIP(
     const monthTransactions = monthlyGroups.get(ym)!
     // Sort by date within month
     monthTransactions.sort((a, b) => a.date.getTime() - b.date.getTime())
-    zip.file(`${ym}-transactions.csv`, transactionsToNordeaCSV(monthTransactions))
+    zip.file(`${ym}-transactions.csv`, transactionsToNordeaCSV(monthTransactions, baseCurrency))
   }
 
   // Add groupings file for re-import
-  zip.file('groupings.json', mappingsToJSON(mappings, contributors))
+  zip.file('groupings.json', mappingsToJSON(groupings))
+
+  if (exchangeRates.length > 0) {
+    zip.file('exchange-rates.csv', ratesToCSV(exchangeRates))
+  }
 
   // Generate ZIP blob
   const blob = await zip.generateAsync({ type: 'blob' })
@@ -0,0 +1,243 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { parseCamtXML } from './camt'
+import { CSVParseError } from './nordea'
+import { parseStatement } from './registry'
+
+// Sample camt.053 statement (trimmed to the fields we read)
+const CAMT_053 = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <GrpHdr><MsgId>MSG1</MsgId><CreDtTm>2024-06-01T08:00:00</CreDtTm></GrpHdr>
+    <Stmt>
+      <Id>STMT1</Id>
+      <Acct><Id><IBAN>FI6920004200042042</IBAN></Id></Acct>
+      <Ntry>
+        <NtryRef>1</NtryRef>
+        <Amt Ccy="EUR">39.99</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2024-05-01</Dt></BookgDt>
+        <ValDt><Dt>2024-05-01</Dt></ValDt>
+        <AcctSvcrRef>20240501ABC001</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <RltdPties>
+            <Cdtr><Nm>FAT LIZARD OTANIEMI</Nm></Cdtr>
+          </RltdPties>
+          <RmtInf><Ustrd>HELSINKI</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <NtryRef>2</NtryRef>
+        <Amt Ccy="EUR">800.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2024-05-10</Dt></BookgDt>
+        <AcctSvcrRef>20240510ABC002</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <RltdPties>
+            <Dbtr><Nm>ALEX ROWAN NGUYEN</Nm></Dbtr>
+            <DbtrAcct><Id><IBAN>FI9876543210987654</IBAN></Id></DbtrAcct>
+            <Cdtr><Nm>JOINT ACCOUNT</Nm></Cdtr>
+          </RltdPties>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">120.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><DtTm>2024-05-15T10:30:00</DtTm></BookgDt>
+        <AcctSvcrRef>20240515ABC003</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <RltdPties><Cdtr><Pty><Nm>HELEN OY</Nm></Pty></Cdtr></RltdPties>
+          <RmtInf>
+            <Strd><CdtrRefInf><Ref>00012345672</Ref></CdtrRefInf></Strd>
+          </RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">5.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>PDNG</Sts>
+        <BookgDt><Dt>2024-05-31</Dt></BookgDt>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">2.50</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts><Cd>BOOK</Cd></Sts>
+        <BookgDt><Dt>2024-05-31</Dt></BookgDt>
+        <AcctSvcrRef>20240531ABC005</AcctSvcrRef>
+        <AddtlNtryInf>PALVELUMAKSU</AddtlNtryInf>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`
+
+// Sample camt.054 notification with a namespace prefix
+const CAMT_054 = `<?xml version="1.0" encoding="UTF-8"?>
+<ns:Document xmlns:ns="urn:iso:std:iso:20022:tech:xsd:camt.054.001.02">
+  <ns:BkToCstmrDbtCdtNtfctn>
+    <ns:Ntfctn>
+      <ns:Ntry>
+        <ns:Amt Ccy="EUR">64.39</ns:Amt>
+        <ns:CdtDbtInd>DBIT</ns:CdtDbtInd>
+        <ns:Sts>BOOK</ns:Sts>
+        <ns:BookgDt><ns:Dt>2024-05-10</ns:Dt></ns:BookgDt>
+        <ns:NtryDtls><ns:TxDtls>
+          <ns:Refs><ns:AcctSvcrRef>TX-REF-1</ns:AcctSvcrRef></ns:Refs>
+          <ns:RltdPties><ns:Cdtr><ns:Nm>ALEPA VUOSAARI</ns:Nm></ns:Cdtr></ns:RltdPties>
+        </ns:TxDtls></ns:NtryDtls>
+      </ns:Ntry>
+    </ns:Ntfctn>
+  </ns:BkToCstmrDbtCdtNtfctn>
+</ns:Document>`
+
+describe('parseCamtXML', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('parses booked entries from camt.053', () => {
+    const transactions = parseCamtXML(CAMT_053, 'statement.xml')
+
+    expect(transactions).toHaveLength(4)
+  })
+
+  it('skips entries that are not booked', () => {
+    const transactions = parseCamtXML(CAMT_053, 'statement.xml')
+
+    expect(transactions.every(t => t.amount !== -5)).toBe(true)
+  })
+
+  it('includes source filename on each transaction', () => {
+    const transactions = parseCamtXML(CAMT_053, 'statements/2024-05.xml')
+
+    transactions.forEach(t => {
+      expect(t.sourceFile).toBe('statements/2024-05.xml')
+    })
+  })
+
+  it('parses booking dates from Dt and DtTm', () => {
+    const transactions = parseCamtXML(CAMT_053, 'statement.xml')
+
+    expect(transactions[0].date).toEqual(new Date(2024, 4, 1))
+    expect(transactions[2].date).toEqual(new Date(2024, 4, 15))
+  })
+
+  it('signs amounts by credit/debit indicator', () => {
+    const transactions = parseCamtXML(CAMT_053, 'statement.xml')
+
+    expect(transactions[0].amount).toBe(-39.99)
+    expect(transactions[1].amount).toBe(800)
+  })
+
+  it('uses creditor for debits and debtor for credits as counterparty', () => {
+    const transactions = parseCamtXML(CAMT_053, 'statement.xml')
+
+    expect(transactions[0].title).toBe('FAT LIZARD OTANIEMI')
+    expect(transactions[1].title).toBe('ALEX ROWAN NGUYEN')
+    expect(transactions[1].name).toBe('ALEX ROWAN NGUYEN')
+  })
+
+  it('keeps statement and counterparty accounts', () => {
+    const transactions = parseCamtXML(CAMT_053, 'statement.xml')
+
+    expect(transactions[0].senderAccount).toBe('FI6920004200042042')
+    expect(transactions[0].recipientAccount).toBeUndefined()
+    expect(transactions[1].senderAccount).toBe('FI9876543210987654')
+    expect(transactions[1].recipientAccount).toBe('FI6920004200042042')
+  })
+
+  it('keeps the amount currency', () => {
+    const transactions = parseCamtXML(CAMT_053, 'statement.xml')
+
+    expect(transactions[0].currency).toBe('EUR')
+  })
+
+  it('reads party name nested under Pty', () => {
+    const transactions = parseCamtXML(CAMT_053, 'statement.xml')
+
+    expect(transactions[2].title).toBe('HELEN OY')
+  })
+
+  it('reads structured reference and unstructured message', () => {
+    const transactions = parseCamtXML(CAMT_053, 'statement.xml')
+
+    expect(transactions[2].referenceNumber).toBe('00012345672')
+    expect(transactions[0].message).toBe('HELSINKI')
+  })
+
+  it('falls back to additional entry info for title', () => {
+    const transactions = parseCamtXML(CAMT_053, 'statement.xml')
+
+    expect(transactions[3].title).toBe('PALVELUMAKSU')
+  })
+
+  it('keeps entry reference, scoped by the account, as external identifier', () => {
+    const transactions = parseCamtXML(CAMT_053, 'statement.xml')
+
+    expect(transactions[0].externalId).toBe('FI6920004200042042|20240501ABC001')
+    expect(transactions[1].externalId).toBe('FI6920004200042042|20240510ABC002')
+    expect(parseCamtXML(CAMT_054, 'notification.xml')[0].externalId).toBe('TX-REF-1')
+  })
+
+  it('tells apart entries with the same reference on different accounts', () => {
+    const statement = (iban: string) => `
+    <Stmt>
+      <Acct><Id><IBAN>${iban}</IBAN></Id></Acct>
+      <Ntry>
+        <NtryRef>1</NtryRef>
+        <Amt Ccy="EUR">10.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <BookgDt><Dt>2024-05-10</Dt></BookgDt>
+        <AddtlNtryInf>PALVELUMAKSU</AddtlNtryInf>
+      </Ntry>
+    </Stmt>`
+    const xml = `<Document><BkToCstmrStmt>${statement('FI6920004200042042')}${statement('FI9876543210987654')}</BkToCstmrStmt></Document>`
+
+    const transactions = parseCamtXML(xml, 'accounts.xml')
+
+    expect(transactions.map(t => t.externalId)).toEqual(['FI6920004200042042|1', 'FI9876543210987654|1'])
+    expect(new Set(transactions.map(t => t.id)).size).toBe(2)
+  })
+
+  it('parses camt.054 with namespace prefixes', () => {
+    const transactions = parseCamtXML(CAMT_054, 'notification.xml')
+
+    expect(transactions).toHaveLength(1)
+    expect(transactions[0].amount).toBe(-64.39)
+    expect(transactions[0].title).toBe('ALEPA VUOSAARI')
+    expect(transactions[0].externalId).toBe('TX-REF-1')
+  })
+
+  it('parses without DOMParser, as in the statement worker', () => {
+    vi.stubGlobal('DOMParser', undefined)
+    vi.stubGlobal('XMLSerializer', undefined)
+    expect(parseCamtXML(CAMT_053, 'stmt.xml')).toHaveLength(4)
+  })
+
+  it('throws CSVParseError on empty file', () => {
+    expect(() => parseCamtXML('', 'empty.xml')).toThrow(CSVParseError)
+  })
+
+  it('throws CSVParseError on malformed XML', () => {
+    expect(() => parseCamtXML('<Document><BkToCstmrStmt>', 'bad.xml')).toThrow(CSVParseError)
+  })
+
+  it('throws CSVParseError on other XML documents', () => {
+    expect(() => parseCamtXML('<Document><Other/></Document>', 'other.xml'))
+      .toThrow('Not a camt.053 or camt.054 document')
+  })
+
+  it('throws CSVParseError on invalid amount', () => {
+    const invalid = CAMT_054.replace('64.39', 'abc')
+
+    expect(() => parseCamtXML(invalid, 'bad.xml')).toThrow(CSVParseError)
+  })
+
+  it('is detected by the parser registry', () => {
+    const result = parseStatement(CAMT_053, 'statement.xml')
+
+    expect(result.format).toBe('ISO 20022 camt XML')
+    expect(result.transactions).toHaveLength(4)
+  })
+})
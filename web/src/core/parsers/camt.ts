@@ -0,0 +1,196 @@
+import { assignTransactionIds, type Transaction, type TransactionDraft } from '../types'
+import { CSVParseError } from './nordea'
+import { classifyRowError, skipRow } from './issues'
+import type { ParseOptions, StatementParser } from './types'
+import { parseXML, type XmlElement } from './xml'
+
+/**
+ * Root elements of the ISO 20022 cash management messages we read.
+ * - BkToCstmrStmt: camt.053 account statement
+ * - BkToCstmrDbtCdtNtfctn: camt.054 debit/credit notification
+ */
+const CAMT_ROOT = /<(?:[\w-]+:)?(BkToCstmrStmt|BkToCstmrDbtCdtNtfctn)[\s>]/
+
+/**
+ * Find a direct child element by local name (ignores namespace prefixes).
+ */
+function child(el: XmlElement | undefined, name: string): XmlElement | undefined {
+  return el?.children.find(c => c.localName === name)
+}
+
+/**
+ * Find all direct child elements with a local name.
+ */
+function children(el: XmlElement | undefined, name: string): XmlElement[] {
+  return el?.children.filter(c => c.localName === name) ?? []
+}
+
+/**
+ * Follow a path of child element names, e.g. path(ntry, 'BookgDt', 'Dt').
+ */
+function path(el: XmlElement | undefined, ...names: string[]): XmlElement | undefined {
+  return names.reduce<XmlElement | undefined>((current, name) => child(current, name), el)
+}
+
+/**
+ * Trimmed text content of an element, or '' if missing.
+ */
+function text(el: XmlElement | undefined): string {
+  return el?.text.trim() ?? ''
+}
+
+/**
+ * Parse an ISO date or date-time ("2024-05-10" / "2024-05-10T12:00:00") to a local date.
+ */
+function parseISODate(value: string): Date {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})/)
+  if (!match) {
+    throw new Error(`Invalid date format: "${value}"`)
+  }
+  const [, year, month, day] = match.map(Number)
+  return new Date(year, month - 1, day) // month is 0-indexed
+}
+
+/**
+ * Party name, which is Nm directly (camt.053.001.02) or under Pty (later versions).
+ */
+function partyName(party: XmlElement | undefined): string {
+  return text(child(party, 'Nm')) || text(path(party, 'Pty', 'Nm'))
+}
+
+/**
+ * Transform one <Ntry> element into a Transaction.
+ * Batch entries with several <TxDtls> are kept as a single transaction,
+ * using the first transaction's details for counterparty and remittance info.
+ */
+function entryToTransaction(
+  ntry: XmlElement,
+  filename: string,
+  account: string
+): TransactionDraft {
+  const amountElement = child(ntry, 'Amt')
+  const amountText = text(amountElement)
+  const amount = parseFloat(amountText)
+  const currency = amountElement?.attributes['Ccy']
+  if (isNaN(amount)) {
+    throw new Error(`Invalid number format: "${amountText}"`)
+  }
+
+  const isDebit = text(child(ntry, 'CdtDbtInd')) === 'DBIT'
+  const bookingDate = text(path(ntry, 'BookgDt', 'Dt')) || text(path(ntry, 'BookgDt', 'DtTm'))
+
+  const details = path(ntry, 'NtryDtls', 'TxDtls')
+  const parties = child(details, 'RltdPties')
+  // Outgoing money goes to the creditor, incoming comes from the debtor
+  const counterparty = partyName(child(parties, isDebit ? 'Cdtr' : 'Dbtr'))
+  const counterpartyAccount = text(path(parties, isDebit ? 'CdtrAcct' : 'DbtrAcct', 'Id', 'IBAN'))
+  const senderAccount = isDebit ? account : counterpartyAccount
+  const recipientAccount = isDebit ? counterpartyAccount : account
+
+  const remittance = child(details, 'RmtInf')
+  const message = children(remittance, 'Ustrd').map(text).join(' ')
+  const referenceNumber = text(path(remittance, 'Strd', 'CdtrRefInf', 'Ref'))
+
+  // Entry references are only unique within one account
+  const entryRef = text(child(ntry, 'AcctSvcrRef')) ||
+    text(path(details, 'Refs', 'AcctSvcrRef')) ||
+    text(child(ntry, 'NtryRef'))
+  const externalId = entryRef && account ? `${account}|${entryRef}` : entryRef
+
+  return {
+    date: parseISODate(bookingDate),
+    amount: isDebit ? -Math.abs(amount) : Math.abs(amount),
+    title: counterparty || text(child(ntry, 'AddtlNtryInf')) || text(child(details, 'AddtlTxInf')),
+    name: counterparty,
+    referenceNumber,
+    message,
+    sourceFile: filename,
+    ...(externalId && { externalId }),
+    ...(currency && { currency }),
+    ...(senderAccount && { senderAccount }),
+    ...(recipientAccount && { recipientAccount }),
+  }
+}
+
+/**
+ * Parse an ISO 20022 camt.053 statement or camt.054 notification into Transaction objects.
+ * Only booked entries are imported - pending entries may still change.
+ *
+ * @param xmlString - The raw XML content as a string
+ * @param filename - The name of the source file (for tracking)
+ * @param options - Pass onSkippedRow to skip bad entries instead of failing
+ * @returns Array of parsed Transaction objects
+ * @throws CSVParseError if the XML is invalid or is not a camt message
+ */
+export function parseCamtXML(
+  xmlString: string,
+  filename: string,
+  options: ParseOptions = {}
+): Transaction[] {
+  const trimmed = xmlString.trim()
+  if (!trimmed) {
+    throw new CSVParseError('XML file is empty', filename)
+  }
+
+  let root: XmlElement
+  try {
+    root = parseXML(trimmed)
+  } catch {
+    throw new CSVParseError('Parse error: file is not well-formed XML', filename)
+  }
+
+  const message = child(root, 'BkToCstmrStmt') || child(root, 'BkToCstmrDbtCdtNtfctn')
+  if (!message) {
+    throw new CSVParseError('Not a camt.053 or camt.054 document', filename)
+  }
+
+  // Statements (camt.053) or notifications (camt.054), each holding entries
+  const reports = [...children(message, 'Stmt'), ...children(message, 'Ntfctn')]
+  // Each report names the account its entries were booked on
+  const entries = reports.flatMap(report => {
+    const account = text(path(report, 'Acct', 'Id', 'IBAN'))
+    return children(report, 'Ntry').map(ntry => ({ ntry, account }))
+  })
+
+  const transactions: TransactionDraft[] = []
+
+  for (let i = 0; i < entries.length; i++) {
+    const { ntry, account } = entries[i]
+
+    // Skip pending/informational entries; status is <Sts>BOOK</Sts> or <Sts><Cd>BOOK</Cd></Sts>
+    const status = text(child(ntry, 'Sts'))
+    if (status && status !== 'BOOK') {
+      continue
+    }
+
+    try {
+      transactions.push(entryToTransaction(ntry, filename, account))
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      skipRow(
+        options,
+        filename,
+        i + 1,
+        classifyRowError(errorMessage),
+        `Failed to parse entry ${i + 1}: ${errorMessage}`,
+        ntry.source
+      )
+    }
+  }
+
+  if (transactions.length === 0) {
+    throw new CSVParseError('XML file contains no booked entries', filename)
+  }
+
+  return assignTransactionIds(transactions)
+}
+
+/**
+ * ISO 20022 camt.053 / camt.054 XML, recognised by its message root element.
+ */
+export const camtParser: StatementParser = {
+  id: 'camt',
+  label: 'ISO 20022 camt XML',
+  detect: sample => CAMT_ROOT.test(sample.content),
+  parse: (sample, options) => parseCamtXML(sample.content, sample.filename, options),
+}
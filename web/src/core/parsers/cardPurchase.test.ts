@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest'
+import { parseCardPurchase, addCardPurchaseDetails } from './cardPurchase'
+import type { Transaction } from '../types'
+
+function createTransaction(overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    id: 'test-0',
+    date: new Date('2024-05-10'),
+    amount: -39.99,
+    title: 'Fat Lizard Otaniemi - 789',
+    name: '',
+    referenceNumber: '654123',
+    message: 'HELSINKI',
+    sourceFile: 'test.csv',
+    ...overrides,
+  }
+}
+
+describe('parseCardPurchase', () => {
+  it('splits merchant, terminal number and city', () => {
+    expect(parseCardPurchase('Fat Lizard Otaniemi - 789', 'HELSINKI')).toEqual({
+      merchant: 'Fat Lizard Otaniemi',
+      terminal: '789',
+      city: 'HELSINKI',
+    })
+  })
+
+  it('keeps titles with a card number but no terminal number whole', () => {
+    expect(parseCardPurchase('LIDL HELSINKI HERTTONIEMI', '**** 1234')).toEqual({
+      merchant: 'LIDL HELSINKI HERTTONIEMI',
+      cardSuffix: '1234',
+    })
+  })
+
+  it.each([
+    ['Sun Koti Oy', 'VUOKRA'],
+    ['Nordea', 'PALVELUMAKSU'],
+    ['LIDL HELSINKI HERTTONIEMI', ''],
+  ])('returns null for %s without card or terminal number', (title, message) => {
+    expect(parseCardPurchase(title, message)).toBeNull()
+  })
+
+  it('finds the card suffix in a masked card number', () => {
+    const details = parseCardPurchase('ALEPA VUOSAARI', '4581 23** **** 1234 HELSINKI')
+
+    expect(details?.cardSuffix).toBe('1234')
+    expect(details?.city).toBe('HELSINKI')
+  })
+
+  it('finds the card suffix in the title', () => {
+    const details = parseCardPurchase('123456XXXXXX9876 PUOTILAN KARTANO', '')
+
+    expect(details).toEqual({ merchant: 'PUOTILAN KARTANO', cardSuffix: '9876' })
+  })
+
+  it('finds the original foreign currency amount', () => {
+    const details = parseCardPurchase('AMAZON MKTPLACE', 'Alkup. summa 12,50 USD Kurssi 1,0842')
+
+    expect(details?.foreignAmount).toBe(12.5)
+    expect(details?.foreignCurrency).toBe('USD')
+    expect(details?.city).toBeUndefined()
+  })
+
+  it('reads amounts written currency first', () => {
+    const details = parseCardPurchase('STEAM PURCHASE', 'SEK 1 234.00 STOCKHOLM')
+
+    expect(details?.foreignAmount).toBe(1234)
+    expect(details?.foreignCurrency).toBe('SEK')
+    expect(details?.city).toBe('STOCKHOLM')
+  })
+
+  it('ignores amounts in the account currency', () => {
+    expect(parseCardPurchase('HOTEL - 12', '99,00 EUR', 'EUR')?.foreignAmount).toBeUndefined()
+  })
+
+  it('does not take a free-text message as the city', () => {
+    expect(parseCardPurchase('SUN KOTI OY - 12', 'Rent for May')?.city).toBeUndefined()
+  })
+
+  it('returns null when nothing is left for a merchant', () => {
+    expect(parseCardPurchase('', '**** 1234 HELSINKI')).toBeNull()
+  })
+})
+
+describe('addCardPurchaseDetails', () => {
+  it('adds the details to an expense', () => {
+    const transaction = addCardPurchaseDetails(createTransaction())
+
+    expect(transaction.merchant).toBe('Fat Lizard Otaniemi')
+    expect(transaction.terminal).toBe('789')
+    expect(transaction.city).toBe('HELSINKI')
+    expect(transaction.title).toBe('Fat Lizard Otaniemi - 789')
+  })
+
+  it('leaves income and transfers to an account unchanged', () => {
+    const income = createTransaction({ amount: 800 })
+    const transfer = createTransaction({ recipientAccount: 'FI21 1234 5600 0007 85' })
+
+    expect(addCardPurchaseDetails(income)).toBe(income)
+    expect(addCardPurchaseDetails(transfer)).toBe(transfer)
+  })
+
+  it('leaves other expenses with all-caps messages unchanged', () => {
+    const rent = createTransaction({ title: 'Sun Koti Oy', message: 'VUOKRA' })
+    const fee = createTransaction({ title: 'PALVELUMAKSU', message: 'PALVELUMAKSU' })
+
+    expect(addCardPurchaseDetails(rent)).toBe(rent)
+    expect(addCardPurchaseDetails(fee)).toBe(fee)
+  })
+})
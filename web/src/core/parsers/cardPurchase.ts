@@ -0,0 +1,112 @@
+import {
+  DEFAULT_CURRENCY,
+  parseDecimal,
+  type DecimalSeparator,
+  type TransactionDraft,
+} from '../types'
+
+/**
+ * Details of a card purchase packed into a statement's title and message.
+ */
+export interface CardPurchaseDetails {
+  merchant: string
+  terminal?: string
+  city?: string
+  cardSuffix?: string
+  foreignAmount?: number
+  foreignCurrency?: string
+}
+
+/**
+ * Terminal or store number after the merchant: "Fat Lizard Otaniemi - 789",
+ * "ALEPA #1234".
+ */
+const TERMINAL_SUFFIX = /\s+(?:-|#)\s*(\d{1,6})$/
+
+/**
+ * Masked card number: "1234 56** **** 7890", "123456XXXXXX7890", "**** 7890".
+ */
+const MASKED_CARD = /(?:\d[\d ]{3,6})?(?:[*Xx]{2,}\s?)+(\d{4})\b/
+
+/**
+ * Amount in the merchant's currency: "12,50 USD" or "USD 12.50".
+ * Exactly two decimals, so exchange rates ("1,0842") don't match.
+ */
+const FOREIGN_AMOUNT = /(?:^|\s)(\d[\d ]*[.,]\d{2})\s+([A-Z]{3})\b|\b([A-Z]{3})\s+(\d[\d ]*[.,]\d{2})(?!\d)/
+
+/**
+ * A message holding only a place name, e.g. "HELSINKI" or "LOS ANGELES".
+ * Only read on rows that are clearly card purchases - "VUOKRA" (rent) looks the same.
+ */
+const CITY_MESSAGE = /^[A-Z\u00c0-\u00de][A-Z\u00c0-\u00de .'-]*$/
+
+/**
+ * Pick the merchant, terminal number, city, card suffix and original foreign
+ * currency amount out of a card purchase's title and message. A row counts as
+ * a card purchase only if it shows a card number, terminal number or foreign
+ * amount; other payments look the same otherwise.
+ *
+ * Example:
+ * "Fat Lizard Otaniemi - 789" + "HELSINKI"
+ *   -> { merchant: "Fat Lizard Otaniemi", terminal: "789", city: "HELSINKI" }
+ *
+ * @param title - The statement title
+ * @param message - The statement message
+ * @param currency - The account currency; amounts in it aren't foreign
+ * @returns The details found, or null if the row is not a card purchase or
+ *   the title holds no merchant name
+ */
+export function parseCardPurchase(
+  title: string,
+  message: string,
+  currency: string = DEFAULT_CURRENCY
+): CardPurchaseDetails | null {
+  const details: Partial<CardPurchaseDetails> = {}
+  let merchant = title.trim()
+  let rest = message.trim()
+
+  const card = MASKED_CARD.exec(merchant) ?? MASKED_CARD.exec(rest)
+  if (card) {
+    details.cardSuffix = card[1]
+    merchant = merchant.replace(card[0], ' ')
+    rest = rest.replace(card[0], ' ')
+  }
+
+  const foreign = FOREIGN_AMOUNT.exec(rest)
+  const foreignCurrency = foreign?.[2] ?? foreign?.[3]
+  if (foreign && foreignCurrency !== currency) {
+    const amount = foreign[1] ?? foreign[4]
+    const decimalSeparator = amount.charAt(amount.length - 3) as DecimalSeparator
+    details.foreignAmount = parseDecimal(amount, decimalSeparator)
+    details.foreignCurrency = foreignCurrency
+    rest = rest.replace(foreign[0], ' ')
+  }
+
+  merchant = merchant.replace(/\s+/g, ' ').trim()
+  const terminal = TERMINAL_SUFFIX.exec(merchant)
+  if (terminal) {
+    details.terminal = terminal[1]
+    merchant = merchant.slice(0, terminal.index).trim()
+  }
+
+  if (!details.cardSuffix && !details.terminal && !details.foreignCurrency) return null
+
+  rest = rest.replace(/\s+/g, ' ').trim()
+  if (CITY_MESSAGE.test(rest)) {
+    details.city = rest
+  }
+
+  if (!merchant) return null
+  return { ...details, merchant }
+}
+
+/**
+ * Add card purchase details to an expense. Money in, transfers to an
+ * account (which have a recipient) and other payments are returned unchanged.
+ */
+export function addCardPurchaseDetails<T extends TransactionDraft>(transaction: T): T {
+  if (transaction.amount >= 0 || transaction.recipientAccount) return transaction
+
+  const details = parseCardPurchase(transaction.title, transaction.message, transaction.currency)
+  return details ? { ...transaction, ...details } : transaction
+}
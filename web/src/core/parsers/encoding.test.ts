@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest'
+import { detectEncoding, decodeStatement, stripBOM, findSpreadsheetDamage } from './encoding'
+import { sniffStatement } from './registry'
+
+const HEADER = 'Booking date;Amount;Title\n2024/05/01;-10,00;ÄÖ KAUPPA'
+
+function utf16(text: string, littleEndian: boolean, bom: boolean): Uint8Array {
+  const bytes = new Uint8Array((text.length + (bom ? 1 : 0)) * 2)
+  const view = new DataView(bytes.buffer)
+  const units = bom ? '\ufeff' + text : text
+  for (let i = 0; i < units.length; i++) {
+    view.setUint16(i * 2, units.charCodeAt(i), littleEndian)
+  }
+  return bytes
+}
+
+describe('detectEncoding', () => {
+  it('recognises UTF-8, with or without a BOM', () => {
+    const bytes = new TextEncoder().encode(HEADER)
+
+    expect(detectEncoding(bytes)).toBe('utf-8')
+    expect(detectEncoding(Uint8Array.from([0xef, 0xbb, 0xbf, ...bytes]))).toBe('utf-8')
+  })
+
+  it('recognises UTF-16 by its BOM', () => {
+    expect(detectEncoding(utf16(HEADER, true, true))).toBe('utf-16le')
+    expect(detectEncoding(utf16(HEADER, false, true))).toBe('utf-16be')
+  })
+
+  it('recognises UTF-16 without a BOM', () => {
+    expect(detectEncoding(utf16(HEADER, true, false))).toBe('utf-16le')
+    expect(detectEncoding(utf16(HEADER, false, false))).toBe('utf-16be')
+  })
+
+  it('falls back to Windows-1252 when the bytes are not valid UTF-8', () => {
+    const bytes = Uint8Array.from(HEADER, c => c.charCodeAt(0))
+
+    expect(detectEncoding(bytes)).toBe('windows-1252')
+  })
+})
+
+describe('decodeStatement', () => {
+  it('decodes Windows-1252 letters', () => {
+    const { content, encoding } = decodeStatement(Uint8Array.from(HEADER, c => c.charCodeAt(0)))
+
+    expect(encoding).toBe('windows-1252')
+    expect(content).toBe(HEADER)
+  })
+
+  it('decodes UTF-16 and drops the BOM', () => {
+    const { content } = decodeStatement(utf16(HEADER, true, true))
+
+    expect(content).toBe(HEADER)
+  })
+
+  it('drops a UTF-8 BOM from the first header', () => {
+    const bytes = new TextEncoder().encode('\ufeff' + HEADER)
+
+    expect(decodeStatement(bytes).content.startsWith('Booking date')).toBe(true)
+  })
+})
+
+describe('stripBOM', () => {
+  it('removes only a leading BOM', () => {
+    expect(stripBOM('\ufeffBooking date')).toBe('Booking date')
+    expect(stripBOM('Booking date')).toBe('Booking date')
+  })
+
+  it('is applied when sniffing a statement', () => {
+    expect(sniffStatement('\ufeff' + HEADER, 'bom.csv').headers[0]).toBe('Booking date')
+  })
+})
+
+describe('findSpreadsheetDamage', () => {
+  it('finds nothing in a clean file', () => {
+    expect(findSpreadsheetDamage(HEADER)).toEqual([])
+  })
+
+  it('warns about UTF-8 read as Windows-1252', () => {
+    const mangled = 'Title\nÃ„IDIN KAUPPA\nKÃ¤ytetty'
+
+    expect(findSpreadsheetDamage(mangled)).toHaveLength(1)
+    expect(findSpreadsheetDamage(mangled)[0]).toContain('Ã¤')
+  })
+
+  it('warns about unreadable characters', () => {
+    expect(findSpreadsheetDamage('Title\nK\ufffdYTETTY')[0]).toContain('could not be read')
+  })
+
+  it('warns about numbers in scientific notation', () => {
+    const csv = 'Date;Amount;Reference number\n2024/05/01;-10,00;1,23457E+17'
+
+    expect(findSpreadsheetDamage(csv)[0]).toContain('scientific notation')
+  })
+
+  it('does not mistake ordinary text for damage', () => {
+    expect(findSpreadsheetDamage('Title\nCAFE E+2 1E;-5,00')).toEqual([])
+  })
+})
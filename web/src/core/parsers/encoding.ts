@@ -0,0 +1,131 @@
+/**
+ * Character encodings statement files arrive in.
+ * Banks export UTF-8; older exports and files re-saved in Excel are often
+ * Windows-1252 or UTF-16.
+ */
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252'
+
+/**
+ * Human-readable names for the encodings, for display.
+ */
+export const ENCODING_LABELS: Record<TextEncoding, string> = {
+  'utf-8': 'UTF-8',
+  'utf-16le': 'UTF-16 LE',
+  'utf-16be': 'UTF-16 BE',
+  'windows-1252': 'Windows-1252',
+}
+
+/**
+ * A statement file decoded to text.
+ */
+export interface DecodedText {
+  content: string             // Text with any byte order mark removed
+  encoding: TextEncoding
+}
+
+/**
+ * How many leading bytes to inspect when looking for BOM-less UTF-16.
+ */
+const UTF16_SAMPLE_BYTES = 512
+
+/**
+ * Share of zero bytes in one byte position that marks BOM-less UTF-16 -
+ * ASCII text in UTF-16 has a zero in every other byte.
+ */
+const UTF16_ZERO_RATIO = 0.3
+
+/**
+ * UTF-8 text read as Windows-1252 and saved again: "ä" becomes "Ã¤",
+ * "Ö" becomes "Ã–" and so on.
+ */
+const MOJIBAKE = /\u00c3[\u0080-\u00bf\u0152-\u0178\u2013-\u2122]|\u00c2[\u00a0-\u00bf]/
+
+/**
+ * A whole field in scientific notation, e.g. a reference number "1.23457E+17"
+ * that a spreadsheet turned into a number.
+ */
+const SCIENTIFIC_FIELD = /(?:^|[;,\t])\s*"?\d(?:[.,]\d+)?E\+\d+"?\s*(?=[;,\t]|$)/im
+
+/**
+ * Work out a file's encoding from its bytes: a byte order mark if there is
+ * one, then BOM-less UTF-16, then UTF-8 if the bytes are valid UTF-8,
+ * falling back to Windows-1252.
+ */
+export function detectEncoding(bytes: Uint8Array): TextEncoding {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8'
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le'
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be'
+
+  const sample = bytes.subarray(0, UTF16_SAMPLE_BYTES)
+  let evenZeros = 0
+  let oddZeros = 0
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] !== 0) continue
+    if (i % 2 === 0) evenZeros++
+    else oddZeros++
+  }
+  const half = sample.length / 2
+  if (half > 0 && oddZeros / half > UTF16_ZERO_RATIO) return 'utf-16le'
+  if (half > 0 && evenZeros / half > UTF16_ZERO_RATIO) return 'utf-16be'
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+    return 'utf-8'
+  } catch {
+    return 'windows-1252'
+  }
+}
+
+/**
+ * Remove a leading byte order mark, which would otherwise stick to the
+ * first header ("\ufeffBooking date").
+ */
+export function stripBOM(text: string): string {
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+}
+
+/**
+ * Decode a statement file's bytes in whatever encoding they are in.
+ *
+ * @param bytes - The raw file content
+ * @returns The text, without a byte order mark, and the encoding used
+ */
+export function decodeStatement(bytes: Uint8Array): DecodedText {
+  const encoding = detectEncoding(bytes)
+  const content = stripBOM(new TextDecoder(encoding).decode(bytes))
+  return { content, encoding }
+}
+
+/**
+ * Read and decode an uploaded statement file.
+ */
+export async function readStatementFile(file: Blob): Promise<DecodedText> {
+  return decodeStatement(new Uint8Array(await file.arrayBuffer()))
+}
+
+/**
+ * Look for signs that a file was opened in a spreadsheet and saved again,
+ * which can't be undone by decoding it differently.
+ *
+ * @param content - The decoded file content
+ * @returns A warning for each kind of damage found
+ */
+export function findSpreadsheetDamage(content: string): string[] {
+  const warnings: string[] = []
+
+  if (MOJIBAKE.test(content)) {
+    warnings.push(
+      'Letters like "ä" appear as "Ã¤" - the file was probably opened in a spreadsheet with the wrong encoding and saved again'
+    )
+  }
+  if (content.includes('\ufffd')) {
+    warnings.push('Some characters could not be read and show as "�"')
+  }
+  if (SCIENTIFIC_FIELD.test(content)) {
+    warnings.push(
+      'Some values are in scientific notation (e.g. "1.23E+17") - a spreadsheet turned them into numbers and their digits are lost'
+    )
+  }
+
+  return warnings
+}
@@ -0,0 +1,180 @@
+import { describe, it, expect } from 'vitest'
+import {
+  parseGenericCSV,
+  guessColumnMapping,
+  guessDateFormat,
+  readCSVHeaders,
+  createProfileParser,
+} from './generic'
+import { CSVParseError } from './nordea'
+import { parseStatement, sniffStatement, UnrecognisedFormatError } from './registry'
+import type { CsvMappingProfile } from '../types'
+
+const SIGNED_CSV = `Date,Description,Amount,Memo
+2024-05-01,Coffee Shop,-3.50,Latte
+2024-05-02,Salary,"2,500.00",
+2024-05-03,Bus,-2.80,Ticket 0042`
+
+const SIGNED_PROFILE: CsvMappingProfile = {
+  name: 'Test Bank',
+  headers: ['Date', 'Description', 'Amount', 'Memo'],
+  delimiter: ',',
+  decimalSeparator: '.',
+  dateFormat: 'YYYY-MM-DD',
+  columns: { date: 'Date', amount: 'Amount', title: 'Description', message: 'Memo' },
+}
+
+const SPLIT_CSV = `Päivä;Saaja;Veloitus;Hyvitys;Viite
+01.05.2024;K-MARKET;12,50;;00123
+10.05.2024;ALEX;;800,00;`
+
+const SPLIT_PROFILE: CsvMappingProfile = {
+  name: 'Split Bank',
+  headers: ['Päivä', 'Saaja', 'Veloitus', 'Hyvitys', 'Viite'],
+  delimiter: ';',
+  decimalSeparator: ',',
+  dateFormat: 'DD.MM.YYYY',
+  columns: { date: 'Päivä', debit: 'Veloitus', credit: 'Hyvitys', title: 'Saaja', reference: 'Viite' },
+}
+
+describe('parseGenericCSV', () => {
+  it('parses rows with a signed amount column', () => {
+    const transactions = parseGenericCSV(SIGNED_CSV, 'bank.csv', SIGNED_PROFILE)
+
+    expect(transactions).toHaveLength(3)
+    expect(transactions[0].amount).toBe(-3.5)
+    expect(transactions[1].amount).toBe(2500)
+  })
+
+  it('maps title, message and date', () => {
+    const transactions = parseGenericCSV(SIGNED_CSV, 'bank.csv', SIGNED_PROFILE)
+
+    expect(transactions[0].title).toBe('Coffee Shop')
+    expect(transactions[0].message).toBe('Latte')
+    expect(transactions[0].date).toEqual(new Date(2024, 4, 1))
+  })
+
+  it('leaves unmapped fields empty', () => {
+    const transactions = parseGenericCSV(SIGNED_CSV, 'bank.csv', SIGNED_PROFILE)
+
+    expect(transactions[0].name).toBe('')
+    expect(transactions[0].referenceNumber).toBe('')
+  })
+
+  it('combines separate debit and credit columns', () => {
+    const transactions = parseGenericCSV(SPLIT_CSV, 'split.csv', SPLIT_PROFILE)
+
+    expect(transactions[0].amount).toBe(-12.5)
+    expect(transactions[1].amount).toBe(800)
+    expect(transactions[0].referenceNumber).toBe('00123')
+  })
+
+  it('reads the balance column when mapped', () => {
+    const csv = `Date,Description,Amount,Balance
+2024-05-01,Coffee Shop,-3.50,96.50`
+    const profile = {
+      ...SIGNED_PROFILE,
+      headers: ['Date', 'Description', 'Amount', 'Balance'],
+      columns: { date: 'Date', amount: 'Amount', title: 'Description', balance: 'Balance' },
+    }
+
+    const transactions = parseGenericCSV(csv, 'bank.csv', profile)
+
+    expect(transactions[0].balance).toBe(96.5)
+  })
+
+  it('assigns IDs and source file', () => {
+    const transactions = parseGenericCSV(SIGNED_CSV, 'bank.csv', SIGNED_PROFILE)
+
+    expect(transactions[0].id).toMatch(/^[0-9a-z]+-0$/)
+    expect(transactions[0].sourceFile).toBe('bank.csv')
+  })
+
+  it('throws CSVParseError when a mapped column is missing', () => {
+    const profile = { ...SIGNED_PROFILE, columns: { ...SIGNED_PROFILE.columns, amount: 'Sum' } }
+
+    expect(() => parseGenericCSV(SIGNED_CSV, 'bank.csv', profile))
+      .toThrow('Missing required columns: Sum')
+  })
+
+  it('throws CSVParseError on a date that does not fit the format', () => {
+    const profile = { ...SIGNED_PROFILE, dateFormat: 'DD.MM.YYYY' as const }
+
+    expect(() => parseGenericCSV(SIGNED_CSV, 'bank.csv', profile)).toThrow(CSVParseError)
+  })
+
+  it('throws CSVParseError on empty file', () => {
+    expect(() => parseGenericCSV('', 'empty.csv', SIGNED_PROFILE)).toThrow(CSVParseError)
+  })
+})
+
+describe('guessColumnMapping', () => {
+  it('guesses common English headers', () => {
+    const mapping = guessColumnMapping(['Date', 'Description', 'Amount', 'Memo'])
+
+    expect(mapping.date).toBe('Date')
+    expect(mapping.amount).toBe('Amount')
+    expect(mapping.title).toBe('Description')
+    expect(mapping.message).toBe('Memo')
+  })
+
+  it('guesses debit and credit when there is no amount column', () => {
+    const mapping = guessColumnMapping(['Date', 'Payee', 'Debit', 'Credit'])
+
+    expect(mapping.amount).toBeUndefined()
+    expect(mapping.debit).toBe('Debit')
+    expect(mapping.credit).toBe('Credit')
+  })
+
+  it('leaves unknown fields empty', () => {
+    const mapping = guessColumnMapping(['Foo', 'Bar'])
+
+    expect(mapping.date).toBe('')
+    expect(mapping.title).toBe('')
+  })
+})
+
+describe('guessDateFormat', () => {
+  it('guesses ISO dates', () => {
+    expect(guessDateFormat(['2024-05-01', '2024-05-30'])).toBe('YYYY-MM-DD')
+  })
+
+  it('guesses dotted day-first dates', () => {
+    expect(guessDateFormat(['01.05.2024', '30.05.2024'])).toBe('DD.MM.YYYY')
+  })
+
+  it('guesses US dates when day-first cannot fit', () => {
+    expect(guessDateFormat(['05/30/2024'])).toBe('MM/DD/YYYY')
+  })
+})
+
+describe('readCSVHeaders', () => {
+  it('reads the header row with the given delimiter', () => {
+    expect(readCSVHeaders(SPLIT_CSV, ';')).toEqual(['Päivä', 'Saaja', 'Veloitus', 'Hyvitys', 'Viite'])
+  })
+})
+
+describe('CSV mapping profiles in the registry', () => {
+  it('reports unknown CSV layouts with their sample', () => {
+    try {
+      parseStatement(SIGNED_CSV, 'bank.csv')
+      expect.fail('Expected UnrecognisedFormatError')
+    } catch (error) {
+      expect(error).toBeInstanceOf(UnrecognisedFormatError)
+      expect((error as UnrecognisedFormatError).sample.headers).toEqual(SIGNED_PROFILE.headers)
+    }
+  })
+
+  it('recognises a file matching a saved profile', () => {
+    const result = parseStatement(SIGNED_CSV, 'bank.csv', [SIGNED_PROFILE])
+
+    expect(result.format).toBe('Test Bank (custom CSV)')
+    expect(result.transactions).toHaveLength(3)
+  })
+
+  it('does not match a profile with different headers', () => {
+    const parser = createProfileParser(SIGNED_PROFILE)
+
+    expect(parser.detect(sniffStatement(SPLIT_CSV, 'split.csv'))).toBe(false)
+  })
+})
@@ -0,0 +1,220 @@
+import Papa from 'papaparse'
+import {
+  DATE_FORMATS,
+  parseDateWithFormat,
+  parseDecimal,
+  type CsvColumnMapping,
+  type CsvMappingProfile,
+  type DateFormat,
+  assignTransactionIds,
+  type Transaction,
+  type TransactionDraft,
+} from '../types'
+import { CSVParseError } from './nordea'
+import { getDataLines, handleCSVErrors, classifyRowError, skipRow } from './issues'
+import type { ParseOptions, StatementParser } from './types'
+
+/**
+ * Header name hints used to pre-fill the column mapping (lowercase, partial match).
+ * Covers common English and Finnish/Swedish export headers.
+ */
+const COLUMN_HINTS: Record<keyof CsvColumnMapping, string[]> = {
+  date: ['booking date', 'date', 'kirjauspäivä', 'päivämäärä', 'bokföringsdag', 'datum'],
+  amount: ['amount', 'määrä', 'summa', 'belopp'],
+  debit: ['debit', 'withdrawal', 'paid out', 'veloitus'],
+  credit: ['credit', 'deposit', 'paid in', 'hyvitys'],
+  title: ['title', 'description', 'payee', 'saaja/maksaja', 'selitys', 'text', 'mottagare'],
+  name: ['name', 'nimi', 'namn'],
+  message: ['message', 'memo', 'viesti', 'meddelande'],
+  reference: ['reference', 'viite', 'referens'],
+  balance: ['balance', 'saldo'],
+}
+
+/**
+ * Read the header row of a delimited file.
+ */
+export function readCSVHeaders(content: string, delimiter: string): string[] {
+  const result = Papa.parse<string[]>(content.trim(), { delimiter, preview: 1 })
+  const headers = (result.data[0] || []).map(h => h.trim())
+  while (headers.length > 0 && headers[headers.length - 1] === '') {
+    headers.pop()
+  }
+  return headers
+}
+
+/**
+ * Guess which header holds each field, for pre-filling the mapping wizard.
+ * Each header is used at most once; unmatched fields are left empty.
+ */
+export function guessColumnMapping(headers: string[]): CsvColumnMapping {
+  const used = new Set<string>()
+  const find = (field: keyof CsvColumnMapping): string | undefined => {
+    for (const hint of COLUMN_HINTS[field]) {
+      const header = headers.find(h => !used.has(h) && h.toLowerCase().includes(hint))
+      if (header) {
+        used.add(header)
+        return header
+      }
+    }
+    return undefined
+  }
+
+  // Order matters: earlier fields claim their header first
+  const date = find('date') ?? ''
+  const amount = find('amount')
+  const debit = amount ? undefined : find('debit')
+  const credit = amount ? undefined : find('credit')
+  const title = find('title') ?? ''
+  const name = find('name')
+  const message = find('message')
+  const reference = find('reference')
+  const balance = find('balance')
+
+  return { date, amount, debit, credit, title, name, message, reference, balance }
+}
+
+/**
+ * Guess the date format from sample values: the first format that parses all of them.
+ */
+export function guessDateFormat(values: string[]): DateFormat {
+  const samples = values.map(v => v.trim()).filter(Boolean)
+  return DATE_FORMATS.find(format =>
+    samples.every(value => {
+      try {
+        parseDateWithFormat(value, format)
+        return true
+      } catch {
+        return false
+      }
+    })
+  ) ?? DATE_FORMATS[0]
+}
+
+/**
+ * Check that headers match a profile's header row (same columns, any order).
+ */
+export function headersMatchProfile(headers: string[], profile: CsvMappingProfile): boolean {
+  if (headers.length !== profile.headers.length) return false
+  const expected = new Set(profile.headers)
+  return headers.every(h => expected.has(h))
+}
+
+/**
+ * Parse a CSV file of any bank using a column mapping profile.
+ *
+ * @param csvString - The raw CSV content as a string
+ * @param filename - The name of the source file (for tracking)
+ * @param profile - Column mapping, date format, delimiter and decimal separator
+ * @param options - Pass onSkippedRow to skip bad rows instead of failing
+ * @returns Array of parsed Transaction objects
+ * @throws CSVParseError if the CSV is invalid or does not fit the mapping
+ */
+export function parseGenericCSV(
+  csvString: string,
+  filename: string,
+  profile: CsvMappingProfile,
+  options: ParseOptions = {}
+): Transaction[] {
+  const trimmed = csvString.trim()
+  if (!trimmed) {
+    throw new CSVParseError('CSV file is empty', filename)
+  }
+
+  const result = Papa.parse<Record<string, string>>(trimmed, {
+    header: true,
+    delimiter: profile.delimiter,
+    skipEmptyLines: true,
+    transformHeader: h => h.trim(),
+  })
+
+  // Lenient mode skips rows Papa Parse couldn't split properly
+  const lines = getDataLines(trimmed)
+  const badRows = handleCSVErrors(result.errors, filename, lines, options)
+
+  if (result.data.length === 0) {
+    throw new CSVParseError('CSV file contains no data rows', filename)
+  }
+
+  // Every mapped column must exist in the file
+  const { columns } = profile
+  const mapped = Object.values(columns).filter((c): c is string => Boolean(c))
+  const fields = result.meta.fields || []
+  const missingColumns = mapped.filter(col => !fields.includes(col))
+  if (missingColumns.length > 0) {
+    throw new CSVParseError(
+      `Missing required columns: ${missingColumns.join(', ')}`,
+      filename
+    )
+  }
+
+  const cell = (row: Record<string, string>, column?: string): string =>
+    column ? (row[column] ?? '').trim() : ''
+
+  const transactions: TransactionDraft[] = []
+
+  for (let i = 0; i < result.data.length; i++) {
+    if (badRows.has(i)) continue
+    const row = result.data[i]
+
+    // Skip rows with empty date (sometimes trailing rows)
+    if (!cell(row, columns.date)) {
+      continue
+    }
+
+    try {
+      let amount: number
+      if (columns.amount) {
+        amount = parseDecimal(cell(row, columns.amount), profile.decimalSeparator)
+      } else {
+        // Debit is money out whatever its sign in the file; empty cells are zero
+        const debit = cell(row, columns.debit)
+        const credit = cell(row, columns.credit)
+        amount =
+          (credit ? Math.abs(parseDecimal(credit, profile.decimalSeparator)) : 0) -
+          (debit ? Math.abs(parseDecimal(debit, profile.decimalSeparator)) : 0)
+      }
+
+      const transaction: TransactionDraft = {
+        date: parseDateWithFormat(cell(row, columns.date), profile.dateFormat),
+        amount,
+        title: cell(row, columns.title),
+        name: cell(row, columns.name),
+        referenceNumber: cell(row, columns.reference), // Keep as string, may have leading zeros
+        message: cell(row, columns.message),
+        sourceFile: filename,
+      }
+
+      const balance = cell(row, columns.balance)
+      if (balance) {
+        transaction.balance = parseDecimal(balance, profile.decimalSeparator)
+      }
+
+      transactions.push(transaction)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      skipRow(
+        options,
+        filename,
+        i + 1,
+        classifyRowError(message),
+        `Failed to parse row ${i + 1}: ${message}`,
+        lines[i] ?? ''
+      )
+    }
+  }
+
+  return assignTransactionIds(transactions)
+}
+
+/**
+ * Wrap a saved mapping profile as a parser, recognised by its exact header row.
+ */
+export function createProfileParser(profile: CsvMappingProfile): StatementParser {
+  return {
+    id: `profile:${profile.name}`,
+    label: `${profile.name} (custom CSV)`,
+    detect: sample =>
+      sample.delimiter === profile.delimiter && headersMatchProfile(sample.headers, profile),
+    parse: (sample, options) => parseGenericCSV(sample.content, sample.filename, profile, options),
+  }
+}
@@ -1 +1,9 @@
+export * from './types'
 export * from './nordea'
+export * from './cardPurchase'
+export * from './op'
+export * from './camt'
+export * from './ofx'
+export * from './generic'
+export * from './registry'
+export * from './encoding'
@@ -0,0 +1,81 @@
+import type { ParseError } from 'papaparse'
+import { CSVParseError } from './nordea'
+import type { ImportIssueKind, ParseOptions } from './types'
+
+/**
+ * Split CSV content into its data lines, dropping the header and blank lines,
+ * so a skipped row can be shown as it appears in the file.
+ * Assumes no line breaks inside quoted fields, which bank exports don't use.
+ */
+export function getDataLines(content: string): string[] {
+  return content.trim().split(/\r?\n/).filter(line => line.trim()).slice(1)
+}
+
+/**
+ * Tell what went wrong from a parse helper's error message
+ * ("Invalid date format: ...", "Invalid number format: ...").
+ */
+export function classifyRowError(message: string): ImportIssueKind {
+  if (/date/i.test(message)) return 'date'
+  if (/number/i.test(message)) return 'amount'
+  return 'other'
+}
+
+/**
+ * Skip a row that can't be imported, or fail the whole file when parsing strictly.
+ *
+ * @param row - 1-indexed data row (or entry)
+ * @throws CSVParseError unless options.onSkippedRow is set
+ */
+export function skipRow(
+  options: ParseOptions,
+  filename: string,
+  row: number,
+  kind: ImportIssueKind,
+  message: string,
+  raw: string
+): void {
+  if (!options.onSkippedRow) {
+    throw new CSVParseError(message, filename, row)
+  }
+  options.onSkippedRow({ row, kind, message, raw })
+}
+
+/**
+ * Deal with Papa Parse errors. Strictly, the first error fails the file;
+ * leniently, rows with the wrong column count or broken quoting are skipped.
+ *
+ * @returns 0-indexed data rows to leave out
+ * @throws CSVParseError when strict, or on an error not tied to a row
+ */
+export function handleCSVErrors(
+  errors: ParseError[],
+  filename: string,
+  lines: string[],
+  options: ParseOptions
+): Set<number> {
+  const skippedRows = new Set<number>()
+  if (errors.length === 0) return skippedRows
+
+  const unrecoverable = errors.find(e => e.row === undefined)
+  if (!options.onSkippedRow || unrecoverable) {
+    const error = unrecoverable ?? errors[0]
+    throw new CSVParseError(`Parse error: ${error.message}`, filename, error.row)
+  }
+
+  for (const error of errors) {
+    const index = error.row!
+    if (skippedRows.has(index)) continue
+    skippedRows.add(index)
+    skipRow(
+      options,
+      filename,
+      index + 1,
+      error.type === 'FieldMismatch' ? 'columns' : 'other',
+      `Parse error: ${error.message}`,
+      lines[index] ?? ''
+    )
+  }
+
+  return skippedRows
+}
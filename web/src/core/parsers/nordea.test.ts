@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest'
-import { parseNordeaCSV, parseMultipleCSVs, CSVParseError } from './nordea'
+import { parseNordeaCSV, parseMultipleCSVs, nordeaParser, CSVParseError } from './nordea'
+import { sniffStatement } from './registry'
+import type { ImportIssue } from './types'
 
 // Sample CSV matching actual Nordea format
 const VALID_CSV = `Booking date;Amount;Sender;Recipient;Name;Title;Message;Reference number;Balance;Currency;
@@ -15,12 +17,13 @@ describe('parseNordeaCSV', () => {
     expect(transactions).toHaveLength(4)
   })
 
-  it('assigns correct IDs with filename prefix', () => {
+  it('assigns IDs from the content, not the filename or row', () => {
     const transactions = parseNordeaCSV(VALID_CSV, 'may2024.csv')
+    const [header, ...rows] = VALID_CSV.split('\n')
+    const reordered = parseNordeaCSV([header, ...rows.reverse()].join('\n'), 'renamed.csv')
 
-    expect(transactions[0].id).toBe('may2024.csv-0')
-    expect(transactions[1].id).toBe('may2024.csv-1')
-    expect(transactions[2].id).toBe('may2024.csv-2')
+    expect(new Set(transactions.map(t => t.id)).size).toBe(4)
+    expect(reordered.map(t => t.id).sort()).toEqual(transactions.map(t => t.id).sort())
   })
 
   it('includes source filename on each transaction', () => {
@@ -54,6 +57,46 @@ describe('parseNordeaCSV', () => {
     expect(transactions[2].amount).toBe(-64.39)
   })
 
+  it('keeps the booked balance', () => {
+    const transactions = parseNordeaCSV(VALID_CSV, 'test.csv')
+
+    expect(transactions[0].balance).toBe(123.45)
+    expect(transactions[3].balance).toBe(796.09)
+  })
+
+  it('keeps sender and recipient accounts', () => {
+    const transactions = parseNordeaCSV(VALID_CSV, 'test.csv')
+
+    expect(transactions[0].senderAccount).toBe('FI69 2000 4200 0420 42')
+    expect(transactions[0].recipientAccount).toBeUndefined()
+    expect(transactions[1].senderAccount).toBeUndefined()
+    expect(transactions[1].recipientAccount).toBe('FI69 2000 4200 0420 42')
+  })
+
+  it('keeps the statement currency', () => {
+    const transactions = parseNordeaCSV(VALID_CSV, 'test.csv')
+
+    expect(transactions[0].currency).toBe('EUR')
+  })
+
+  it('leaves balance undefined when the column is blank', () => {
+    const csvWithoutBalance = `Booking date;Amount;Sender;Recipient;Name;Title;Message;Reference number;Balance;Currency;
+2024/05/01;-10,00;FI123;;;Test;MSG;123;;EUR;`
+
+    const transactions = parseNordeaCSV(csvWithoutBalance, 'test.csv')
+
+    expect(transactions[0].balance).toBeUndefined()
+  })
+
+  it('picks card purchase details out of the title and message', () => {
+    const transactions = parseNordeaCSV(VALID_CSV, 'test.csv')
+
+    expect(transactions[0].merchant).toBe('Fat Lizard Otaniemi')
+    expect(transactions[0].terminal).toBe('789')
+    expect(transactions[0].city).toBe('HELSINKI')
+    expect(transactions[1].merchant).toBeUndefined() // Income
+  })
+
   it('preserves reference numbers with leading zeros', () => {
     const csvWithLeadingZeros = `Booking date;Amount;Sender;Recipient;Name;Title;Message;Reference number;Balance;Currency;
 2024/05/01;-10,00;FI123;;;Test;MSG;00123456;100,00;EUR;`
@@ -159,6 +202,115 @@ invalid-date;-10,00;FI123;;;Test;MSG;REF;100,00;EUR;`
   })
 })
 
+describe('parseNordeaCSV in lenient mode', () => {
+  const MIXED_CSV = `Booking date;Amount;Sender;Recipient;Name;Title;Message;Reference number;Balance;Currency;
+2024/05/01;-39,99;FI69 2000 4200 0420 42;;;Fat Lizard Otaniemi - 789;HELSINKI;654123;123,45;EUR;
+01-05-2024;-10,00;;;;BAD DATE;;;;EUR;
+2024/05/02;abc;;;;BAD AMOUNT;;;;EUR;
+2024/05/03;-5,00;;;SHORT ROW
+2024/05/10;800,00;;FI69 2000 4200 0420 42;ALEX ROWAN NGUYEN;ALEX ROWAN NGUYEN;;;923,45;EUR;`
+
+  function parseLeniently(csv: string) {
+    const issues: ImportIssue[] = []
+    const transactions = parseNordeaCSV(csv, 'test.csv', { onSkippedRow: issue => issues.push(issue) })
+    return { transactions, issues }
+  }
+
+  it('imports the good rows', () => {
+    const { transactions } = parseLeniently(MIXED_CSV)
+
+    expect(transactions.map(t => t.title)).toEqual(['Fat Lizard Otaniemi - 789', 'ALEX ROWAN NGUYEN'])
+  })
+
+  it('reports each bad row with its kind', () => {
+    const { issues } = parseLeniently(MIXED_CSV)
+
+    expect(issues.map(i => [i.row, i.kind])).toEqual([
+      [4, 'columns'],
+      [2, 'date'],
+      [3, 'amount'],
+    ])
+  })
+
+  it('keeps the raw text of each bad row', () => {
+    const { issues } = parseLeniently(MIXED_CSV)
+
+    expect(issues.find(i => i.kind === 'date')?.raw).toBe('01-05-2024;-10,00;;;;BAD DATE;;;;EUR;')
+    expect(issues.find(i => i.kind === 'columns')?.raw).toBe('2024/05/03;-5,00;;;SHORT ROW')
+  })
+
+  it('still fails the first bad row in strict mode', () => {
+    expect(() => parseNordeaCSV(MIXED_CSV, 'test.csv')).toThrow(CSVParseError)
+  })
+
+  it('still fails files with missing columns', () => {
+    const wrongColumns = `Date;Amount;Description
+2024/05/01;-10,00;Test`
+
+    expect(() => parseLeniently(wrongColumns)).toThrow('Missing required columns')
+  })
+})
+
+describe('parseNordeaCSV with localised headers', () => {
+  const FINNISH_CSV = `Kirjauspäivä;Määrä;Maksaja;Maksunsaaja;Nimi;Otsikko;Viesti;Viitenumero;Saldo;Valuutta;
+10.05.2024;-64,39;FI69 2000 4200 0420 42;;;ALEPA VUOSAARI;HELSINKI;21354;859,06;EUR;
+13.05.2024;800,00;;FI69 2000 4200 0420 42;ALEX ROWAN NGUYEN;ALEX ROWAN NGUYEN;;;1659,06;EUR;`
+
+  const SWEDISH_CSV = `Bokföringsdag;Belopp;Avsändare;Mottagare;Namn;Rubrik;Meddelande;Referensnummer;Saldo;Valuta
+2024-05-10;-245,50;SE45 5000 0000 0583 9825 7466;;;ICA NARA STOCKHOLM;;;12 754,50;SEK`
+
+  const DANISH_CSV = `Bogføringsdato;Beløb;Afsender;Modtager;Navn;Beskrivelse;Saldo;Valuta
+10.05.2024;-129,95;DK50 0040 0440 1162 43;;;NETTO KOBENHAVN;4.870,05;DKK`
+
+  it('parses a Finnish export', () => {
+    const transactions = parseNordeaCSV(FINNISH_CSV, 'fi.csv')
+
+    expect(transactions).toHaveLength(2)
+    expect(transactions[0].date).toEqual(new Date(2024, 4, 10))
+    expect(transactions[0].amount).toBe(-64.39)
+    expect(transactions[0].title).toBe('ALEPA VUOSAARI')
+    expect(transactions[0].referenceNumber).toBe('21354')
+    expect(transactions[0].senderAccount).toBe('FI69 2000 4200 0420 42')
+    expect(transactions[1].name).toBe('ALEX ROWAN NGUYEN')
+    expect(transactions[1].balance).toBe(1659.06)
+  })
+
+  it('parses a Swedish export', () => {
+    const [transaction] = parseNordeaCSV(SWEDISH_CSV, 'sv.csv')
+
+    expect(transaction.date).toEqual(new Date(2024, 4, 10))
+    expect(transaction.amount).toBe(-245.5)
+    expect(transaction.title).toBe('ICA NARA STOCKHOLM')
+    expect(transaction.balance).toBe(12754.5)
+    expect(transaction.currency).toBe('SEK')
+  })
+
+  it('parses a Danish export without message and reference columns', () => {
+    const [transaction] = parseNordeaCSV(DANISH_CSV, 'da.csv')
+
+    expect(transaction.date).toEqual(new Date(2024, 4, 10))
+    expect(transaction.amount).toBe(-129.95)
+    expect(transaction.title).toBe('NETTO KOBENHAVN')
+    expect(transaction.message).toBe('')
+    expect(transaction.referenceNumber).toBe('')
+    expect(transaction.balance).toBe(4870.05)
+    expect(transaction.currency).toBe('DKK')
+  })
+
+  it('is detected as Nordea in every language', () => {
+    for (const [filename, csv] of [['en.csv', VALID_CSV], ['fi.csv', FINNISH_CSV], ['sv.csv', SWEDISH_CSV], ['da.csv', DANISH_CSV]]) {
+      expect(nordeaParser.detect(sniffStatement(csv, filename))).toBe(true)
+    }
+  })
+
+  it('reports missing columns by their English names', () => {
+    const missingAmount = `Kirjauspäivä;Maksaja;Maksunsaaja;Nimi;Otsikko;Viesti;Viitenumero;Saldo;Valuutta
+10.05.2024;;;;ALEPA;;;859,06;EUR`
+
+    expect(() => parseNordeaCSV(missingAmount, 'fi.csv')).toThrow('Missing required columns: Amount')
+  })
+})
+
 describe('parseMultipleCSVs', () => {
   const CSV_MAY = `Booking date;Amount;Sender;Recipient;Name;Title;Message;Reference number;Balance;Currency;
 2024/05/01;-50,00;FI123;;;May Purchase;MSG;REF1;100,00;EUR;
@@ -1,11 +1,17 @@
 import Papa from 'papaparse'
 import {
   RawNordeaRowSchema,
-  parseEuropeanDecimal,
-  parseNordeaDate,
+  parseDecimal,
+  parseDateWithFormat,
+  type DateFormat,
+  assignTransactionIds,
   type Transaction,
+  type TransactionDraft,
   type RawNordeaRow,
 } from '../types'
+import { addCardPurchaseDetails } from './cardPurchase'
+import { getDataLines, handleCSVErrors, classifyRowError, skipRow } from './issues'
+import type { ParseOptions, StatementParser } from './types'
 
 /**
  * Error thrown when CSV parsing fails.
@@ -22,9 +28,9 @@ export class CSVParseError extends Error {
 }
 
 /**
- * Expected columns in a Nordea CSV file.
+ * Expected columns in a Nordea CSV file, by their English names.
  */
-const EXPECTED_COLUMNS = [
+const EXPECTED_COLUMNS: Array<keyof RawNordeaRow> = [
   'Booking date',
   'Amount',
   'Sender',
@@ -37,15 +43,124 @@ const EXPECTED_COLUMNS = [
   'Currency',
 ]
 
+/**
+ * Columns some locales leave out of the export; filled in as blank.
+ */
+const OPTIONAL_COLUMNS: Array<keyof RawNordeaRow> = ['Message', 'Reference number']
+
+/**
+ * Extra columns of this app's own export (see transactionsToNordeaCSV),
+ * read back so a re-imported export keeps its IDs.
+ */
+const EXPORT_ID_COLUMN = 'Transaction ID'
+const EXPORT_EXTERNAL_ID_COLUMN = 'External ID'
+
+/**
+ * Nordea header names per netbank language, mapped to the English names
+ * used in RawNordeaRow. English headers need no mapping.
+ */
+const LOCALE_HEADERS: Record<string, Record<string, keyof RawNordeaRow>> = {
+  fi: {
+    'Kirjauspäivä': 'Booking date',
+    'Määrä': 'Amount',
+    'Maksaja': 'Sender',
+    'Maksunsaaja': 'Recipient',
+    'Nimi': 'Name',
+    'Otsikko': 'Title',
+    'Viesti': 'Message',
+    'Viitenumero': 'Reference number',
+    'Saldo': 'Balance',
+    'Valuutta': 'Currency',
+  },
+  sv: {
+    'Bokföringsdag': 'Booking date',
+    'Belopp': 'Amount',
+    'Avsändare': 'Sender',
+    'Mottagare': 'Recipient',
+    'Namn': 'Name',
+    'Rubrik': 'Title',
+    'Meddelande': 'Message',
+    'Referensnummer': 'Reference number',
+    'Saldo': 'Balance',
+    'Valuta': 'Currency',
+  },
+  da: {
+    'Bogføringsdato': 'Booking date',
+    'Beløb': 'Amount',
+    'Afsender': 'Sender',
+    'Modtager': 'Recipient',
+    'Navn': 'Name',
+    'Beskrivelse': 'Title',
+    'Besked': 'Message',
+    'Referencenummer': 'Reference number',
+    'Saldo': 'Balance',
+    'Valuta': 'Currency',
+  },
+}
+
+/**
+ * All localised header names, for renaming headers while parsing.
+ */
+const HEADER_ALIASES: Record<string, keyof RawNordeaRow> = Object.assign(
+  {},
+  ...Object.values(LOCALE_HEADERS)
+)
+
+/**
+ * Rename a localised Nordea header to its English name ("Määrä" -> "Amount").
+ * Unknown headers are returned trimmed but otherwise unchanged.
+ */
+function normalizeNordeaHeader(header: string): string {
+  const trimmed = header.trim()
+  return HEADER_ALIASES[trimmed] ?? trimmed
+}
+
+/**
+ * Check whether a header row is a Nordea export in any supported language.
+ */
+function hasNordeaHeaders(headers: string[]): boolean {
+  const normalized = headers.map(normalizeNordeaHeader)
+  return EXPECTED_COLUMNS
+    .filter(col => !OPTIONAL_COLUMNS.includes(col))
+    .every(col => normalized.includes(col))
+}
+
+/**
+ * Booking date layouts used by the Nordea exports, by locale.
+ */
+const DATE_LAYOUTS: Array<{ pattern: RegExp; format: DateFormat }> = [
+  { pattern: /^\d{4}\/\d{1,2}\/\d{1,2}$/, format: 'YYYY/MM/DD' }, // English
+  { pattern: /^\d{4}-\d{1,2}-\d{1,2}$/, format: 'YYYY-MM-DD' },    // Swedish
+  { pattern: /^\d{1,2}\.\d{1,2}\.\d{4}$/, format: 'DD.MM.YYYY' }, // Finnish, Danish
+]
+
+/**
+ * Parse a Nordea booking date in any of the DATE_LAYOUTS.
+ */
+function parseBookingDate(value: string): Date {
+  const trimmed = value.trim()
+  const layout = DATE_LAYOUTS.find(l => l.pattern.test(trimmed))
+  if (!layout) {
+    throw new Error(`Invalid date format: "${value}"`)
+  }
+  return parseDateWithFormat(trimmed, layout.format)
+}
+
 /**
  * Parse a Nordea bank statement CSV string into Transaction objects.
+ * Localised headers and date formats are normalised to the English export.
  *
  * @param csvString - The raw CSV content as a string
  * @param filename - The name of the source file (for tracking)
+ * @param options - Pass onSkippedRow to skip bad rows instead of failing
  * @returns Array of parsed Transaction objects
  * @throws CSVParseError if the CSV is invalid or has wrong format
  */
-export function parseNordeaCSV(csvString: string, filename: string): Transaction[] {
+export function parseNordeaCSV(
+  csvString: string,
+  filename: string,
+  options: ParseOptions = {}
+): Transaction[] {
   // Trim and check for empty
   const trimmed = csvString.trim()
   if (!trimmed) {
@@ -57,17 +172,12 @@ export function parseNordeaCSV(csvString: string, filename: string): Transaction
     header: true,
     delimiter: ';',
     skipEmptyLines: true,
+    transformHeader: normalizeNordeaHeader,
   })
 
-  // Check for parse errors
-  if (result.errors.length > 0) {
-    const firstError = result.errors[0]
-    throw new CSVParseError(
-      `Parse error: ${firstError.message}`,
-      filename,
-      firstError.row
-    )
-  }
+  // Check for parse errors (lenient mode skips the affected rows)
+  const lines = getDataLines(trimmed)
+  const badRows = handleCSVErrors(result.errors, filename, lines, options)
 
   // Check we got some data
   if (result.data.length === 0) {
@@ -76,7 +186,9 @@ export function parseNordeaCSV(csvString: string, filename: string): Transaction
 
   // Validate columns (check first row has expected structure)
   const columns = result.meta.fields || []
-  const missingColumns = EXPECTED_COLUMNS.filter(col => !columns.includes(col))
+  const missingColumns = EXPECTED_COLUMNS.filter(
+    col => !columns.includes(col) && !OPTIONAL_COLUMNS.includes(col)
+  )
   if (missingColumns.length > 0) {
     throw new CSVParseError(
       `Missing required columns: ${missingColumns.join(', ')}`,
@@ -85,19 +197,28 @@ export function parseNordeaCSV(csvString: string, filename: string): Transaction
   }
 
   // Transform each row to Transaction
-  const transactions: Transaction[] = []
+  const transactions: TransactionDraft[] = []
+  const exportedIds: (string | undefined)[] = []
 
   for (let i = 0; i < result.data.length; i++) {
+    if (badRows.has(i)) continue
     const row = result.data[i]
+    for (const col of OPTIONAL_COLUMNS) {
+      row[col] ??= ''
+    }
 
     // Validate row shape
     const validation = RawNordeaRowSchema.safeParse(row)
     if (!validation.success) {
-      throw new CSVParseError(
-        `Invalid row data: ${validation.error.message}`,
+      skipRow(
+        options,
         filename,
-        i + 1 // 1-indexed for user display
+        i + 1, // 1-indexed for user display
+        'columns',
+        `Invalid row data: ${validation.error.message}`,
+        lines[i] ?? ''
       )
+      continue
     }
 
     const rawRow: RawNordeaRow = validation.data
@@ -108,10 +229,9 @@ export function parseNordeaCSV(csvString: string, filename: string): Transaction
     }
 
     try {
-      const transaction: Transaction = {
-        id: `${filename}-${i}`,
-        date: parseNordeaDate(rawRow['Booking date']),
-        amount: parseEuropeanDecimal(rawRow['Amount']),
+      const transaction: TransactionDraft = {
+        date: parseBookingDate(rawRow['Booking date']),
+        amount: parseDecimal(rawRow['Amount'], ','), // Swedish exports group thousands with spaces
         title: rawRow['Title'].trim(),
         name: rawRow['Name'].trim(),
         referenceNumber: rawRow['Reference number'], // Keep as-is, may have leading zeros
@@ -119,18 +239,57 @@ export function parseNordeaCSV(csvString: string, filename: string): Transaction
         sourceFile: filename,
       }
 
-      transactions.push(transaction)
+      if (rawRow['Currency'].trim()) {
+        transaction.currency = rawRow['Currency'].trim().toUpperCase()
+      }
+      if (rawRow['Sender'].trim()) {
+        transaction.senderAccount = rawRow['Sender'].trim()
+      }
+      if (rawRow['Recipient'].trim()) {
+        transaction.recipientAccount = rawRow['Recipient'].trim()
+      }
+
+      // Balance is blank in some exports (e.g. reserved card payments)
+      if (rawRow['Balance'].trim()) {
+        transaction.balance = parseDecimal(rawRow['Balance'], ',')
+      }
+
+      // Our own export carries the IDs the transaction had when it was exported
+      const externalId = row[EXPORT_EXTERNAL_ID_COLUMN]?.trim()
+      if (externalId) {
+        transaction.externalId = externalId
+      }
+
+      transactions.push(addCardPurchaseDetails(transaction))
+      exportedIds.push(row[EXPORT_ID_COLUMN]?.trim() || undefined)
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error'
-      throw new CSVParseError(
-        `Failed to parse row ${i + 1}: ${message}`,
+      skipRow(
+        options,
         filename,
-        i + 1
+        i + 1,
+        classifyRowError(message),
+        `Failed to parse row ${i + 1}: ${message}`,
+        lines[i] ?? ''
       )
     }
   }
 
-  return transactions
+  return assignTransactionIds(transactions).map((t, i) => {
+    const exportedId = exportedIds[i]
+    return exportedId ? { ...t, id: exportedId } : t
+  })
+}
+
+/**
+ * Nordea CSV export, recognised by its header row in English, Finnish,
+ * Swedish or Danish.
+ */
+export const nordeaParser: StatementParser = {
+  id: 'nordea',
+  label: 'Nordea CSV',
+  detect: sample => hasNordeaHeaders(sample.headers),
+  parse: (sample, options) => parseNordeaCSV(sample.content, sample.filename, options),
 }
 
 /**
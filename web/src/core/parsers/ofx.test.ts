@@ -0,0 +1,242 @@
+import { describe, it, expect } from 'vitest'
+import { parseOFX, parseOFXDate } from './ofx'
+import { CSVParseError } from './nordea'
+import { parseStatement } from './registry'
+import { findDuplicates } from '../processors'
+
+// OFX 1.x: SGML header, unclosed leaf elements
+const OFX_SGML = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+SECURITY:NONE
+ENCODING:USASCII
+CHARSET:1252
+COMPRESSION:NONE
+OLDFILEUID:NONE
+NEWFILEUID:NONE
+
+<OFX>
+<BANKMSGSRSV1>
+<STMTTRNRS>
+<STMTRS>
+<CURDEF>EUR
+<BANKTRANLIST>
+<DTSTART>20240501
+<DTEND>20240531
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20240501120000.000[+2:EET]
+<TRNAMT>-39.99
+<FITID>2024050100001
+<NAME>Fat Lizard Otaniemi
+<MEMO>HELSINKI
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20240510
+<TRNAMT>800.00
+<FITID>2024051000002
+<NAME>ALEX ROWAN NGUYEN
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CHECK
+<DTPOSTED>20240513
+<TRNAMT>-62.97
+<FITID>2024051300003
+<CHECKNUM>1042
+<MEMO>Cheque &amp; fee
+</STMTTRN>
+</BANKTRANLIST>
+</STMTRS>
+</STMTTRNRS>
+</BANKMSGSRSV1>
+</OFX>`
+
+// OFX 2.x: XML with closed elements
+const OFX_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<?OFX OFXHEADER="200" VERSION="211" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>
+<OFX>
+  <BANKMSGSRSV1><STMTTRNRS><STMTRS>
+    <BANKTRANLIST>
+      <STMTTRN>
+        <TRNTYPE>POS</TRNTYPE>
+        <DTPOSTED>20240510</DTPOSTED>
+        <TRNAMT>-64.39</TRNAMT>
+        <FITID>FIT-1</FITID>
+        <REFNUM>21354</REFNUM>
+        <NAME>ALEPA VUOSAARI</NAME>
+        <MEMO>HELSINKI</MEMO>
+      </STMTTRN>
+    </BANKTRANLIST>
+  </STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`
+
+// Two accounts in one file, both numbering their transactions from 1
+const OFX_TWO_ACCOUNTS = `<OFX>
+<BANKMSGSRSV1>
+<STMTTRNRS><STMTRS>
+<CURDEF>EUR
+<BANKACCTFROM><BANKID>NDEAFIHH<ACCTID>FI6920004200042042<ACCTTYPE>CHECKING</BANKACCTFROM>
+<BANKTRANLIST>
+<STMTTRN><DTPOSTED>20240510<TRNAMT>-10.00<FITID>1<NAME>ALEPA</STMTTRN>
+</BANKTRANLIST>
+</STMTRS></STMTTRNRS>
+<STMTTRNRS><STMTRS>
+<CURDEF>EUR
+<BANKACCTFROM><BANKID>NDEAFIHH<ACCTID>FI9876543210987654<ACCTTYPE>SAVINGS</BANKACCTFROM>
+<BANKTRANLIST>
+<STMTTRN><DTPOSTED>20240510<TRNAMT>-10.00<FITID>1<NAME>ALEPA</STMTTRN>
+</BANKTRANLIST>
+</STMTRS></STMTTRNRS>
+</BANKMSGSRSV1>
+<CREDITCARDMSGSRSV1>
+<CCSTMTTRNRS><CCSTMTRS>
+<CURDEF>USD
+<CCACCTFROM><ACCTID>4111111111111111</CCACCTFROM>
+<BANKTRANLIST>
+<STMTTRN><DTPOSTED>20240510<TRNAMT>-10.00<FITID>1<NAME>ALEPA</STMTTRN>
+</BANKTRANLIST>
+</CCSTMTRS></CCSTMTTRNRS>
+</CREDITCARDMSGSRSV1>
+</OFX>`
+
+describe('parseOFX', () => {
+  it('parses OFX 1.x SGML transactions', () => {
+    const transactions = parseOFX(OFX_SGML, 'history.ofx')
+
+    expect(transactions).toHaveLength(3)
+  })
+
+  it('parses OFX 2.x XML transactions', () => {
+    const transactions = parseOFX(OFX_XML, 'history.ofx')
+
+    expect(transactions).toHaveLength(1)
+    expect(transactions[0].amount).toBe(-64.39)
+    expect(transactions[0].title).toBe('ALEPA VUOSAARI')
+  })
+
+  it('includes source filename on each transaction', () => {
+    const transactions = parseOFX(OFX_SGML, 'old/history.qfx')
+
+    transactions.forEach(t => {
+      expect(t.sourceFile).toBe('old/history.qfx')
+    })
+  })
+
+  it('parses DTPOSTED with and without time', () => {
+    const transactions = parseOFX(OFX_SGML, 'history.ofx')
+
+    expect(transactions[0].date).toEqual(new Date(2024, 4, 1))
+    expect(transactions[1].date).toEqual(new Date(2024, 4, 10))
+  })
+
+  it('maps NAME to title and name, MEMO to message', () => {
+    const transactions = parseOFX(OFX_SGML, 'history.ofx')
+
+    expect(transactions[0].title).toBe('Fat Lizard Otaniemi')
+    expect(transactions[0].name).toBe('Fat Lizard Otaniemi')
+    expect(transactions[0].message).toBe('HELSINKI')
+  })
+
+  it('falls back to MEMO for title and decodes entities', () => {
+    const transactions = parseOFX(OFX_SGML, 'history.ofx')
+
+    expect(transactions[2].title).toBe('Cheque & fee')
+  })
+
+  it('uses REFNUM or CHECKNUM as reference number', () => {
+    expect(parseOFX(OFX_XML, 'a.ofx')[0].referenceNumber).toBe('21354')
+    expect(parseOFX(OFX_SGML, 'b.ofx')[2].referenceNumber).toBe('1042')
+  })
+
+  it('keeps FITID as external identifier', () => {
+    const transactions = parseOFX(OFX_SGML, 'history.ofx')
+
+    expect(transactions[0].externalId).toBe('2024050100001')
+    expect(transactions[1].externalId).toBe('2024051000002')
+  })
+
+  it('scopes FITID by the statement account', () => {
+    const transactions = parseOFX(OFX_TWO_ACCOUNTS, 'accounts.ofx')
+
+    expect(transactions.map(t => t.externalId)).toEqual([
+      'NDEAFIHH/FI6920004200042042|1',
+      'NDEAFIHH/FI9876543210987654|1',
+      '4111111111111111|1',
+    ])
+    expect(new Set(transactions.map(t => t.id)).size).toBe(3)
+    expect(transactions.map(t => t.currency)).toEqual(['EUR', 'EUR', 'USD'])
+  })
+
+  it('does not match transactions from different accounts with the same FITID', () => {
+    const transactions = [
+      ...parseOFX(OFX_TWO_ACCOUNTS, 'accounts.ofx'),
+      ...parseOFX(OFX_TWO_ACCOUNTS, 'accounts-again.ofx'),
+    ]
+
+    expect(findDuplicates(transactions).map(g => g.transactions.length)).toEqual([2, 2, 2])
+  })
+
+  it('takes the currency from CURDEF', () => {
+    const transactions = parseOFX(OFX_SGML, 'statement.ofx')
+
+    expect(transactions.every(t => t.currency === 'EUR')).toBe(true)
+  })
+
+  it('throws CSVParseError on empty file', () => {
+    expect(() => parseOFX('', 'empty.ofx')).toThrow(CSVParseError)
+  })
+
+  it('throws CSVParseError when not OFX', () => {
+    expect(() => parseOFX('Date;Amount\n2024-05-01;10', 'wrong.ofx'))
+      .toThrow('Not an OFX document')
+  })
+
+  it('throws CSVParseError when there are no transactions', () => {
+    expect(() => parseOFX('<OFX></OFX>', 'empty.ofx')).toThrow(CSVParseError)
+  })
+
+  it('throws CSVParseError on invalid amount', () => {
+    const invalid = OFX_XML.replace('-64.39', 'abc')
+
+    expect(() => parseOFX(invalid, 'bad.ofx')).toThrow(CSVParseError)
+  })
+
+  it.each([
+    ['-1,234.56', -1234.56],
+    ['-1.234,56', -1234.56],
+    ['1 234,56', 1234.56],
+    ['12,345,678', 12345678],
+    ['1.234.567,89', 1234567.89],
+    ['1000,5', 1000.5],
+    ['2500.00', 2500],
+  ])('reads amount %s with thousand separators', (amount, expected) => {
+    const transactions = parseOFX(OFX_XML.replace('-64.39', amount), 'thousands.ofx')
+
+    expect(transactions[0].amount).toBe(expected)
+  })
+
+  it('throws CSVParseError on amounts with an ambiguous separator', () => {
+    expect(() => parseOFX(OFX_XML.replace('-64.39', '1,234'), 'bad.ofx')).toThrow('Ambiguous number format')
+    expect(() => parseOFX(OFX_XML.replace('-64.39', '-1.234'), 'bad.ofx')).toThrow(CSVParseError)
+  })
+
+  it('is detected by the parser registry', () => {
+    expect(parseStatement(OFX_SGML, 'a.ofx').format).toBe('OFX / QFX')
+    expect(parseStatement(OFX_XML, 'b.ofx').format).toBe('OFX / QFX')
+  })
+})
+
+describe('parseOFXDate', () => {
+  it('parses YYYYMMDD', () => {
+    expect(parseOFXDate('20241231')).toEqual(new Date(2024, 11, 31))
+  })
+
+  it('ignores time and timezone', () => {
+    expect(parseOFXDate('20240501235959.000[-5:EST]')).toEqual(new Date(2024, 4, 1))
+  })
+
+  it('throws on invalid format', () => {
+    expect(() => parseOFXDate('2024-05-01')).toThrow('Invalid date format')
+  })
+})
@@ -0,0 +1,191 @@
+import {
+  assignTransactionIds,
+  parseDecimal,
+  type DecimalSeparator,
+  type Transaction,
+  type TransactionDraft,
+} from '../types'
+import { CSVParseError } from './nordea'
+import { classifyRowError, skipRow } from './issues'
+import type { ParseOptions, StatementParser } from './types'
+
+/**
+ * OFX 1.x starts with an "OFXHEADER:100" block, OFX 2.x with an
+ * <?OFX OFXHEADER="200"?> processing instruction; both contain <OFX>.
+ */
+const OFX_MARKER = /OFXHEADER|<OFX>/i
+
+/**
+ * Bank (STMTRS) and credit card (CCSTMTRS) statements. One file may hold
+ * several, e.g. a checking and a savings account.
+ */
+const STATEMENT_BLOCK = /<(CC)?STMTRS>([\s\S]*?)<\/\1STMTRS>/gi
+
+/**
+ * The account a statement is for.
+ */
+const ACCOUNT_BLOCK = /<(?:BANK|CC)ACCTFROM>([\s\S]*?)<\/(?:BANK|CC)ACCTFROM>/i
+
+/**
+ * Transaction aggregates. These are closed in both SGML and XML flavours.
+ */
+const STMTTRN_BLOCK = /<STMTTRN>([\s\S]*?)<\/STMTTRN>/gi
+
+/**
+ * Decode the XML entities OFX files use in text values.
+ */
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+}
+
+/**
+ * Read a leaf element value from a block.
+ * In SGML leaves are unclosed ("<TRNAMT>-39.99\n"), in XML they are closed
+ * ("<TRNAMT>-39.99</TRNAMT>"); reading up to the next '<' or newline covers both.
+ */
+function leaf(block: string, tag: string): string {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'))
+  return match ? decodeEntities(match[1].trim()) : ''
+}
+
+/**
+ * Split a file into its statements, each with its currency and account
+ * ("BANKID/ACCTID", or just ACCTID for cards). Files without statement
+ * aggregates are read as a single statement.
+ */
+function readStatements(content: string): { account: string; currency: string; blocks: string[] }[] {
+  const statements = Array.from(content.matchAll(STATEMENT_BLOCK), m => m[2])
+  return (statements.length > 0 ? statements : [content]).map(statement => {
+    const accountBlock = statement.match(ACCOUNT_BLOCK)?.[1] ?? ''
+    return {
+      account: [leaf(accountBlock, 'BANKID'), leaf(accountBlock, 'ACCTID')].filter(Boolean).join('/'),
+      currency: leaf(statement, 'CURDEF').toUpperCase(),
+      blocks: Array.from(statement.matchAll(STMTTRN_BLOCK), m => m[1]),
+    }
+  })
+}
+
+/**
+ * Parse an OFX date: "YYYYMMDD", optionally followed by time and timezone
+ * ("20240501120000.000[-5:EST]"). Only the calendar date is kept.
+ */
+export function parseOFXDate(value: string): Date {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/)
+  if (!match) {
+    throw new Error(`Invalid date format: "${value}"`)
+  }
+  const [, year, month, day] = match.map(Number)
+  const date = new Date(year, month - 1, day) // month is 0-indexed
+  if (date.getMonth() !== month - 1) {
+    throw new Error(`Invalid date: "${value}"`)
+  }
+  return date
+}
+
+/**
+ * Parse an OFX amount. The spec uses '.', but some exporters write ',', and
+ * some group thousands ("-1,234.56", "1.234,56"). The last separator is the
+ * decimal one unless it repeats ("1,234,567"), which makes it a thousand separator.
+ *
+ * @throws Error when a lone separator is followed by three digits ("1,234" / "1.234")
+ */
+function parseOFXAmount(value: string): number {
+  const separators = value.match(/[.,]/g) ?? []
+  const last = separators[separators.length - 1]
+  if (!last) return parseDecimal(value, '.')
+
+  if (separators.length === 1 && /[.,]\d{3}$/.test(value.trim())) {
+    throw new Error(`Ambiguous number format: "${value}"`)
+  }
+  const repeated = separators.filter(s => s === last).length > 1
+  const other: DecimalSeparator = last === '.' ? ',' : '.'
+  const decimalSeparator = repeated ? other : last as DecimalSeparator
+  return parseDecimal(value, decimalSeparator)
+}
+
+/**
+ * Parse an OFX 1.x (SGML) or 2.x (XML) / QFX statement into Transaction objects.
+ *
+ * @param ofxString - The raw OFX content as a string
+ * @param filename - The name of the source file (for tracking)
+ * @param options - Pass onSkippedRow to skip bad transactions instead of failing
+ * @returns Array of parsed Transaction objects
+ * @throws CSVParseError if the file is not OFX or a transaction is invalid
+ */
+export function parseOFX(
+  ofxString: string,
+  filename: string,
+  options: ParseOptions = {}
+): Transaction[] {
+  const trimmed = ofxString.trim()
+  if (!trimmed) {
+    throw new CSVParseError('OFX file is empty', filename)
+  }
+
+  if (!OFX_MARKER.test(trimmed)) {
+    throw new CSVParseError('Not an OFX document', filename)
+  }
+
+  // Statement currency and account apply to every transaction in the statement
+  const blocks = readStatements(trimmed).flatMap(({ account, currency, blocks }) =>
+    blocks.map(block => ({ block, account, currency }))
+  )
+  if (blocks.length === 0) {
+    throw new CSVParseError('OFX file contains no transactions', filename)
+  }
+
+  const transactions: TransactionDraft[] = []
+
+  for (let i = 0; i < blocks.length; i++) {
+    const { block, account, currency } = blocks[i]
+
+    try {
+      const name = leaf(block, 'NAME')
+      const memo = leaf(block, 'MEMO')
+      // FITID is only unique within one account
+      const fitId = leaf(block, 'FITID')
+      const externalId = fitId && account ? `${account}|${fitId}` : fitId
+
+      const transaction: TransactionDraft = {
+        date: parseOFXDate(leaf(block, 'DTPOSTED')),
+        amount: parseOFXAmount(leaf(block, 'TRNAMT')),
+        title: name || memo,
+        name,
+        referenceNumber: leaf(block, 'REFNUM') || leaf(block, 'CHECKNUM'),
+        message: memo,
+        sourceFile: filename,
+        ...(externalId && { externalId }),
+        ...(currency && { currency }),
+      }
+
+      transactions.push(transaction)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      skipRow(
+        options,
+        filename,
+        i + 1,
+        classifyRowError(message),
+        `Failed to parse transaction ${i + 1}: ${message}`,
+        block.trim()
+      )
+    }
+  }
+
+  return assignTransactionIds(transactions)
+}
+
+/**
+ * OFX / QFX statement, recognised by its OFX header or root element.
+ */
+export const ofxParser: StatementParser = {
+  id: 'ofx',
+  label: 'OFX / QFX',
+  detect: sample => OFX_MARKER.test(sample.content.slice(0, 1000)),
+  parse: (sample, options) => parseOFX(sample.content, sample.filename, options),
+}
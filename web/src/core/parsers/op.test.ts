@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest'
+import { parseOPCSV } from './op'
+import { CSVParseError } from './nordea'
+import { parseStatement } from './registry'
+
+const HEADER = 'Kirjauspäivä;Arvopäivä;Määrä EUROA;Laji;Selitys;Saaja/Maksaja;Saajan tilinumero;Viite;Viesti;Arkistointitunnus'
+
+// Sample CSV matching actual OP format
+const VALID_CSV = `${HEADER}
+01.05.2024;01.05.2024;-39,99;162;KORTTIOSTO;FAT LIZARD OTANIEMI;;;'Viesti: 789 HELSINKI';20240501593497TQ0001
+10.05.2024;10.05.2024;+800,00;710;TILISIIRTO;ALEX ROWAN NGUYEN;FI69 2000 4200 0420 42 NDEAFIHH;;;20240510ABCD1234X002
+10.05.2024;10.05.2024;-64,39;162;KORTTIOSTO;ALEPA VUOSAARI;;00021354;;20240510593497TQ0003
+31.05.2024;31.05.2024;-2,50;730;PALVELUMAKSU;;;;;20240531OPPALVELU04`
+
+describe('parseOPCSV', () => {
+  it('parses valid CSV with multiple rows', () => {
+    const transactions = parseOPCSV(VALID_CSV, 'test.csv')
+
+    expect(transactions).toHaveLength(4)
+  })
+
+  it('assigns IDs from the content, not the filename', () => {
+    const transactions = parseOPCSV(VALID_CSV, 'op-may2024.csv')
+    const renamed = parseOPCSV(VALID_CSV, 'export.csv')
+
+    expect(transactions[0].id).not.toBe(transactions[1].id)
+    expect(renamed.map(t => t.id)).toEqual(transactions.map(t => t.id))
+  })
+
+  it('includes source filename on each transaction', () => {
+    const transactions = parseOPCSV(VALID_CSV, 'statements/op-202405.csv')
+
+    transactions.forEach(t => {
+      expect(t.sourceFile).toBe('statements/op-202405.csv')
+    })
+  })
+
+  it('parses DD.MM.YYYY booking dates', () => {
+    const transactions = parseOPCSV(VALID_CSV, 'test.csv')
+
+    expect(transactions[0].date).toEqual(new Date(2024, 4, 1))  // May 1
+    expect(transactions[3].date).toEqual(new Date(2024, 4, 31)) // May 31
+  })
+
+  it('converts signed comma decimals to numbers', () => {
+    const transactions = parseOPCSV(VALID_CSV, 'test.csv')
+
+    expect(transactions[0].amount).toBe(-39.99)
+    expect(transactions[1].amount).toBe(800)
+    expect(transactions[2].amount).toBe(-64.39)
+  })
+
+  it('uses counterparty as title and name', () => {
+    const transactions = parseOPCSV(VALID_CSV, 'test.csv')
+
+    expect(transactions[0].title).toBe('FAT LIZARD OTANIEMI')
+    expect(transactions[1].name).toBe('ALEX ROWAN NGUYEN')
+  })
+
+  it('falls back to transaction type when there is no counterparty', () => {
+    const transactions = parseOPCSV(VALID_CSV, 'test.csv')
+
+    expect(transactions[3].title).toBe('PALVELUMAKSU')
+    expect(transactions[3].name).toBe('')
+  })
+
+  it('keeps archive ID as external identifier', () => {
+    const transactions = parseOPCSV(VALID_CSV, 'test.csv')
+
+    expect(transactions[0].externalId).toBe('20240501593497TQ0001')
+    expect(transactions[2].externalId).toBe('20240510593497TQ0003')
+  })
+
+  it('keeps the counterparty account without its BIC', () => {
+    const transactions = parseOPCSV(VALID_CSV, 'op.csv')
+
+    expect(transactions[1].senderAccount).toBe('FI69 2000 4200 0420 42')
+    expect(transactions[1].recipientAccount).toBeUndefined()
+    expect(transactions[0].recipientAccount).toBeUndefined()
+  })
+
+  it('preserves reference numbers with leading zeros', () => {
+    const transactions = parseOPCSV(VALID_CSV, 'test.csv')
+
+    expect(transactions[2].referenceNumber).toBe('00021354')
+  })
+
+  it('parses message field', () => {
+    const transactions = parseOPCSV(VALID_CSV, 'test.csv')
+
+    expect(transactions[0].message).toBe("'Viesti: 789 HELSINKI'")
+  })
+
+  it('accepts quoted headers with padded amount column', () => {
+    const quoted = `"Kirjauspäivä";"Arvopäivä";"Määrä  EUROA";"Laji";"Selitys";"Saaja/Maksaja";"Saajan tilinumero";"Viite";"Viesti";"Arkistointitunnus"
+"01.05.2024";"01.05.2024";"-10,00";"162";"KORTTIOSTO";"K-MARKET";"";"";"";"ARCH1"`
+
+    const transactions = parseOPCSV(quoted, 'test.csv')
+
+    expect(transactions[0].amount).toBe(-10)
+    expect(transactions[0].title).toBe('K-MARKET')
+  })
+
+  it('skips rows with empty booking date', () => {
+    const csvWithEmptyRow = `${HEADER}
+01.05.2024;01.05.2024;-10,00;162;KORTTIOSTO;TEST;;;;ARCH1
+;;;;;;;;;`
+
+    const transactions = parseOPCSV(csvWithEmptyRow, 'test.csv')
+
+    expect(transactions).toHaveLength(1)
+  })
+
+  it('throws CSVParseError on empty file', () => {
+    expect(() => parseOPCSV('', 'empty.csv'))
+      .toThrow(CSVParseError)
+  })
+
+  it('throws CSVParseError on wrong column format', () => {
+    try {
+      parseOPCSV('Date;Amount\n2024-05-01;100', 'wrong.csv')
+      expect.fail('Expected CSVParseError')
+    } catch (error) {
+      expect(error).toBeInstanceOf(CSVParseError)
+      expect((error as CSVParseError).message).toContain('Missing required columns')
+    }
+  })
+
+  it('throws CSVParseError on invalid date', () => {
+    const invalidDate = `${HEADER}
+2024/05/01;01.05.2024;-10,00;162;KORTTIOSTO;TEST;;;;ARCH1`
+
+    expect(() => parseOPCSV(invalidDate, 'test.csv'))
+      .toThrow(CSVParseError)
+  })
+
+  it('throws CSVParseError on invalid amount', () => {
+    const invalidAmount = `${HEADER}
+01.05.2024;01.05.2024;abc;162;KORTTIOSTO;TEST;;;;ARCH1`
+
+    expect(() => parseOPCSV(invalidAmount, 'test.csv'))
+      .toThrow(CSVParseError)
+  })
+
+  it('is detected by the parser registry', () => {
+    const result = parseStatement(VALID_CSV, 'op.csv')
+
+    expect(result.format).toBe('OP CSV')
+    expect(result.transactions).toHaveLength(4)
+  })
+})
@@ -0,0 +1,171 @@
+import Papa from 'papaparse'
+import {
+  RawOPRowSchema,
+  parseEuropeanDecimal,
+  parseDottedDate,
+  assignTransactionIds,
+  type Transaction,
+  type TransactionDraft,
+  type RawOPRow,
+} from '../types'
+import { CSVParseError } from './nordea'
+import { getDataLines, handleCSVErrors, classifyRowError, skipRow } from './issues'
+import type { ParseOptions, StatementParser } from './types'
+
+/**
+ * Expected columns in an OP CSV file.
+ */
+const EXPECTED_COLUMNS = [
+  'Kirjauspäivä',
+  'Arvopäivä',
+  'Määrä EUROA',
+  'Laji',
+  'Selitys',
+  'Saaja/Maksaja',
+  'Saajan tilinumero',
+  'Viite',
+  'Viesti',
+  'Arkistointitunnus',
+]
+
+/**
+ * Normalize an OP header name.
+ * Some exports pad "Määrä  EUROA" with extra spaces.
+ */
+function normalizeHeader(header: string): string {
+  return header.trim().replace(/\s+/g, ' ')
+}
+
+/**
+ * Take the IBAN from OP's account column, which appends the BIC:
+ * "FI69 2000 4200 0420 42 NDEAFIHH" -> "FI69 2000 4200 0420 42"
+ */
+function stripBIC(account: string): string {
+  return account.trim().replace(/\s+[A-Z]{6}[A-Z0-9]{2}([A-Z0-9]{3})?$/, '')
+}
+
+/**
+ * Parse an OP (OP-Pohjola) bank statement CSV string into Transaction objects.
+ *
+ * @param csvString - The raw CSV content as a string
+ * @param filename - The name of the source file (for tracking)
+ * @param options - Pass onSkippedRow to skip bad rows instead of failing
+ * @returns Array of parsed Transaction objects
+ * @throws CSVParseError if the CSV is invalid or has wrong format
+ */
+export function parseOPCSV(
+  csvString: string,
+  filename: string,
+  options: ParseOptions = {}
+): Transaction[] {
+  // Trim and check for empty
+  const trimmed = csvString.trim()
+  if (!trimmed) {
+    throw new CSVParseError('CSV file is empty', filename)
+  }
+
+  // Parse with Papa Parse
+  const result = Papa.parse<Record<string, string>>(trimmed, {
+    header: true,
+    delimiter: ';',
+    skipEmptyLines: true,
+    transformHeader: normalizeHeader,
+  })
+
+  // Check for parse errors (lenient mode skips the affected rows)
+  const lines = getDataLines(trimmed)
+  const badRows = handleCSVErrors(result.errors, filename, lines, options)
+
+  // Check we got some data
+  if (result.data.length === 0) {
+    throw new CSVParseError('CSV file contains no data rows', filename)
+  }
+
+  // Validate columns
+  const columns = result.meta.fields || []
+  const missingColumns = EXPECTED_COLUMNS.filter(col => !columns.includes(col))
+  if (missingColumns.length > 0) {
+    throw new CSVParseError(
+      `Missing required columns: ${missingColumns.join(', ')}`,
+      filename
+    )
+  }
+
+  // Transform each row to Transaction
+  const transactions: TransactionDraft[] = []
+
+  for (let i = 0; i < result.data.length; i++) {
+    if (badRows.has(i)) continue
+    const row = result.data[i]
+
+    // Validate row shape
+    const validation = RawOPRowSchema.safeParse(row)
+    if (!validation.success) {
+      skipRow(
+        options,
+        filename,
+        i + 1, // 1-indexed for user display
+        'columns',
+        `Invalid row data: ${validation.error.message}`,
+        lines[i] ?? ''
+      )
+      continue
+    }
+
+    const rawRow: RawOPRow = validation.data
+
+    // Skip rows with empty booking date (sometimes trailing rows)
+    if (!rawRow['Kirjauspäivä'].trim()) {
+      continue
+    }
+
+    try {
+      const counterparty = rawRow['Saaja/Maksaja'].trim()
+      const archiveId = rawRow['Arkistointitunnus'].trim()
+      const amount = parseEuropeanDecimal(rawRow['Määrä EUROA'].trim())
+      // Only the counterparty's account is listed: who we paid, or who paid us
+      const account = stripBIC(rawRow['Saajan tilinumero'])
+
+      const transaction: TransactionDraft = {
+        date: parseDottedDate(rawRow['Kirjauspäivä']),
+        amount,
+        // Bank fees etc. have no counterparty - fall back to the type text
+        title: counterparty || rawRow['Selitys'].trim(),
+        name: counterparty,
+        referenceNumber: rawRow['Viite'].trim(), // Keep as string, may have leading zeros
+        message: rawRow['Viesti'].trim(),
+        sourceFile: filename,
+        currency: 'EUR', // OP exports are always in euros ("Määrä EUROA")
+        ...(archiveId && { externalId: archiveId }),
+        ...(account && (amount < 0 ? { recipientAccount: account } : { senderAccount: account })),
+      }
+
+      transactions.push(transaction)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      skipRow(
+        options,
+        filename,
+        i + 1,
+        classifyRowError(message),
+        `Failed to parse row ${i + 1}: ${message}`,
+        lines[i] ?? ''
+      )
+    }
+  }
+
+  return assignTransactionIds(transactions)
+}
+
+/**
+ * OP CSV export, recognised by its Finnish header row.
+ */
+export const opParser: StatementParser = {
+  id: 'op',
+  label: 'OP CSV',
+  detect: sample => {
+    const headers = sample.headers.map(normalizeHeader)
+    return EXPECTED_COLUMNS.every(col => headers.includes(col))
+  },
+  parse: (sample, options) => parseOPCSV(sample.content, sample.filename, options),
+}
@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest'
+import {
+  sniffStatement,
+  detectDecimalSeparator,
+  detectParser,
+  parseStatement,
+  registerParser,
+  getParsers,
+} from './registry'
+import { CSVParseError } from './nordea'
+import type { StatementParser } from './types'
+
+const NORDEA_CSV = `Booking date;Amount;Sender;Recipient;Name;Title;Message;Reference number;Balance;Currency;
+2024/05/01;-39,99;FI69 2000 4200 0420 42;;;Fat Lizard Otaniemi - 789;HELSINKI;654123;123,45;EUR;
+2024/05/10;800,00;;FI69 2000 4200 0420 42;ALEX ROWAN NGUYEN;ALEX ROWAN NGUYEN;;;923,45;EUR;`
+
+describe('sniffStatement', () => {
+  it('detects semicolon delimiter and headers', () => {
+    const sample = sniffStatement(NORDEA_CSV, 'test.csv')
+
+    expect(sample.delimiter).toBe(';')
+    expect(sample.headers[0]).toBe('Booking date')
+    expect(sample.headers).toHaveLength(10) // Trailing empty field dropped
+  })
+
+  it('detects comma delimiter', () => {
+    const csv = `Date,Amount,Description
+2024-05-01,-10.50,Coffee
+2024-05-02,-3.20,Bus`
+
+    const sample = sniffStatement(csv, 'test.csv')
+
+    expect(sample.delimiter).toBe(',')
+    expect(sample.headers).toEqual(['Date', 'Amount', 'Description'])
+    expect(sample.rows).toHaveLength(2)
+  })
+
+  it('detects comma decimal style', () => {
+    const sample = sniffStatement(NORDEA_CSV, 'test.csv')
+
+    expect(sample.decimalSeparator).toBe(',')
+  })
+
+  it('detects dot decimal style', () => {
+    const csv = `Date,Amount,Description
+2024-05-01,-10.50,Coffee
+2024-05-02,"1,234.00",Rent`
+
+    const sample = sniffStatement(csv, 'test.csv')
+
+    expect(sample.decimalSeparator).toBe('.')
+  })
+
+  it('returns no headers for XML content', () => {
+    const sample = sniffStatement('<?xml version="1.0"?><Document></Document>', 'test.xml')
+
+    expect(sample.delimiter).toBe('')
+    expect(sample.headers).toHaveLength(0)
+  })
+})
+
+describe('detectDecimalSeparator', () => {
+  it('prefers comma when values use decimal comma', () => {
+    expect(detectDecimalSeparator([['-45,99', '1.234,56']])).toBe(',')
+  })
+
+  it('prefers dot when values use decimal point', () => {
+    expect(detectDecimalSeparator([['-45.99', '1,234.56']])).toBe('.')
+  })
+
+  it('ignores reference numbers and text', () => {
+    expect(detectDecimalSeparator([['654123', 'HELSINKI', '-45,99']])).toBe(',')
+  })
+
+  it('defaults to comma when nothing looks like an amount', () => {
+    expect(detectDecimalSeparator([])).toBe(',')
+  })
+})
+
+describe('detectParser', () => {
+  it('recognises Nordea CSV', () => {
+    const parser = detectParser(sniffStatement(NORDEA_CSV, 'test.csv'))
+
+    expect(parser?.id).toBe('nordea')
+  })
+
+  it('returns null for unknown formats', () => {
+    const parser = detectParser(sniffStatement('Date,Amount\n2024-05-01,10', 'test.csv'))
+
+    expect(parser).toBeNull()
+  })
+})
+
+describe('parseStatement', () => {
+  it('dispatches to the detected parser', () => {
+    const result = parseStatement(NORDEA_CSV, 'may.csv')
+
+    expect(result.format).toBe('Nordea CSV')
+    expect(result.filename).toBe('may.csv')
+    expect(result.transactions).toHaveLength(2)
+  })
+
+  it('throws CSVParseError on empty file', () => {
+    expect(() => parseStatement('', 'empty.csv')).toThrow(CSVParseError)
+  })
+
+  it('collects skipped rows in lenient mode', () => {
+    const withBadRow = `${NORDEA_CSV}
+2024/05/11;oops;;;;BROKEN;;;;EUR;`
+
+    const result = parseStatement(withBadRow, 'may.csv', [], true)
+
+    expect(result.transactions).toHaveLength(2)
+    expect(result.skipped).toHaveLength(1)
+    expect(result.skipped[0].kind).toBe('amount')
+    expect(result.skipped[0].row).toBe(3)
+  })
+
+  it('has no skipped rows in strict mode', () => {
+    expect(parseStatement(NORDEA_CSV, 'may.csv').skipped).toEqual([])
+  })
+
+  it('throws CSVParseError naming supported formats on unknown file', () => {
+    try {
+      parseStatement('Date,Amount\n2024-05-01,10', 'unknown.csv')
+      expect.fail('Expected CSVParseError')
+    } catch (error) {
+      expect(error).toBeInstanceOf(CSVParseError)
+      expect((error as CSVParseError).message).toContain('Unrecognised statement format')
+      expect((error as CSVParseError).message).toContain('Nordea CSV')
+      expect((error as CSVParseError).filename).toBe('unknown.csv')
+    }
+  })
+})
+
+describe('registerParser', () => {
+  const testParser: StatementParser = {
+    id: 'test-bank',
+    label: 'Test Bank CSV',
+    detect: sample => sample.headers.includes('TestBankDate'),
+    parse: sample => [{
+      id: `${sample.filename}-0`,
+      date: new Date(2024, 4, 1),
+      amount: -1,
+      title: 'TEST',
+      name: '',
+      referenceNumber: '',
+      message: '',
+      sourceFile: sample.filename,
+    }],
+  }
+
+  it('adds a parser used for detection', () => {
+    registerParser(testParser)
+
+    const result = parseStatement('TestBankDate;Amount\n2024-05-01;-1,00', 'test.csv')
+
+    expect(result.format).toBe('Test Bank CSV')
+    expect(getParsers().map(p => p.id)).toContain('test-bank')
+  })
+
+  it('rejects duplicate parser ids', () => {
+    expect(() => registerParser(testParser)).toThrow()
+  })
+})
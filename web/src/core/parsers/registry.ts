@@ -0,0 +1,178 @@
+import Papa from 'papaparse'
+import { CSVParseError, nordeaParser } from './nordea'
+import { opParser } from './op'
+import { camtParser } from './camt'
+import { ofxParser } from './ofx'
+import { createProfileParser } from './generic'
+import { findSpreadsheetDamage, stripBOM } from './encoding'
+import type { CsvMappingProfile, DecimalSeparator } from '../types'
+import type {
+  ImportIssue,
+  ParsedStatement,
+  StatementParser,
+  StatementSample,
+} from './types'
+
+/**
+ * Delimiters we try when sniffing a delimited text file.
+ */
+const DELIMITERS_TO_GUESS = [';', ',', '\t', '|']
+
+/**
+ * How many data rows to sample for detection.
+ */
+const SAMPLE_ROWS = 10
+
+// Amount-like values: "-1.234,56" / "45,99" vs "-1,234.56" / "45.99"
+const COMMA_DECIMAL = /^[-+]?\d{1,3}(?:[.\s]?\d{3})*,\d{1,2}$/
+const DOT_DECIMAL = /^[-+]?\d{1,3}(?:[,\s]?\d{3})*\.\d{1,2}$/
+
+/**
+ * Error thrown when no parser recognises a statement file.
+ * Carries the sniffed sample so the caller can offer a manual column mapping.
+ */
+export class UnrecognisedFormatError extends CSVParseError {
+  constructor(message: string, public readonly sample: StatementSample) {
+    super(message, sample.filename)
+    this.name = 'UnrecognisedFormatError'
+  }
+}
+
+/**
+ * Registered parsers, in detection order (first match wins).
+ */
+const parsers: StatementParser[] = [nordeaParser, opParser, camtParser, ofxParser]
+
+/**
+ * Register an additional statement parser.
+ * Parsers registered later are tried after the built-in ones.
+ */
+export function registerParser(parser: StatementParser): void {
+  if (parsers.some(p => p.id === parser.id)) {
+    throw new Error(`Parser "${parser.id}" is already registered`)
+  }
+  parsers.push(parser)
+}
+
+/**
+ * Get all registered parsers in detection order.
+ */
+export function getParsers(): StatementParser[] {
+  return [...parsers]
+}
+
+/**
+ * Guess the decimal separator from amount-like values in the sampled rows.
+ * Defaults to ',' (the Nordic convention) when nothing looks like an amount.
+ */
+export function detectDecimalSeparator(rows: string[][]): DecimalSeparator {
+  let comma = 0
+  let dot = 0
+
+  for (const row of rows) {
+    for (const field of row) {
+      const value = field.trim()
+      if (COMMA_DECIMAL.test(value)) comma++
+      else if (DOT_DECIMAL.test(value)) dot++
+    }
+  }
+
+  return dot > comma ? '.' : ','
+}
+
+/**
+ * Sniff a statement file: delimiter, header fields, a few rows and decimal style.
+ * A byte order mark left on the content is dropped so it can't stick to the first header.
+ * Non-delimited content (e.g. XML) yields an empty delimiter and no headers.
+ */
+export function sniffStatement(text: string, filename: string): StatementSample {
+  const content = stripBOM(text)
+  const trimmed = content.trim()
+
+  if (!trimmed || trimmed.startsWith('<')) {
+    return { filename, content, delimiter: '', headers: [], rows: [], decimalSeparator: ',' }
+  }
+
+  const result = Papa.parse<string[]>(trimmed, {
+    preview: SAMPLE_ROWS + 1,
+    delimitersToGuess: DELIMITERS_TO_GUESS,
+    skipEmptyLines: true,
+  })
+
+  const [headerRow = [], ...rows] = result.data
+  const headers = headerRow.map(h => h.trim())
+  while (headers.length > 0 && headers[headers.length - 1] === '') {
+    headers.pop()
+  }
+
+  return {
+    filename,
+    content,
+    delimiter: result.meta.delimiter,
+    headers,
+    rows,
+    decimalSeparator: detectDecimalSeparator(rows),
+  }
+}
+
+/**
+ * Find the parser that understands a statement file.
+ * Built-in parsers are tried first, then the user's saved CSV mapping profiles.
+ *
+ * @returns The first parser whose detect() accepts the file, or null
+ */
+export function detectParser(
+  sample: StatementSample,
+  profiles: CsvMappingProfile[] = []
+): StatementParser | null {
+  const candidates = [...parsers, ...profiles.map(createProfileParser)]
+  return candidates.find(p => p.detect(sample)) ?? null
+}
+
+/**
+ * Parse a statement file of any registered format.
+ *
+ * @param content - The raw file content as a string
+ * @param filename - The name of the source file (for tracking)
+ * @param profiles - Saved CSV mapping profiles to try after the built-in parsers
+ * @param lenient - Skip rows that fail to parse instead of failing the file
+ * @returns The parsed transactions, the format they were recognised as, any skipped rows
+ *   and warnings about spreadsheet damage
+ * @throws UnrecognisedFormatError if no parser recognises the file
+ * @throws CSVParseError if the parser fails
+ */
+export function parseStatement(
+  content: string,
+  filename: string,
+  profiles: CsvMappingProfile[] = [],
+  lenient = false
+): ParsedStatement {
+  if (!content.trim()) {
+    throw new CSVParseError('File is empty', filename)
+  }
+
+  const sample = sniffStatement(content, filename)
+  const parser = detectParser(sample, profiles)
+
+  if (!parser) {
+    const supported = parsers.map(p => p.label).join(', ')
+    throw new UnrecognisedFormatError(
+      `Unrecognised statement format. Supported formats: ${supported}`,
+      sample
+    )
+  }
+
+  const skipped: ImportIssue[] = []
+  const transactions = parser.parse(
+    sample,
+    lenient ? { onSkippedRow: issue => skipped.push(issue) } : {}
+  )
+
+  return {
+    filename,
+    format: parser.label,
+    transactions,
+    skipped: skipped.sort((a, b) => a.row - b.row),
+    warnings: findSpreadsheetDamage(sample.content),
+  }
+}
@@ -0,0 +1,78 @@
+import type { DecimalSeparator, Transaction } from '../types'
+import type { TextEncoding } from './encoding'
+
+/**
+ * What we could sniff from a statement file before choosing a parser.
+ * Built once per file by the registry and handed to each parser's detect().
+ */
+export interface StatementSample {
+  filename: string
+  content: string                     // Full file content
+  delimiter: string                   // Guessed field delimiter ('' if not delimited text)
+  headers: string[]                   // First-row fields, trimmed, trailing empties dropped
+  rows: string[][]                    // A few data rows after the header
+  decimalSeparator: DecimalSeparator  // Guessed from amount-like values in the rows
+}
+
+/**
+ * What was wrong with a row that could not be imported.
+ */
+export type ImportIssueKind =
+  | 'date'      // Booking date missing or not in the expected format
+  | 'amount'    // Amount or balance is not a number
+  | 'columns'   // Row has the wrong number of columns
+  | 'other'
+
+/**
+ * A row skipped when parsing leniently.
+ */
+export interface ImportIssue {
+  row: number                 // 1-indexed data row (or entry) in the file
+  kind: ImportIssueKind
+  message: string
+  raw: string                 // The row's text as it appears in the file
+}
+
+/**
+ * Options for parsing a statement.
+ */
+export interface ParseOptions {
+  // When set, bad rows are skipped and reported here instead of failing the file
+  onSkippedRow?: (issue: ImportIssue) => void
+}
+
+/**
+ * A bank statement format the app can import.
+ * Register new formats in the parser registry - the upload hook and
+ * screens never need to know about individual banks.
+ */
+export interface StatementParser {
+  id: string                                        // Stable identifier, e.g. 'nordea'
+  label: string                                     // Human-readable name, e.g. 'Nordea CSV'
+  detect: (sample: StatementSample) => boolean      // True if this parser understands the file
+  parse: (sample: StatementSample, options?: ParseOptions) => Transaction[] // Throws CSVParseError on bad data
+}
+
+/**
+ * Result of parsing one statement file through the registry.
+ */
+export interface ParsedStatement {
+  filename: string
+  format: string              // Label of the parser that was used
+  transactions: Transaction[]
+  skipped: ImportIssue[]      // Rows left out in lenient mode
+  warnings: string[]          // Signs the file was damaged by a spreadsheet
+}
+
+/**
+ * What happened when a statement file was imported, kept for display.
+ */
+export interface ImportReport {
+  filename: string
+  format: string              // Label of the parser that was used
+  transactionCount: number
+  skipped: ImportIssue[]      // Rows that could not be imported
+  warnings: string[]          // Signs the file was damaged by a spreadsheet
+  encoding?: TextEncoding     // How the file was decoded, if read from disk
+  contentHash?: string        // Hash of the decoded content, to spot the same file uploaded twice
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import { parseXML } from './xml'
+
+describe('parseXML', () => {
+  it('reads nested elements by local name', () => {
+    const root = parseXML('<a:Doc xmlns:a="urn:x"><a:Stmt><a:Id>1</a:Id></a:Stmt><Stmt/></a:Doc>')
+    expect(root.localName).toBe('Doc')
+    expect(root.children.map(c => c.localName)).toEqual(['Stmt', 'Stmt'])
+    expect(root.children[0].children[0].text).toBe('1')
+    expect(root.children[1].children).toEqual([])
+  })
+
+  it('includes the text of child elements', () => {
+    const root = parseXML('<Nm>FAT <b>LIZARD</b> OTANIEMI</Nm>')
+    expect(root.text).toBe('FAT LIZARD OTANIEMI')
+  })
+
+  it('reads attributes in either quote style', () => {
+    const root = parseXML(`<Amt Ccy="EUR" note='a > b' empty="">1</Amt>`)
+    expect(root.attributes).toEqual({ Ccy: 'EUR', note: 'a > b', empty: '' })
+  })
+
+  it('decodes entities and character references', () => {
+    const root = parseXML('<Nm a="&quot;x&quot;">K&amp;M &lt;3 &#228;&#xE4; &apos;</Nm>')
+    expect(root.text).toBe("K&M <3 ää '")
+    expect(root.attributes.a).toBe('"x"')
+  })
+
+  it('keeps CDATA as text', () => {
+    expect(parseXML('<Ustrd><![CDATA[a <b> & c]]></Ustrd>').text).toBe('a <b> & c')
+  })
+
+  it('skips the prolog, doctype and comments', () => {
+    const root = parseXML(`<?xml version="1.0"?>
+<!DOCTYPE Document>
+<!-- exported <today> -->
+<Document><!-- none --><Id>1</Id></Document>
+`)
+    expect(root.localName).toBe('Document')
+    expect(root.text).toBe('1')
+  })
+
+  it('keeps each element as written', () => {
+    const root = parseXML('<Stmt>\n  <Ntry><Amt Ccy="EUR">1</Amt></Ntry>\n  <Ntry/>\n</Stmt>')
+    expect(root.children[0].source).toBe('<Ntry><Amt Ccy="EUR">1</Amt></Ntry>')
+    expect(root.children[1].source).toBe('<Ntry/>')
+  })
+
+  it.each([
+    ['mismatched tags', '<a><b></a></b>'],
+    ['an unclosed element', '<a><b></b>'],
+    ['a stray closing tag', '<a></a></b>'],
+    ['two root elements', '<a/><b/>'],
+    ['text outside the root', 'x<a/>'],
+    ['no root element', '<?xml version="1.0"?>'],
+    ['an unterminated tag', '<a'],
+    ['an unterminated comment', '<a><!-- </a>'],
+    ['an unknown entity', '<a>&nbsp;</a>'],
+    ['a bare ampersand', '<a>K & M</a>'],
+  ])('throws on %s', (_, xml) => {
+    expect(() => parseXML(xml)).toThrow()
+  })
+})
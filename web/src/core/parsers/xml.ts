@@ -0,0 +1,151 @@
+/**
+ * An element read by parseXML - just what the statement parsers need.
+ * Unlike DOMParser this works inside Web Workers, so XML statements are
+ * parsed off the main thread like every other format.
+ */
+export interface XmlElement {
+  localName: string                   // Name without its namespace prefix
+  attributes: Record<string, string>  // By name as written, prefix included
+  children: XmlElement[]
+  text: string                        // Text of the element and everything inside it
+  source: string                      // The element as written in the file
+}
+
+/**
+ * The predefined XML entities.
+ */
+const ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+}
+
+const ATTRIBUTE = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+
+/**
+ * Decode entity and character references ("&amp;", "&#228;", "&#xE4;").
+ *
+ * @throws Error for an entity XML doesn't define
+ */
+function decodeEntities(value: string): string {
+  return value.replace(/&([^;\s]*);?/g, (reference, name: string) => {
+    if (!reference.endsWith(';')) throw new Error(`Unterminated entity "${reference}"`)
+    if (/^#x[0-9a-f]+$/i.test(name)) return String.fromCodePoint(parseInt(name.slice(2), 16))
+    if (/^#\d+$/.test(name)) return String.fromCodePoint(parseInt(name.slice(1), 10))
+    if (Object.hasOwn(ENTITIES, name)) return ENTITIES[name]
+    throw new Error(`Unknown entity "${reference}"`)
+  })
+}
+
+/**
+ * Find the '>' closing a tag, skipping any inside quoted attribute values.
+ */
+function findTagEnd(content: string, from: number): number {
+  let quote: string | null = null
+  for (let i = from; i < content.length; i++) {
+    const ch = content[i]
+    if (quote) {
+      if (ch === quote) quote = null
+    } else if (ch === '"' || ch === "'") {
+      quote = ch
+    } else if (ch === '>') {
+      return i
+    }
+  }
+  return -1
+}
+
+/**
+ * Find the end of a construct like a comment, or fail if it never ends.
+ */
+function findEnd(content: string, marker: string, from: number, what: string): number {
+  const end = content.indexOf(marker, from)
+  if (end === -1) throw new Error(`Unterminated ${what}`)
+  return end + marker.length
+}
+
+/**
+ * Read a well-formed XML document into a tree of elements. Comments,
+ * processing instructions and the doctype are skipped; CDATA is kept as text.
+ *
+ * @param content - The XML document
+ * @returns The root element
+ * @throws Error if the document is not well-formed
+ */
+export function parseXML(content: string): XmlElement {
+  const open: { element: XmlElement; name: string; start: number }[] = []
+  let root: XmlElement | undefined
+  let i = 0
+
+  const addText = (text: string) => {
+    if (open.length === 0) {
+      if (text.trim()) throw new Error('Text outside the root element')
+      return
+    }
+    for (const { element } of open) element.text += text
+  }
+
+  while (i < content.length) {
+    const lt = content.indexOf('<', i)
+    if (lt === -1) {
+      addText(decodeEntities(content.slice(i)))
+      break
+    }
+    if (lt > i) addText(decodeEntities(content.slice(i, lt)))
+
+    if (content.startsWith('<!--', lt)) {
+      i = findEnd(content, '-->', lt + 4, 'comment')
+    } else if (content.startsWith('<![CDATA[', lt)) {
+      i = findEnd(content, ']]>', lt + 9, 'CDATA section')
+      addText(content.slice(lt + 9, i - 3))
+    } else if (content.startsWith('<?', lt)) {
+      i = findEnd(content, '?>', lt + 2, 'processing instruction')
+    } else if (content.startsWith('<!', lt)) {
+      i = findEnd(content, '>', lt + 2, 'doctype')
+    } else {
+      const gt = findTagEnd(content, lt + 1)
+      if (gt === -1) throw new Error('Unterminated tag')
+      i = gt + 1
+      const tag = content.slice(lt + 1, gt)
+
+      if (tag.startsWith('/')) {
+        const name = tag.slice(1).trim()
+        const current = open.pop()
+        if (!current || current.name !== name) {
+          throw new Error(`Unexpected closing tag </${name}>`)
+        }
+        current.element.source = content.slice(current.start, i)
+        continue
+      }
+
+      const selfClosing = tag.endsWith('/')
+      const [name = ''] = tag.split(/[\s/]/, 1)
+      if (!name) throw new Error('Element without a name')
+
+      const element: XmlElement = {
+        localName: name.slice(name.indexOf(':') + 1),
+        attributes: Object.fromEntries(
+          Array.from(tag.slice(name.length).matchAll(ATTRIBUTE), m => [m[1], decodeEntities(m[2] ?? m[3])])
+        ),
+        children: [],
+        text: '',
+        source: selfClosing ? content.slice(lt, i) : '',
+      }
+
+      if (open.length > 0) {
+        open[open.length - 1].element.children.push(element)
+      } else if (root) {
+        throw new Error('More than one root element')
+      } else {
+        root = element
+      }
+      if (!selfClosing) open.push({ element, name, start: lt })
+    }
+  }
+
+  if (open.length > 0) throw new Error(`Unclosed element <${open[open.length - 1].name}>`)
+  if (!root) throw new Error('No root element')
+  return root
+}
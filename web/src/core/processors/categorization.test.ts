@@ -7,6 +7,12 @@ import {
   createMapping,
   getCategorizationProgress,
   getTransactionsByCategory,
+  orderRules,
+  reapplyCategories,
+  findRuleMatches,
+  explainRules,
+  getRuleKey,
+  describeRule,
 } from './categorization'
 import type { Transaction } from '../types'
 import type { CategoryMapping } from '../types/category'
@@ -72,6 +78,17 @@ describe('suggestCategories', () => {
     expect(suggestions).toHaveLength(0)
   })
 
+  it('groups card purchases by merchant', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'a', amount: -10, title: 'ALEPA - 12', merchant: 'ALEPA' }),
+      createTransaction({ id: 'b', amount: -20, title: 'ALEPA - 34', merchant: 'ALEPA' }),
+    ]
+
+    const suggestions = suggestCategories(transactions)
+
+    expect(suggestions).toEqual([{ title: 'ALEPA', totalAmount: 30, transactionCount: 2 }])
+  })
+
   it('handles all transactions already categorized', () => {
     const transactions: Transaction[] = [
       createTransaction({ id: 'a', amount: -100, category: 'Groceries' }),
@@ -97,6 +114,62 @@ describe('applyCategories', () => {
     expect(result[0].category).toBe('Groceries')
   })
 
+  it('matches exact mappings against the merchant name', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'a', title: 'Fat Lizard Otaniemi - 789', merchant: 'Fat Lizard Otaniemi' }),
+    ]
+
+    const mappings: CategoryMapping[] = [
+      { pattern: 'Fat Lizard Otaniemi', category: 'Eating out', matchType: 'exact' },
+    ]
+
+    expect(applyCategories(transactions, mappings)[0].category).toBe('Eating out')
+  })
+
+  it('applies prefix and suffix mappings', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'a', title: 'K-MARKET KALLIO' }),
+      createTransaction({ id: 'b', title: 'AMAZON.COM' }),
+      createTransaction({ id: 'c', title: 'PIZZA K-STYLE' }),
+    ]
+
+    const mappings: CategoryMapping[] = [
+      { pattern: 'k-', category: 'Groceries', matchType: 'prefix' },
+      { pattern: '.com', category: 'Online', matchType: 'suffix' },
+    ]
+
+    const result = applyCategories(transactions, mappings)
+
+    expect(result.map(t => t.category)).toEqual(['Groceries', 'Online', undefined])
+  })
+
+  it('applies regex mappings, ignoring case', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'a', title: 'K-SUPERMARKET REDI' }),
+      createTransaction({ id: 'b', title: 'k-market kallio' }),
+      createTransaction({ id: 'c', title: 'K-RAUTA' }),
+    ]
+
+    const mappings: CategoryMapping[] = [
+      { pattern: '^K-(MARKET|SUPERMARKET)', category: 'Groceries', matchType: 'regex' },
+    ]
+
+    const result = applyCategories(transactions, mappings)
+
+    expect(result.map(t => t.category)).toEqual(['Groceries', 'Groceries', undefined])
+  })
+
+  it('skips a regex that does not compile instead of throwing', () => {
+    const transactions: Transaction[] = [createTransaction({ id: 'a', title: 'LIDL' })]
+
+    const mappings: CategoryMapping[] = [
+      { pattern: '[LIDL', category: 'Broken', matchType: 'regex' },
+      { pattern: 'LIDL', category: 'Groceries', matchType: 'contains' },
+    ]
+
+    expect(applyCategories(transactions, mappings)[0].category).toBe('Groceries')
+  })
+
   it('applies contains match mappings', () => {
     const transactions: Transaction[] = [
       createTransaction({ id: 'a', title: 'LIDL HELSINKI HERTTONIEMI' }),
@@ -214,6 +287,293 @@ describe('applyCategories', () => {
   })
 })
 
+describe('applyCategories with conditions', () => {
+  it('splits one title by amount', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'a', title: 'LIDL', amount: -3.49 }),
+      createTransaction({ id: 'b', title: 'LIDL', amount: -5 }),
+      createTransaction({ id: 'c', title: 'LIDL', amount: -48.2 }),
+    ]
+
+    const mappings: CategoryMapping[] = [
+      { pattern: 'LIDL', category: 'Snacks', matchType: 'contains', conditions: { maxAmount: 5 } },
+      { pattern: 'LIDL', category: 'Groceries', matchType: 'contains', conditions: { minAmount: 5 } },
+    ]
+
+    const result = applyCategories(transactions, mappings)
+
+    expect(result.map(t => t.category)).toEqual(['Snacks', 'Groceries', 'Groceries'])
+  })
+
+  it('matches on the message without a title pattern', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'a', title: 'SUN KOTI OY', message: 'Vuokra 05/2024' }),
+      createTransaction({ id: 'b', title: 'SUN KOTI OY', message: 'Sauna' }),
+    ]
+
+    const mappings: CategoryMapping[] = [
+      { pattern: '', category: 'Rent', matchType: 'contains', conditions: { message: { pattern: 'vuokra', matchType: 'contains' } } },
+    ]
+
+    const result = applyCategories(transactions, mappings)
+
+    expect(result.map(t => t.category)).toEqual(['Rent', undefined])
+  })
+
+  it('matches on name and reference number', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'a', title: 'PAYMENT', name: 'HELEN OY', referenceNumber: '1234 5' }),
+      createTransaction({ id: 'b', title: 'PAYMENT', name: 'HELEN OY', referenceNumber: '9999' }),
+    ]
+
+    const mappings: CategoryMapping[] = [
+      {
+        pattern: '',
+        category: 'Electricity',
+        matchType: 'contains',
+        conditions: {
+          name: { pattern: 'helen', matchType: 'prefix' },
+          referenceNumber: { pattern: '^1234', matchType: 'regex' },
+        },
+      },
+    ]
+
+    expect(applyCategories(transactions, mappings).map(t => t.category)).toEqual(['Electricity', undefined])
+  })
+
+  it('categorizes income only with rules for income', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'a', title: 'KELA', amount: 300 }),
+      createTransaction({ id: 'b', title: 'KELA', amount: -20 }),
+    ]
+
+    const mappings: CategoryMapping[] = [
+      { pattern: 'KELA', category: 'Benefits', matchType: 'exact', conditions: { direction: 'income' } },
+    ]
+
+    expect(applyCategories(transactions, mappings).map(t => t.category)).toEqual(['Benefits', undefined])
+  })
+
+  it('limits a rule to its date window, both days included', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'a', date: new Date(2024, 5, 30) }),
+      createTransaction({ id: 'b', date: new Date(2024, 6, 1) }),
+      createTransaction({ id: 'c', date: new Date(2024, 7, 31) }),
+      createTransaction({ id: 'd', date: new Date(2024, 8, 1) }),
+    ]
+
+    const mappings: CategoryMapping[] = [
+      { pattern: 'TEST STORE', category: 'Summer', matchType: 'exact', conditions: { from: '2024-07-01', to: '2024-08-31' } },
+    ]
+
+    expect(applyCategories(transactions, mappings).map(t => t.category)).toEqual([undefined, 'Summer', 'Summer', undefined])
+  })
+
+  it('tries higher priority rules first', () => {
+    const transactions = [createTransaction({ title: 'K-MARKET KALLIO' })]
+
+    const mappings: CategoryMapping[] = [
+      { pattern: 'K-MARKET KALLIO', category: 'Groceries', matchType: 'exact' },
+      { pattern: 'K-', category: 'Kesko', matchType: 'prefix', priority: 1 },
+    ]
+
+    expect(applyCategories(transactions, mappings)[0].category).toBe('Kesko')
+  })
+
+  it('prefers the rule with more conditions', () => {
+    const transactions = [createTransaction({ title: 'LIDL', amount: -2 })]
+
+    const mappings: CategoryMapping[] = [
+      { pattern: 'LIDL', category: 'Groceries', matchType: 'exact' },
+      { pattern: 'LIDL', category: 'Snacks', matchType: 'contains', conditions: { maxAmount: 5 } },
+    ]
+
+    expect(applyCategories(transactions, mappings)[0].category).toBe('Snacks')
+  })
+})
+
+describe('orderRules', () => {
+  it('orders by priority, conditions, exact match, then as added', () => {
+    const mappings: CategoryMapping[] = [
+      { pattern: 'A', category: '1', matchType: 'contains' },
+      { pattern: 'B', category: '2', matchType: 'exact' },
+      { pattern: 'C', category: '3', matchType: 'contains', conditions: { minAmount: 10 } },
+      { pattern: 'D', category: '4', matchType: 'contains', priority: 5 },
+      { pattern: 'E', category: '5', matchType: 'contains' },
+    ]
+
+    expect(orderRules(mappings).map(m => m.pattern)).toEqual(['D', 'C', 'B', 'A', 'E'])
+  })
+})
+
+describe('reapplyCategories', () => {
+  it('lets a new rule take over transactions already categorized', () => {
+    const transactions = [createTransaction({ title: 'LIDL', amount: -2, category: 'Groceries' })]
+
+    const mappings: CategoryMapping[] = [
+      { pattern: 'LIDL', category: 'Groceries', matchType: 'exact' },
+      { pattern: 'LIDL', category: 'Snacks', matchType: 'exact', conditions: { maxAmount: 5 } },
+    ]
+
+    expect(applyCategories(transactions, mappings)[0].category).toBe('Groceries')
+    expect(reapplyCategories(transactions, mappings)[0].category).toBe('Snacks')
+  })
+
+  it('records which rule assigned the category', () => {
+    const transactions = [createTransaction({ title: 'LIDL', amount: -2 })]
+
+    const mappings: CategoryMapping[] = [
+      { pattern: 'NETFLIX', category: 'Entertainment', matchType: 'contains' },
+      { pattern: 'LIDL', category: 'Groceries', matchType: 'contains' },
+      { pattern: 'LIDL', category: 'Groceries', matchType: 'exact' },
+    ]
+
+    expect(reapplyCategories(transactions, mappings)[0].categoryRule).toBe(getRuleKey(mappings[2]))
+    expect(reapplyCategories(transactions, mappings.slice(0, 2))[0].categoryRule).toBe(getRuleKey(mappings[1]))
+  })
+})
+
+describe('findRuleMatches', () => {
+  it('finds what a rule matches on its own', () => {
+    const transactions = [
+      createTransaction({ id: 'a', title: 'LIDL', amount: -2 }),
+      createTransaction({ id: 'b', title: 'LIDL', amount: -20 }),
+    ]
+
+    const matches = findRuleMatches(transactions, {
+      pattern: 'LIDL', category: 'Snacks', matchType: 'exact', conditions: { maxAmount: 5 },
+    })
+
+    expect(matches.map(t => t.id)).toEqual(['a'])
+  })
+})
+
+describe('explainRules', () => {
+  const transactions = [
+    createTransaction({ id: 'a', title: 'LIDL', amount: -2 }),
+    createTransaction({ id: 'b', title: 'LIDL', amount: -20 }),
+    createTransaction({ id: 'c', title: 'LIDL CITY', amount: -30 }),
+  ]
+
+  const mappings: CategoryMapping[] = [
+    { pattern: 'LIDL', category: 'Groceries', matchType: 'contains' },
+    { pattern: 'LIDL', category: 'Snacks', matchType: 'exact', conditions: { maxAmount: 5 } },
+    { pattern: 'LIDL', category: 'Groceries', matchType: 'exact' },
+    { pattern: 'NETFLIX', category: 'Entertainment', matchType: 'exact' },
+  ]
+
+  const stats = explainRules(reapplyCategories(transactions, mappings), mappings)
+
+  it('lists the rules in the order they are tried', () => {
+    expect(stats.map(s => s.index)).toEqual([1, 2, 3, 0])
+  })
+
+  it('counts matches and wins per rule', () => {
+    const contains = stats.find(s => s.index === 0)!
+
+    expect(contains.matchCount).toBe(3)
+    expect(contains.matchAmount).toBe(52)
+    expect(contains.wins.map(w => w.transaction.id)).toEqual(['c'])
+    expect(contains.winAmount).toBe(30)
+    expect(contains.status).toBe('active')
+  })
+
+  it('lists the other rules a transaction matched', () => {
+    const snacks = stats.find(s => s.index === 1)!
+
+    expect(snacks.wins.map(w => [w.transaction.id, w.alsoMatched])).toEqual([['a', [2, 0]]])
+  })
+
+  it('flags rules that never match', () => {
+    expect(stats.find(s => s.index === 3)?.status).toBe('unmatched')
+  })
+
+  it('flags rules whose matches all go to earlier rules', () => {
+    const mappingsWithShadow: CategoryMapping[] = [
+      { pattern: 'LIDL', category: 'Groceries', matchType: 'prefix' },
+      { pattern: 'LIDL CITY', category: 'Lunch', matchType: 'contains' },
+    ]
+
+    const shadowed = explainRules(reapplyCategories(transactions, mappingsWithShadow), mappingsWithShadow)[1]
+
+    expect(shadowed.status).toBe('shadowed')
+    expect(shadowed.shadowedBy).toEqual([0])
+    expect(shadowed.matchCount).toBe(1)
+  })
+
+  it('flags rules whose matches were categorized by hand or by a removed rule', () => {
+    const removed: CategoryMapping = { pattern: 'LIDL', category: 'Groceries', matchType: 'exact' }
+    const later: CategoryMapping = { pattern: 'LIDL', category: 'Food', matchType: 'prefix' }
+    const categorized = [
+      ...reapplyCategories(transactions.slice(0, 2), [removed]),
+      { ...transactions[2], category: 'Lunch' },
+    ]
+
+    const [unused] = explainRules(categorized, [later])
+
+    expect(unused.matchCount).toBe(3)
+    expect(unused.wins).toEqual([])
+    expect(unused.shadowedBy).toEqual([])
+    expect(unused.status).toBe('unused')
+  })
+
+  it('follows the rule that categorized each transaction', () => {
+    // The priority rule came after LIDL was categorized, so it didn't take it over
+    const groceries: CategoryMapping = { pattern: 'LIDL', category: 'Groceries', matchType: 'exact' }
+    const snacks: CategoryMapping = { pattern: 'LIDL', category: 'Snacks', matchType: 'exact', priority: 1 }
+    const categorized = applyCategories(applyCategories(transactions, [groceries]), [groceries, snacks])
+
+    const [snacksStats, groceriesStats] = explainRules(categorized, [groceries, snacks])
+
+    expect(groceriesStats.wins.map(w => w.transaction.category)).toEqual(['Groceries', 'Groceries'])
+    expect(snacksStats.status).toBe('shadowed')
+    expect(snacksStats.shadowedBy).toEqual([0])
+  })
+
+  it('keeps recorded rules when other rules are removed', () => {
+    const categorized = reapplyCategories(transactions, mappings)
+    const remaining = mappings.filter((_, i) => i !== 1)
+
+    const contains = explainRules(categorized, remaining).find(s => s.mapping === mappings[0])!
+
+    expect(contains.wins.map(w => w.transaction.id)).toEqual(['c'])
+  })
+})
+
+describe('getRuleKey', () => {
+  it('ignores the order of the fields', () => {
+    expect(getRuleKey({ pattern: 'LIDL', category: 'Snacks', matchType: 'exact', conditions: { maxAmount: 5, minAmount: 1 } }))
+      .toBe(getRuleKey({ matchType: 'exact', category: 'Snacks', conditions: { minAmount: 1, maxAmount: 5 }, pattern: 'LIDL' }))
+  })
+
+  it('tells rules with different conditions apart', () => {
+    expect(getRuleKey({ pattern: 'LIDL', category: 'Snacks', matchType: 'exact', conditions: { maxAmount: 5 } }))
+      .not.toBe(getRuleKey({ pattern: 'LIDL', category: 'Snacks', matchType: 'exact' }))
+  })
+})
+
+describe('describeRule', () => {
+  it('describes the title pattern', () => {
+    expect(describeRule({ pattern: 'LIDL', category: 'Groceries', matchType: 'prefix' }))
+      .toBe('title starts with "LIDL"')
+  })
+
+  it('describes every condition', () => {
+    expect(describeRule({
+      pattern: '',
+      category: 'Rent',
+      matchType: 'exact',
+      conditions: {
+        message: { pattern: 'vuokra', matchType: 'contains' },
+        minAmount: 500,
+        direction: 'income',
+        from: '2024-01-01',
+      },
+      priority: 2,
+    })).toBe('any title, message contains "vuokra", amount from 500, money in, from 2024-01-01, priority 2')
+  })
+})
+
 describe('getAutocomplete', () => {
   const categories = ['Groceries', 'Entertainment', 'Transport', 'Utilities']
 
@@ -1,5 +1,5 @@
-import type { Transaction } from '../types'
-import type { CategoryMapping } from '../types/category'
+import { getMerchantName, hashString, type Transaction } from '../types'
+import type { CategoryMapping, MatchType, TextMatch } from '../types/category'
 
 /**
  * A suggested title for categorization, with stats.
@@ -13,6 +13,8 @@ export interface TitleSuggestion {
 /**
  * Get unique expense titles ranked by total amount.
  * Used to suggest which titles should be categorized first.
+ * Card purchases are grouped by merchant, so every branch of a chain
+ * is suggested once.
  *
  * @param transactions - All transactions (filters to expenses internally)
  * @returns Array of title suggestions, sorted by total amount descending
@@ -25,7 +27,7 @@ export function suggestCategories(transactions: Transaction[]): TitleSuggestion[
   const titleMap = new Map<string, { total: number; count: number }>()
 
   for (const t of expenses) {
-    const title = t.title.trim()
+    const title = getMerchantName(t)
     if (!title) continue
 
     const existing = titleMap.get(title) || { total: 0, count: 0 }
@@ -52,26 +54,123 @@ export function suggestCategories(transactions: Transaction[]): TitleSuggestion[
 }
 
 /**
- * Check if a title matches a category mapping.
+ * Build a case-insensitive test for a pattern.
+ * A regex that doesn't compile matches nothing rather than throwing.
  */
-function titleMatchesMapping(title: string, mapping: CategoryMapping): boolean {
-  const normalizedTitle = title.toLowerCase()
+function compileTextMatch(mapping: TextMatch): (text: string) => boolean {
   const normalizedPattern = mapping.pattern.toLowerCase()
 
-  if (mapping.matchType === 'exact') {
-    return normalizedTitle === normalizedPattern
-  } else {
-    return normalizedTitle.includes(normalizedPattern)
+  switch (mapping.matchType) {
+    case 'exact':
+      return title => title.toLowerCase() === normalizedPattern
+    case 'contains':
+      return title => title.toLowerCase().includes(normalizedPattern)
+    case 'prefix':
+      return title => title.toLowerCase().startsWith(normalizedPattern)
+    case 'suffix':
+      return title => title.toLowerCase().endsWith(normalizedPattern)
+    case 'regex':
+      try {
+        const regex = new RegExp(mapping.pattern, 'i')
+        return title => regex.test(title)
+      } catch {
+        return () => false
+      }
   }
 }
 
+/**
+ * Start of a local day given as "YYYY-MM-DD", shifted by a number of days.
+ */
+function parseDay(day: string, offsetDays: number = 0): Date {
+  const [year, month, date] = day.split('-').map(Number)
+  return new Date(year, month - 1, date + offsetDays)
+}
+
+/**
+ * Build a test for every condition of a rule.
+ */
+function compileRule(mapping: CategoryMapping): (t: Transaction) => boolean {
+  const conditions = mapping.conditions ?? {}
+  const title = mapping.pattern ? compileTextMatch(mapping) : () => true
+  const name = conditions.name && compileTextMatch(conditions.name)
+  const message = conditions.message && compileTextMatch(conditions.message)
+  const reference = conditions.referenceNumber && compileTextMatch(conditions.referenceNumber)
+  const from = conditions.from ? parseDay(conditions.from) : null
+  const until = conditions.to ? parseDay(conditions.to, 1) : null
+  const isIncome = conditions.direction === 'income'
+
+  return t => {
+    if (isIncome ? t.amount <= 0 : t.amount >= 0) return false
+
+    const amount = Math.abs(t.amount)
+    if (conditions.minAmount !== undefined && amount < conditions.minAmount) return false
+    if (conditions.maxAmount !== undefined && amount >= conditions.maxAmount) return false
+    if (from && t.date < from) return false
+    if (until && t.date >= until) return false
+    if (name && !name(t.name)) return false
+    if (message && !message(t.message)) return false
+    if (reference && !reference(t.referenceNumber)) return false
+
+    // Mappings may name the raw title or the merchant
+    return [t.title.trim(), getMerchantName(t)].some(title)
+  }
+}
+
+/**
+ * Key identifying a rule by its content, recorded as categoryRule on the
+ * transactions it categorizes. Unlike the rule's position it survives other
+ * rules being reordered or deleted; editing a rule makes it a new rule.
+ */
+export function getRuleKey(mapping: CategoryMapping): string {
+  // Object keys sorted, so rules built in a different order share their key
+  const sortKeys = (_key: string, value: unknown) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+      : value
+  return hashString(JSON.stringify({ ...mapping, priority: mapping.priority || undefined }, sortKeys))
+}
+
+/**
+ * Count the conditions a rule has besides its title pattern.
+ */
+function countConditions(mapping: CategoryMapping): number {
+  return Object.values(mapping.conditions ?? {}).filter(value => value !== undefined).length
+}
+
+/**
+ * Positions of the rules in the order applyCategories tries them.
+ */
+function orderRuleIndexes(mappings: CategoryMapping[]): number[] {
+  return mappings
+    .map((mapping, index) => ({ mapping, index }))
+    .sort((a, b) =>
+      (b.mapping.priority ?? 0) - (a.mapping.priority ?? 0) ||
+      countConditions(b.mapping) - countConditions(a.mapping) ||
+      Number(b.mapping.matchType === 'exact') - Number(a.mapping.matchType === 'exact') ||
+      a.index - b.index
+    )
+    .map(({ index }) => index)
+}
+
+/**
+ * Order rules the way applyCategories tries them:
+ * 1. Higher priority first
+ * 2. Then rules with more conditions - the more specific rule wins
+ * 3. Then exact title matches before other match types
+ * 4. Then the order they were added
+ */
+export function orderRules(mappings: CategoryMapping[]): CategoryMapping[] {
+  return orderRuleIndexes(mappings).map(index => mappings[index])
+}
+
 /**
  * Apply category mappings to transactions.
  *
  * Matching rules:
- * - Only applies to expense transactions (negative amounts)
- * - Exact matches take precedence over contains matches
- * - First matching rule wins (for contains matches)
+ * - Rules apply to expenses (negative amounts) unless they ask for income
+ * - Rules are tried in the order of orderRules; the first match wins
+ * - The winning rule's key (getRuleKey) is kept as categoryRule
  *
  * @param transactions - All transactions
  * @param mappings - Category mappings to apply
@@ -81,36 +180,171 @@ export function applyCategories(
   transactions: Transaction[],
   mappings: CategoryMapping[]
 ): Transaction[] {
-  // Separate exact and contains mappings for precedence
-  const exactMappings = mappings.filter(m => m.matchType === 'exact')
-  const containsMappings = mappings.filter(m => m.matchType === 'contains')
+  // Each rule compiled once, in the order they're tried
+  const compiled = orderRules(mappings).map(mapping => ({
+    mapping,
+    key: getRuleKey(mapping),
+    matches: compileRule(mapping),
+  }))
 
   return transactions.map(t => {
-    // Only categorize expenses
-    if (t.amount >= 0) return t
-
     // Already categorized? Skip
     if (t.category) return t
 
-    const title = t.title.trim()
+    const match = compiled.find(({ matches }) => matches(t))
+    return match ? { ...t, category: match.mapping.category, categoryRule: match.key } : t
+  })
+}
 
-    // Try exact matches first
-    for (const mapping of exactMappings) {
-      if (titleMatchesMapping(title, mapping)) {
-        return { ...t, category: mapping.category }
-      }
+/**
+ * Categorize transactions from scratch, so a new higher-priority rule can
+ * take over transactions an earlier rule had claimed.
+ */
+export function reapplyCategories(
+  transactions: Transaction[],
+  mappings: CategoryMapping[]
+): Transaction[] {
+  return applyCategories(
+    transactions.map(t => ({ ...t, category: undefined, categoryRule: undefined })),
+    mappings
+  )
+}
+
+/**
+ * Find the transactions a rule matches, ignoring other rules.
+ */
+export function findRuleMatches(transactions: Transaction[], mapping: CategoryMapping): Transaction[] {
+  const matches = compileRule(mapping)
+  return transactions.filter(matches)
+}
+
+/**
+ * How a rule fares against the transactions:
+ * - active: categorizes at least one transaction
+ * - unmatched: matches no transaction
+ * - shadowed: every transaction it matches was categorized by another rule
+ * - unused: matches transactions but categorizes none, and no other rule
+ *   took them either - e.g. they were categorized by hand or by a removed rule
+ */
+export type RuleStatus = 'active' | 'unmatched' | 'shadowed' | 'unused'
+
+/**
+ * A transaction a rule categorized, with the other rules that matched it too.
+ */
+export interface RuleWin {
+  transaction: Transaction
+  alsoMatched: number[]     // Positions of the other rules that match it, in the order tried
+}
+
+/**
+ * What one rule matches and categorizes.
+ */
+export interface RuleStats {
+  index: number             // Position in the mappings
+  key: string               // getRuleKey of the rule, as recorded on the transactions it categorized
+  mapping: CategoryMapping
+  matchCount: number        // Transactions the rule matches, whether it categorized them or not
+  matchAmount: number       // Their total, ignoring sign
+  wins: RuleWin[]           // Transactions the rule categorized
+  winAmount: number
+  status: RuleStatus
+  shadowedBy: number[]      // Positions of the rules that categorized any of its matches
+}
+
+/**
+ * Explain how rules categorize transactions: for every rule, what it
+ * matches, which transactions it categorized, and which rules took the
+ * rest. Which rule categorized a transaction is read from the categoryRule
+ * applyCategories recorded, so the explanation agrees with the categories
+ * the transactions have - even where a rule was added after them.
+ *
+ * @param transactions - Categorized transactions to explain
+ * @param mappings - Category mappings, as applied
+ * @returns Stats per rule, in the order the rules are tried
+ */
+export function explainRules(transactions: Transaction[], mappings: CategoryMapping[]): RuleStats[] {
+  const order = orderRuleIndexes(mappings)
+  const compiled = order.map(index => compileRule(mappings[index]))
+  const stats: RuleStats[] = order.map(index => ({
+    index,
+    key: getRuleKey(mappings[index]),
+    mapping: mappings[index],
+    matchCount: 0,
+    matchAmount: 0,
+    wins: [],
+    winAmount: 0,
+    status: 'unmatched',
+    shadowedBy: [],
+  }))
+
+  // Of two identical rules the one tried first is the one that categorizes
+  const rankByKey = new Map<string, number>()
+  stats.forEach((rule, rank) => {
+    if (!rankByKey.has(rule.key)) rankByKey.set(rule.key, rank)
+  })
+
+  for (const t of transactions) {
+    const matched = compiled.flatMap((matches, rank) => (matches(t) ? [rank] : []))
+    const amount = Math.abs(t.amount)
+    for (const rank of matched) {
+      stats[rank].matchCount++
+      stats[rank].matchAmount += amount
     }
 
-    // Then try contains matches
-    for (const mapping of containsMappings) {
-      if (titleMatchesMapping(title, mapping)) {
-        return { ...t, category: mapping.category }
+    const winner = t.categoryRule === undefined ? undefined : rankByKey.get(t.categoryRule)
+    if (winner === undefined) continue
+
+    const losers = matched.filter(rank => rank !== winner)
+    stats[winner].wins.push({ transaction: t, alsoMatched: losers.map(rank => order[rank]) })
+    stats[winner].winAmount += amount
+
+    for (const rank of losers) {
+      if (!stats[rank].shadowedBy.includes(order[winner])) {
+        stats[rank].shadowedBy.push(order[winner])
       }
     }
+  }
 
-    // No match
-    return t
-  })
+  for (const rule of stats) {
+    if (rule.matchCount === 0) rule.status = 'unmatched'
+    else if (rule.wins.length > 0) rule.status = 'active'
+    else rule.status = rule.shadowedBy.length > 0 ? 'shadowed' : 'unused'
+  }
+  return stats
+}
+
+const MATCH_TYPE_LABELS: Record<MatchType, string> = {
+  exact: 'is',
+  contains: 'contains',
+  prefix: 'starts with',
+  suffix: 'ends with',
+  regex: 'matches',
+}
+
+/**
+ * Describe a rule's conditions in words.
+ *
+ * Example:
+ * { pattern: 'LIDL', matchType: 'contains', conditions: { maxAmount: 5 } }
+ *   -> 'title contains "LIDL", amount under 5'
+ */
+export function describeRule(mapping: CategoryMapping): string {
+  const text = (field: string, match: TextMatch) =>
+    `${field} ${MATCH_TYPE_LABELS[match.matchType]} "${match.pattern}"`
+  const conditions = mapping.conditions ?? {}
+
+  const parts = [mapping.pattern ? text('title', mapping) : 'any title']
+  if (conditions.name) parts.push(text('name', conditions.name))
+  if (conditions.message) parts.push(text('message', conditions.message))
+  if (conditions.referenceNumber) parts.push(text('reference', conditions.referenceNumber))
+  if (conditions.minAmount !== undefined) parts.push(`amount from ${conditions.minAmount}`)
+  if (conditions.maxAmount !== undefined) parts.push(`amount under ${conditions.maxAmount}`)
+  if (conditions.direction === 'income') parts.push('money in')
+  if (conditions.from) parts.push(`from ${conditions.from}`)
+  if (conditions.to) parts.push(`until ${conditions.to}`)
+  if (mapping.priority) parts.push(`priority ${mapping.priority}`)
+
+  return parts.join(', ')
 }
 
 /**
@@ -150,7 +384,7 @@ export function getUniqueCategories(mappings: CategoryMapping[]): string[] {
 export function createMapping(
   pattern: string,
   category: string,
-  matchType: 'exact' | 'contains' = 'exact'
+  matchType: MatchType = 'exact'
 ): CategoryMapping {
   return { pattern, category, matchType }
 }
@@ -190,6 +190,18 @@ describe('tagContributions', () => {
     expect(tagged[1].contributor).toBe('Jordan')
   })
 
+  it('does not tag internal transfers', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'a', amount: 500, name: 'ALEX', isInternal: true }),
+      createTransaction({ id: 'b', amount: 300, name: 'SAVINGS', isInternal: true, contributor: 'Other' }),
+    ]
+
+    const tagged = tagContributions(transactions, ['Alex'])
+
+    expect(tagged[0].contributor).toBeUndefined()
+    expect(tagged[1].contributor).toBeUndefined()
+  })
+
   it('tags unselected contributors as Other', () => {
     const transactions: Transaction[] = [
       createTransaction({ id: 'a', amount: 500, name: 'ALEX' }),
@@ -99,7 +99,7 @@ export function findAllContributors(transactions: Transaction[]): Contributor[]
  * - If name matches a selected contributor, tag with that contributor
  * - Otherwise tag as "Other"
  *
- * For expense transactions:
+ * For expense transactions and internal transfers:
  * - Leave contributor undefined
  *
  * @param transactions - All transactions
@@ -121,6 +121,11 @@ export function tagContributions(
       return t
     }
 
+    // Money moved from our own accounts is nobody's contribution
+    if (t.isInternal) {
+      return t.contributor ? { ...t, contributor: undefined } : t
+    }
+
     // Extract name from transaction
     const rawName = t.name.trim() || t.title.trim()
     const extractedName = extractNameFromTitle(rawName)
@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest'
+import {
+  parseRateTable,
+  findRate,
+  getCurrencies,
+  findMissingRates,
+  convertTransactions,
+} from './currency'
+import { CSVParseError } from '../parsers'
+import type { ExchangeRate, Transaction } from '../types'
+
+function createTransaction(overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    id: 'test-0',
+    date: new Date('2024-05-10'),
+    amount: -100,
+    title: 'TEST',
+    name: '',
+    referenceNumber: '',
+    message: '',
+    sourceFile: 'test.csv',
+    ...overrides,
+  }
+}
+
+const RATES: ExchangeRate[] = [
+  { date: new Date('2024-05-01'), currency: 'SEK', rate: 0.086 },
+  { date: new Date('2024-06-01'), currency: 'SEK', rate: 0.09 },
+  { date: new Date('2024-05-01'), currency: 'USD', rate: 0.92 },
+]
+
+describe('parseRateTable', () => {
+  it('parses ISO and dotted dates, sorted oldest first', () => {
+    const csv = `date,currency,rate
+2024-06-01,SEK,0.09
+01.05.2024,sek,0.086`
+
+    const rates = parseRateTable(csv, 'rates.csv')
+
+    expect(rates).toHaveLength(2)
+    expect(rates[0].date.getMonth()).toBe(4)
+    expect(rates[0].currency).toBe('SEK')
+    expect(rates[1].rate).toBe(0.09)
+  })
+
+  it('accepts a decimal comma and header case', () => {
+    const csv = `Date;Currency;Rate
+2024-05-01;USD;0,92`
+
+    expect(parseRateTable(csv, 'rates.csv')[0].rate).toBe(0.92)
+  })
+
+  it('throws CSVParseError on missing columns', () => {
+    expect(() => parseRateTable('date,rate\n2024-05-01,1', 'rates.csv')).toThrow(CSVParseError)
+  })
+
+  it('throws CSVParseError with the row on an invalid rate', () => {
+    const csv = `date,currency,rate
+2024-05-01,SEK,abc`
+
+    try {
+      parseRateTable(csv, 'rates.csv')
+      expect.fail('should have thrown')
+    } catch (error) {
+      expect(error).toBeInstanceOf(CSVParseError)
+      expect((error as CSVParseError).row).toBe(1)
+    }
+  })
+})
+
+describe('findRate', () => {
+  it('uses the latest rate on or before the date', () => {
+    expect(findRate(RATES, 'SEK', new Date('2024-05-31'))).toBe(0.086)
+    expect(findRate(RATES, 'SEK', new Date('2024-06-01'))).toBe(0.09)
+  })
+
+  it('falls back to the earliest rate before the table starts', () => {
+    expect(findRate(RATES, 'SEK', new Date('2024-01-01'))).toBe(0.086)
+  })
+
+  it('returns undefined for an unknown currency', () => {
+    expect(findRate(RATES, 'GBP', new Date('2024-05-10'))).toBeUndefined()
+  })
+})
+
+describe('getCurrencies', () => {
+  it('counts transactions per currency, defaulting to EUR', () => {
+    const transactions = [
+      createTransaction({ currency: 'SEK' }),
+      createTransaction({ currency: 'SEK' }),
+      createTransaction(),
+    ]
+
+    expect(getCurrencies(transactions)).toEqual([
+      { currency: 'SEK', transactionCount: 2 },
+      { currency: 'EUR', transactionCount: 1 },
+    ])
+  })
+})
+
+describe('findMissingRates', () => {
+  it('lists foreign currencies without a rate', () => {
+    const transactions = [
+      createTransaction({ currency: 'EUR' }),
+      createTransaction({ currency: 'SEK' }),
+      createTransaction({ currency: 'GBP' }),
+    ]
+
+    expect(findMissingRates(transactions, RATES, 'EUR')).toEqual(['GBP'])
+  })
+})
+
+describe('convertTransactions', () => {
+  it('converts amounts and balances, keeping the originals', () => {
+    const transactions = [createTransaction({ amount: -1000, balance: 5000, currency: 'SEK' })]
+
+    const [converted] = convertTransactions(transactions, RATES, 'EUR')
+
+    expect(converted.amount).toBe(-86)
+    expect(converted.balance).toBe(430)
+    expect(converted.currency).toBe('EUR')
+    expect(converted.originalAmount).toBe(-1000)
+    expect(converted.originalBalance).toBe(5000)
+    expect(converted.originalCurrency).toBe('SEK')
+  })
+
+  it('leaves base currency transactions unchanged', () => {
+    const transactions = [createTransaction({ amount: -12.5, currency: 'EUR' })]
+
+    const [converted] = convertTransactions(transactions, RATES, 'EUR')
+
+    expect(converted.amount).toBe(-12.5)
+    expect(converted.originalAmount).toBeUndefined()
+  })
+
+  it('rounds converted amounts to the cent', () => {
+    const transactions = [createTransaction({ amount: -33.33, currency: 'USD' })]
+
+    expect(convertTransactions(transactions, RATES, 'EUR')[0].amount).toBe(-30.66)
+  })
+
+  it('converts again from the originals', () => {
+    const once = convertTransactions([createTransaction({ amount: -100, currency: 'USD' })], RATES, 'EUR')
+
+    // Back to the account's own currency
+    const [back] = convertTransactions(once, RATES, 'USD')
+
+    expect(back.amount).toBe(-100)
+    expect(back.currency).toBe('USD')
+    expect(back.originalCurrency).toBeUndefined()
+  })
+
+  it('throws when a currency has no rate', () => {
+    const transactions = [createTransaction({ currency: 'GBP' })]
+
+    expect(() => convertTransactions(transactions, RATES, 'EUR')).toThrow('No exchange rate for GBP')
+  })
+})
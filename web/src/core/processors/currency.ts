@@ -0,0 +1,204 @@
+import Papa from 'papaparse'
+import {
+  getAccountCurrency,
+  getBookedAmount,
+  getBookedBalance,
+  parseDateWithFormat,
+  type ExchangeRate,
+  type Transaction,
+} from '../types'
+import { CSVParseError } from '../parsers'
+
+/**
+ * A currency found in the statements, with how many transactions use it.
+ */
+export interface CurrencyUsage {
+  currency: string
+  transactionCount: number
+}
+
+/**
+ * Columns expected in a rate table CSV (case-insensitive).
+ */
+const RATE_COLUMNS = ['date', 'currency', 'rate']
+
+/**
+ * Parse an exchange rate table CSV: one rate per row with "date", "currency"
+ * and "rate" columns. Dates are "YYYY-MM-DD" or "DD.MM.YYYY"; rates may use
+ * a decimal comma.
+ *
+ * Example:
+ * date,currency,rate
+ * 2024-05-01,SEK,0.0862
+ *
+ * @param csvString - The raw CSV content as a string
+ * @param filename - The name of the source file (for error messages)
+ * @returns Rates sorted by date (oldest first)
+ * @throws CSVParseError if the file is not a valid rate table
+ */
+export function parseRateTable(csvString: string, filename: string): ExchangeRate[] {
+  const trimmed = csvString.trim()
+  if (!trimmed) {
+    throw new CSVParseError('Rate table is empty', filename)
+  }
+
+  const result = Papa.parse<Record<string, string>>(trimmed, {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: h => h.trim().toLowerCase(),
+  })
+
+  const columns = result.meta.fields || []
+  const missingColumns = RATE_COLUMNS.filter(col => !columns.includes(col))
+  if (missingColumns.length > 0) {
+    throw new CSVParseError(
+      `Missing required columns: ${missingColumns.join(', ')}`,
+      filename
+    )
+  }
+
+  const rates: ExchangeRate[] = []
+
+  for (let i = 0; i < result.data.length; i++) {
+    const row = result.data[i]
+
+    try {
+      const dateText = (row.date ?? '').trim()
+      const currency = (row.currency ?? '').trim().toUpperCase()
+      const rate = parseFloat((row.rate ?? '').trim().replace(',', '.'))
+
+      if (!/^[A-Z]{3}$/.test(currency)) {
+        throw new Error(`Invalid currency code: "${row.currency}"`)
+      }
+      if (isNaN(rate) || rate <= 0) {
+        throw new Error(`Invalid rate: "${row.rate}"`)
+      }
+
+      rates.push({
+        date: parseDateWithFormat(dateText, dateText.includes('.') ? 'DD.MM.YYYY' : 'YYYY-MM-DD'),
+        currency,
+        rate,
+      })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      throw new CSVParseError(
+        `Failed to parse row ${i + 1}: ${message}`,
+        filename,
+        i + 1
+      )
+    }
+  }
+
+  if (rates.length === 0) {
+    throw new CSVParseError('Rate table contains no rates', filename)
+  }
+
+  return rates.sort((a, b) => a.date.getTime() - b.date.getTime())
+}
+
+/**
+ * Find the rate for a currency on a date: the latest rate on or before the
+ * date, or the earliest rate if the table starts after it.
+ *
+ * @returns Units of base currency per unit of `currency`, or undefined if the table has none
+ */
+export function findRate(rates: ExchangeRate[], currency: string, date: Date): number | undefined {
+  const forCurrency = rates
+    .filter(r => r.currency === currency)
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+
+  if (forCurrency.length === 0) return undefined
+
+  let rate = forCurrency[0].rate
+  for (const r of forCurrency) {
+    if (r.date > date) break
+    rate = r.rate
+  }
+
+  return rate
+}
+
+/**
+ * List the currencies used in the statements, most used first.
+ */
+export function getCurrencies(transactions: Transaction[]): CurrencyUsage[] {
+  const counts = new Map<string, number>()
+
+  for (const t of transactions) {
+    const currency = getAccountCurrency(t)
+    counts.set(currency, (counts.get(currency) || 0) + 1)
+  }
+
+  return Array.from(counts, ([currency, transactionCount]) => ({ currency, transactionCount }))
+    .sort((a, b) => b.transactionCount - a.transactionCount)
+}
+
+/**
+ * Find currencies that need converting but have no rate in the table.
+ */
+export function findMissingRates(
+  transactions: Transaction[],
+  rates: ExchangeRate[],
+  baseCurrency: string
+): string[] {
+  const available = new Set(rates.map(r => r.currency))
+  return getCurrencies(transactions)
+    .map(c => c.currency)
+    .filter(currency => currency !== baseCurrency && !available.has(currency))
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Convert transactions to the base currency.
+ *
+ * Amounts and balances are replaced with base currency values, keeping the
+ * statement's figures in originalAmount/originalCurrency/originalBalance.
+ * Converting again (e.g. with a new base currency) starts from the originals.
+ *
+ * @param transactions - Transactions in any currency
+ * @param rates - Exchange rates against the base currency
+ * @param baseCurrency - Currency to convert to
+ * @returns New array of transactions in the base currency
+ * @throws Error if a currency has no rate
+ */
+export function convertTransactions(
+  transactions: Transaction[],
+  rates: ExchangeRate[],
+  baseCurrency: string
+): Transaction[] {
+  return transactions.map(t => {
+    const currency = getAccountCurrency(t)
+    const amount = getBookedAmount(t)
+    const balance = getBookedBalance(t)
+
+    if (currency === baseCurrency) {
+      return {
+        ...t,
+        amount,
+        balance,
+        currency,
+        originalAmount: undefined,
+        originalCurrency: undefined,
+        originalBalance: undefined,
+      }
+    }
+
+    const rate = findRate(rates, currency, t.date)
+    if (rate === undefined) {
+      throw new Error(`No exchange rate for ${currency}`)
+    }
+
+    return {
+      ...t,
+      amount: roundCents(amount * rate),
+      balance: balance !== undefined ? roundCents(balance * rate) : undefined,
+      currency: baseCurrency,
+      originalAmount: amount,
+      originalCurrency: currency,
+      originalBalance: balance,
+    }
+  })
+}
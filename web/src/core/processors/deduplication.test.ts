@@ -1,12 +1,21 @@
 import { describe, it, expect } from 'vitest'
 import {
+  findReuploadedFiles,
+  getUniqueFilenames,
   findDuplicates,
+  findFuzzyDuplicates,
   removeDuplicates,
+  getDuplicateGroupKey,
+  getCopiesToRemove,
   getTransactionsToRemove,
+  getFileHashes,
+  createDuplicateDecision,
+  isDecisionMatched,
   markDuplicates,
   deduplicateTransactions,
 } from './deduplication'
 import type { Transaction } from '../types'
+import type { ImportReport } from '../parsers'
 
 // Helper to create test transactions
 function createTransaction(overrides: Partial<Transaction> = {}): Transaction {
@@ -23,7 +32,163 @@ function createTransaction(overrides: Partial<Transaction> = {}): Transaction {
   }
 }
 
+function createReport(filename: string, contentHash?: string): ImportReport {
+  return { filename, format: 'Nordea', transactionCount: 0, skipped: [], warnings: [], contentHash }
+}
+
+// One file's transactions, with the IDs the parsers would give them
+function createFile(sourceFile: string, titles: string[]): Transaction[] {
+  const seen = new Map<string, number>()
+  return titles.map(title => {
+    const occurrence = seen.get(title) ?? 0
+    seen.set(title, occurrence + 1)
+    return createTransaction({ id: `${title}-${occurrence}`, title, sourceFile })
+  })
+}
+
+describe('findReuploadedFiles', () => {
+  it('finds a file uploaded twice under another name', () => {
+    const transactions = [
+      ...createFile('may.csv', ['ALEPA', 'LIDL']),
+      ...createFile('may (1).csv', ['ALEPA', 'LIDL']),
+    ]
+
+    const reuploads = findReuploadedFiles(
+      [createReport('may.csv', 'h1'), createReport('may (1).csv', 'h1')],
+      transactions
+    )
+
+    expect(reuploads).toEqual([
+      { filename: 'may (1).csv', duplicateOf: 'may.csv', kind: 'identical', transactionCount: 2 },
+    ])
+  })
+
+  it('finds a file whose transactions are all in another file', () => {
+    const transactions = [
+      ...createFile('may.csv', ['ALEPA', 'LIDL']),
+      ...createFile('2024.csv', ['K-MARKET', 'ALEPA', 'LIDL', 'PRISMA']),
+    ]
+
+    const reuploads = findReuploadedFiles(
+      [createReport('may.csv', 'h1'), createReport('2024.csv', 'h2')],
+      transactions
+    )
+
+    expect(reuploads).toEqual([
+      { filename: 'may.csv', duplicateOf: '2024.csv', kind: 'contained', transactionCount: 2 },
+    ])
+  })
+
+  it('keeps the first of two files with the same transactions', () => {
+    const transactions = [
+      ...createFile('may.csv', ['ALEPA', 'LIDL']),
+      ...createFile('may-export.csv', ['LIDL', 'ALEPA']),
+    ]
+
+    const reuploads = findReuploadedFiles(
+      [createReport('may.csv', 'h1'), createReport('may-export.csv', 'h2')],
+      transactions
+    )
+
+    expect(reuploads.map(r => r.filename)).toEqual(['may-export.csv'])
+    expect(reuploads[0].kind).toBe('contained')
+  })
+
+  it('counts repeated rows', () => {
+    const transactions = [
+      ...createFile('may.csv', ['HSL BUS', 'HSL BUS']),
+      ...createFile('export.csv', ['HSL BUS']),
+    ]
+
+    const reuploads = findReuploadedFiles(
+      [createReport('may.csv'), createReport('export.csv')],
+      transactions
+    )
+
+    expect(reuploads.map(r => r.filename)).toEqual(['export.csv'])
+  })
+
+  it('leaves overlapping statements to findDuplicates', () => {
+    const transactions = [
+      ...createFile('may.csv', ['ALEPA', 'LIDL']),
+      ...createFile('june.csv', ['LIDL', 'PRISMA']),
+    ]
+
+    expect(findReuploadedFiles([createReport('may.csv'), createReport('june.csv')], transactions)).toEqual([])
+  })
+
+  it('points at the file that is kept', () => {
+    const transactions = [
+      ...createFile('may.csv', ['ALEPA']),
+      ...createFile('q2.csv', ['ALEPA', 'LIDL']),
+      ...createFile('2024.csv', ['ALEPA', 'LIDL', 'PRISMA']),
+    ]
+
+    const reuploads = findReuploadedFiles(
+      [createReport('may.csv'), createReport('q2.csv'), createReport('2024.csv')],
+      transactions
+    )
+
+    expect(reuploads.map(r => [r.filename, r.duplicateOf])).toEqual([
+      ['may.csv', '2024.csv'],
+      ['q2.csv', '2024.csv'],
+    ])
+  })
+
+  it('leaves alone uploads that share a filename', () => {
+    const transactions = [
+      ...createFile('export.csv', ['ALEPA', 'LIDL']),
+      ...createFile('export.csv', ['PRISMA']),
+    ]
+
+    const reuploads = findReuploadedFiles(
+      [createReport('export.csv', 'h1'), createReport('export.csv', 'h2')],
+      transactions
+    )
+
+    expect(reuploads).toEqual([])
+  })
+
+  it('tells same-named uploads apart once they have unique names', () => {
+    const [first, second] = getUniqueFilenames(['export.csv', 'export.csv'])
+    const transactions = [
+      ...createFile(first, ['ALEPA', 'LIDL']),
+      ...createFile(second, ['ALEPA', 'LIDL']),
+    ]
+
+    const reuploads = findReuploadedFiles(
+      [createReport(first, 'h1'), createReport(second, 'h1')],
+      transactions
+    )
+
+    expect(reuploads).toEqual([
+      { filename: 'export (2).csv', duplicateOf: 'export.csv', kind: 'identical', transactionCount: 2 },
+    ])
+  })
+})
+
+describe('getUniqueFilenames', () => {
+  it('numbers repeated names', () => {
+    expect(getUniqueFilenames(['export.csv', 'may.csv', 'export.csv', 'export.csv', 'README']))
+      .toEqual(['export.csv', 'may.csv', 'export (2).csv', 'export (3).csv', 'README'])
+  })
+
+  it('skips numbers already taken by another upload', () => {
+    expect(getUniqueFilenames(['export.csv', 'export (2).csv', 'export.csv']))
+      .toEqual(['export.csv', 'export (2).csv', 'export (3).csv'])
+  })
+})
+
 describe('findDuplicates', () => {
+  it('does not match identical rows from different accounts', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ sourceFile: 'checking.csv', senderAccount: 'FI69 2000 4200 0420 42' }),
+      createTransaction({ sourceFile: 'savings.csv', senderAccount: 'FI98 7654 3210 9876 54' }),
+    ]
+
+    expect(findDuplicates(transactions)).toEqual([])
+  })
+
   it('finds duplicates across different source files', () => {
     const transactions: Transaction[] = [
       createTransaction({ id: 'a', sourceFile: 'may.csv' }),
@@ -122,6 +287,28 @@ describe('findDuplicates', () => {
     expect(groups).toHaveLength(0)
   })
 
+  it('matches by external ID even when other fields differ', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'a', externalId: 'ARCH1', title: 'STORE', sourceFile: 'f1.xml' }),
+      createTransaction({ id: 'b', externalId: 'ARCH1', title: 'STORE OY', sourceFile: 'f2.xml' }),
+    ]
+
+    const groups = findDuplicates(transactions)
+
+    expect(groups).toHaveLength(1)
+  })
+
+  it('distinguishes transactions by external ID', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'a', externalId: 'ARCH1', sourceFile: 'f1.xml' }),
+      createTransaction({ id: 'b', externalId: 'ARCH2', sourceFile: 'f2.xml' }), // Same details, different entry
+    ]
+
+    const groups = findDuplicates(transactions)
+
+    expect(groups).toHaveLength(0)
+  })
+
   it('finds multiple duplicate groups', () => {
     const transactions: Transaction[] = [
       // Group 1: STORE A
@@ -152,6 +339,115 @@ describe('findDuplicates', () => {
     expect(groups[0].title).toBe('MAY')
     expect(groups[1].title).toBe('JUNE')
   })
+
+  it('pairs repeated rows occurrence by occurrence', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'bus-0', title: 'HSL BUS', sourceFile: 'may.csv' }),
+      createTransaction({ id: 'bus-1', title: 'HSL BUS', sourceFile: 'may.csv' }),
+      createTransaction({ id: 'bus-0', title: 'HSL BUS', sourceFile: 'export.csv' }),
+      createTransaction({ id: 'bus-1', title: 'HSL BUS', sourceFile: 'export.csv' }),
+    ]
+
+    const groups = findDuplicates(transactions)
+
+    expect(groups).toHaveLength(2)
+    expect(groups.map(g => g.transactions.map(t => t.sourceFile))).toEqual([
+      ['may.csv', 'export.csv'],
+      ['may.csv', 'export.csv'],
+    ])
+  })
+
+  it('leaves occurrences only one file has out of the groups', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'bus-0', title: 'HSL BUS', sourceFile: 'may.csv' }),
+      createTransaction({ id: 'bus-1', title: 'HSL BUS', sourceFile: 'may.csv' }),
+      createTransaction({ id: 'bus-2', title: 'HSL BUS', sourceFile: 'may.csv' }),
+      createTransaction({ id: 'bus-0', title: 'HSL BUS', sourceFile: 'export.csv' }),
+    ]
+
+    const groups = findDuplicates(transactions)
+
+    expect(groups).toHaveLength(1)
+    expect(groups[0].transactions.map(t => t.id)).toEqual(['bus-0', 'bus-0'])
+  })
+})
+
+describe('findFuzzyDuplicates', () => {
+  it('matches copies booked a day apart', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'a', sourceFile: 'may.csv', date: new Date('2024-05-10') }),
+      createTransaction({ id: 'b', sourceFile: 'export.csv', date: new Date('2024-05-11') }),
+    ]
+
+    const groups = findFuzzyDuplicates(transactions)
+
+    expect(groups).toHaveLength(1)
+    expect(groups[0].transactions.map(t => t.id)).toEqual(['a', 'b'])
+    expect(groups[0].confidence).toBe(0.8)
+  })
+
+  it('respects the date tolerance', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ sourceFile: 'may.csv', date: new Date('2024-05-10') }),
+      createTransaction({ sourceFile: 'export.csv', date: new Date('2024-05-12') }),
+    ]
+
+    expect(findFuzzyDuplicates(transactions, { dateToleranceDays: 1 })).toHaveLength(0)
+    expect(findFuzzyDuplicates(transactions, { dateToleranceDays: 2 })).toHaveLength(1)
+  })
+
+  it('ignores case and spacing in titles', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ sourceFile: 'may.csv', title: 'TEST  STORE' }),
+      createTransaction({ sourceFile: 'export.csv', title: 'Test Store ' }),
+    ]
+
+    const groups = findFuzzyDuplicates(transactions, { dateToleranceDays: 0 })
+
+    expect(groups).toHaveLength(1)
+    expect(groups[0].confidence).toBe(0.95)
+  })
+
+  it('does not match different amounts or titles', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ sourceFile: 'may.csv', date: new Date('2024-05-10') }),
+      createTransaction({ sourceFile: 'export.csv', date: new Date('2024-05-11'), amount: -51 }),
+      createTransaction({ sourceFile: 'june.csv', date: new Date('2024-05-11'), title: 'OTHER STORE' }),
+    ]
+
+    expect(findFuzzyDuplicates(transactions)).toHaveLength(0)
+  })
+
+  it('leaves exact duplicates to findDuplicates', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ sourceFile: 'may.csv' }),
+      createTransaction({ sourceFile: 'export.csv' }),
+    ]
+
+    expect(findFuzzyDuplicates(transactions)).toHaveLength(0)
+  })
+
+  it('does not match copies in the same file', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ sourceFile: 'may.csv', date: new Date('2024-05-10') }),
+      createTransaction({ sourceFile: 'may.csv', date: new Date('2024-05-11') }),
+    ]
+
+    expect(findFuzzyDuplicates(transactions)).toHaveLength(0)
+  })
+
+  it('puts the most confident matches first', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ sourceFile: 'may.csv', date: new Date('2024-05-01'), referenceNumber: '' }),
+      createTransaction({ sourceFile: 'export.csv', date: new Date('2024-05-02') }),
+      createTransaction({ sourceFile: 'may.csv', date: new Date('2024-05-20'), title: 'CAFE' }),
+      createTransaction({ sourceFile: 'export.csv', date: new Date('2024-05-20'), title: 'Cafe' }),
+    ]
+
+    const groups = findFuzzyDuplicates(transactions)
+
+    expect(groups.map(g => g.confidence)).toEqual([0.95, 0.7])
+  })
 })
 
 describe('getTransactionsToRemove', () => {
@@ -170,6 +466,128 @@ describe('getTransactionsToRemove', () => {
     expect(toRemove.map(t => t.id)).toContain('c')
     expect(toRemove.map(t => t.id)).not.toContain('a')
   })
+
+  it('follows the decision for a group', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ sourceFile: 'f1.csv' }),
+      createTransaction({ sourceFile: 'f2.csv' }),
+      createTransaction({ sourceFile: 'f3.csv' }),
+    ]
+
+    const groups = findDuplicates(transactions)
+    const groupKey = getDuplicateGroupKey(groups[0])
+    const toRemove = getTransactionsToRemove(groups, [{ groupKey, keep: ['f2.csv', 'f3.csv'] }])
+
+    expect(toRemove.map(t => t.sourceFile)).toEqual(['f1.csv'])
+  })
+})
+
+describe('getDuplicateGroupKey', () => {
+  it('is the same for the group found in a later import', () => {
+    const may = createTransaction({ id: 'x-0', sourceFile: 'may.csv' })
+    const first = findDuplicates([may, createTransaction({ id: 'x-0', sourceFile: 'export.csv' })])
+    const later = findDuplicates([may, createTransaction({ id: 'x-0', sourceFile: 'renamed.csv' })])
+
+    expect(getDuplicateGroupKey(later[0])).toBe(getDuplicateGroupKey(first[0]))
+  })
+
+  it('lists each copy of a likely duplicate', () => {
+    const groups = findFuzzyDuplicates([
+      createTransaction({ id: 'b-0', sourceFile: 'may.csv', date: new Date('2024-05-10') }),
+      createTransaction({ id: 'a-0', sourceFile: 'export.csv', date: new Date('2024-05-11') }),
+    ])
+
+    expect(getDuplicateGroupKey(groups[0])).toBe('a-0+b-0')
+  })
+})
+
+describe('getCopiesToRemove', () => {
+  const group = findDuplicates([
+    createTransaction({ sourceFile: 'may.csv' }),
+    createTransaction({ sourceFile: 'export.csv' }),
+  ])[0]
+  const groupKey = getDuplicateGroupKey(group)
+
+  it('keeps the first copy by default', () => {
+    expect(getCopiesToRemove(group).map(t => t.sourceFile)).toEqual(['export.csv'])
+  })
+
+  it('keeps the chosen copies', () => {
+    const toRemove = getCopiesToRemove(group, { groupKey, keep: ['export.csv'] })
+
+    expect(toRemove.map(t => t.sourceFile)).toEqual(['may.csv'])
+  })
+
+  it('keeps every copy of a group that is not a duplicate', () => {
+    expect(getCopiesToRemove(group, { groupKey, keep: [], notDuplicate: true })).toEqual([])
+  })
+
+  it('falls back to the first copy when the kept file is not in the group', () => {
+    const toRemove = getCopiesToRemove(group, { groupKey, keep: ['old-name.csv'] })
+
+    expect(toRemove.map(t => t.sourceFile)).toEqual(['export.csv'])
+  })
+
+  it('follows a renamed file by its content', () => {
+    const decision = createDuplicateDecision(groupKey, ['export.csv'], new Map([['export.csv', 'h2']]))
+    const renamed = findDuplicates([
+      createTransaction({ sourceFile: 'may.csv' }),
+      createTransaction({ sourceFile: 'export (2).csv' }),
+    ])[0]
+    const fileHashes = new Map([['may.csv', 'h1'], ['export (2).csv', 'h2']])
+
+    expect(getCopiesToRemove(renamed, decision, fileHashes).map(t => t.sourceFile)).toEqual(['may.csv'])
+  })
+
+  it('does not keep a different file saved under the same name', () => {
+    const decision = createDuplicateDecision(groupKey, ['export.csv'], new Map([['export.csv', 'h2']]))
+    const fileHashes = new Map([['may.csv', 'h1'], ['export.csv', 'h3']])
+
+    expect(isDecisionMatched(group, decision, fileHashes)).toBe(false)
+    expect(getCopiesToRemove(group, decision, fileHashes).map(t => t.sourceFile)).toEqual(['export.csv'])
+  })
+})
+
+describe('isDecisionMatched', () => {
+  const group = findDuplicates([
+    createTransaction({ sourceFile: 'may.csv' }),
+    createTransaction({ sourceFile: 'export.csv' }),
+  ])[0]
+  const groupKey = getDuplicateGroupKey(group)
+
+  it('matches decisions keeping a copy in the group', () => {
+    expect(isDecisionMatched(group, { groupKey, keep: ['export.csv'] })).toBe(true)
+  })
+
+  it('does not match decisions naming only files that are not uploaded', () => {
+    expect(isDecisionMatched(group, { groupKey, keep: ['old-name.csv'] })).toBe(false)
+  })
+
+  it('matches groups that are not duplicates', () => {
+    expect(isDecisionMatched(group, { groupKey, keep: ['old-name.csv'], notDuplicate: true })).toBe(true)
+  })
+})
+
+describe('createDuplicateDecision', () => {
+  it('records the kept files by name and content', () => {
+    const fileHashes = getFileHashes([
+      { filename: 'may.csv', format: 'Nordea CSV', transactionCount: 1, skipped: [], warnings: [], contentHash: 'h1' },
+    ])
+
+    expect(createDuplicateDecision('k', ['may.csv'], fileHashes)).toEqual({
+      groupKey: 'k',
+      keep: ['may.csv'],
+      keepContent: ['h1'],
+    })
+  })
+
+  it('leaves out content when a file has none recorded', () => {
+    expect(createDuplicateDecision('k', ['may.csv'], new Map(), true)).toEqual({
+      groupKey: 'k',
+      keep: ['may.csv'],
+      notDuplicate: true,
+    })
+  })
 })
 
 describe('removeDuplicates', () => {
@@ -187,6 +605,18 @@ describe('removeDuplicates', () => {
     expect(result.map(t => t.id)).toEqual(['a', 'c'])
   })
 
+  it('keeps the other copy when copies share an id', () => {
+    // Content-derived IDs: the same transaction has the same id in every file
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'x-0', sourceFile: 'may.csv' }),
+      createTransaction({ id: 'x-0', sourceFile: 'june.csv' }),
+    ]
+
+    const result = removeDuplicates(transactions, [transactions[1]])
+
+    expect(result.map(t => t.sourceFile)).toEqual(['may.csv'])
+  })
+
   it('keeps first occurrence when removing duplicates', () => {
     const transactions: Transaction[] = [
       createTransaction({ id: 'a', sourceFile: 'f1.csv' }),
@@ -270,6 +700,42 @@ describe('deduplicateTransactions', () => {
     expect(result.removedCount).toBe(2)
   })
 
+  it('keeps repeated purchases when statements overlap', () => {
+    const ticket = { title: 'HSL BUS', amount: -3.1 }
+    const transactions: Transaction[] = [
+      // may.csv: two tickets on the 10th
+      createTransaction({ ...ticket, id: 'bus-0', sourceFile: 'may.csv' }),
+      createTransaction({ ...ticket, id: 'bus-1', sourceFile: 'may.csv' }),
+      // export.csv overlaps may.csv and has the same two tickets
+      createTransaction({ ...ticket, id: 'bus-0', sourceFile: 'export.csv' }),
+      createTransaction({ ...ticket, id: 'bus-1', sourceFile: 'export.csv' }),
+      // june.csv overlaps on the 10th but was exported before the second ticket
+      createTransaction({ ...ticket, id: 'bus-0', sourceFile: 'june.csv' }),
+    ]
+
+    const result = deduplicateTransactions(transactions)
+
+    expect(result.transactions).toHaveLength(2) // Most seen in any single file
+    expect(result.removedCount).toBe(3)
+  })
+
+  it('keeps the extra occurrences from whichever file has more', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'bus-0', title: 'HSL BUS', sourceFile: 'june.csv' }),
+      createTransaction({ id: 'bus-0', title: 'HSL BUS', sourceFile: 'may.csv' }),
+      createTransaction({ id: 'bus-1', title: 'HSL BUS', sourceFile: 'may.csv' }),
+      createTransaction({ id: 'bus-2', title: 'HSL BUS', sourceFile: 'may.csv' }),
+    ]
+
+    const result = deduplicateTransactions(transactions)
+
+    expect(result.transactions.map(t => `${t.sourceFile}:${t.id}`)).toEqual([
+      'june.csv:bus-0',
+      'may.csv:bus-1',
+      'may.csv:bus-2',
+    ])
+  })
+
   it('handles no duplicates', () => {
     const transactions: Transaction[] = [
       createTransaction({ id: 'a', title: 'A' }),
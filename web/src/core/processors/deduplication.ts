@@ -1,51 +1,159 @@
-import type { Transaction } from '../types'
-import type { DuplicateGroup } from '../types/report'
+import { getBookedAmount, getContentKey, type Transaction } from '../types'
+import type { DuplicateDecision, DuplicateGroup, ReuploadedFile } from '../types/report'
+import type { ImportReport } from '../parsers'
 
 /**
- * Create a unique key for a transaction based on deduplication criteria.
- * Transactions with the same key are potential duplicates.
+ * Key for one copy of a transaction. Copies of the same transaction in
+ * different files share their content-derived ID, so the file tells them apart.
  */
-function getTransactionKey(t: Transaction): string {
-  // Key: date (ISO) + amount + title + reference number
-  const dateStr = t.date.toISOString().split('T')[0] // YYYY-MM-DD
-  return `${dateStr}|${t.amount}|${t.title}|${t.referenceNumber}`
+function getCopyKey(t: Transaction): string {
+  return `${t.sourceFile}|${t.id}`
+}
+
+/**
+ * Give uploads that share a filename distinct names, "export (2).csv" and
+ * so on, so each file's transactions keep their own sourceFile.
+ *
+ * @param filenames - Names of the uploaded files, in upload order
+ * @returns The names to use, in the same order
+ */
+export function getUniqueFilenames(filenames: string[]): string[] {
+  const taken = new Set(filenames)
+  const seen = new Set<string>()
+
+  return filenames.map(filename => {
+    if (!seen.has(filename)) {
+      seen.add(filename)
+      return filename
+    }
+    const dot = filename.lastIndexOf('.')
+    const [stem, extension] = dot > 0 ? [filename.slice(0, dot), filename.slice(dot)] : [filename, '']
+    let copy = 2
+    while (taken.has(`${stem} (${copy})${extension}`)) copy++
+    const unique = `${stem} (${copy})${extension}`
+    taken.add(unique)
+    return unique
+  })
+}
+
+/**
+ * Find statement files uploaded more than once: files with the same content
+ * as an earlier one, and files whose transactions all appear in another
+ * (e.g. a month's export next to the year's). Dropping these before
+ * findDuplicates leaves it only genuinely overlapping statements.
+ *
+ * Files are compared by their transactions' content-derived IDs, which count
+ * repeated rows, so a file with one bus ticket is contained in a file with
+ * two but not the other way round. Of two files with the same transactions
+ * the first is kept.
+ *
+ * Transactions name their file by sourceFile, so uploads sharing a filename
+ * can't be told apart and are never dropped - give them distinct names with
+ * getUniqueFilenames first.
+ *
+ * @param files - Import reports of the uploaded files, in upload order
+ * @param transactions - Transactions from all files
+ * @returns The files to leave out, in upload order
+ */
+export function findReuploadedFiles(
+  files: ImportReport[],
+  transactions: Transaction[]
+): ReuploadedFile[] {
+  const uploadsByName = new Map<string, number[]>()
+  files.forEach((file, i) => {
+    uploadsByName.set(file.filename, [...(uploadsByName.get(file.filename) ?? []), i])
+  })
+
+  const idsByUpload = files.map(() => new Set<string>())
+  for (const t of transactions) {
+    const uploads = uploadsByName.get(t.sourceFile)
+    if (uploads?.length === 1) idsByUpload[uploads[0]].add(t.id)
+  }
+
+  const dropped = new Map<number, { container: number; kind: ReuploadedFile['kind'] }>()
+
+  files.forEach((file, i) => {
+    const ids = idsByUpload[i]
+    if (ids.size === 0) return
+
+    const isCandidate = (j: number) => j !== i && !dropped.has(j) && idsByUpload[j].size > 0
+    const identical = files.findIndex((other, j) =>
+      j < i && isCandidate(j) &&
+      other.contentHash !== undefined && other.contentHash === file.contentHash
+    )
+    // Contained in a larger file, or the same transactions as an earlier one
+    const container = identical >= 0 ? identical : files.findIndex((_, j) => {
+      if (!isCandidate(j)) return false
+      const otherIds = idsByUpload[j]
+      if (otherIds.size < ids.size || (otherIds.size === ids.size && j > i)) return false
+      return [...ids].every(id => otherIds.has(id))
+    })
+    if (container < 0) return
+
+    dropped.set(i, { container, kind: identical >= 0 ? 'identical' : 'contained' })
+  })
+
+  // A container may itself be inside a later, larger file - point at the file that is kept
+  return [...dropped].map(([i, { container, kind }]) => {
+    const visited = new Set([i])
+    let kept = container
+    while (dropped.has(kept) && !visited.has(kept)) {
+      visited.add(kept)
+      kept = dropped.get(kept)!.container
+    }
+    return {
+      filename: files[i].filename,
+      duplicateOf: files[kept].filename,
+      kind,
+      transactionCount: idsByUpload[i].size,
+    }
+  })
 }
 
 /**
  * Find duplicate transactions across different source files.
  *
- * A duplicate is defined as transactions with identical:
+ * A duplicate is defined as transactions with the same bank-assigned ID
+ * (externalId) where the format provides one, otherwise identical:
  * - Date
  * - Amount
  * - Title
  * - Reference number
+ * - Sender and recipient accounts
  *
  * AND appearing in different source files (same transaction in same file is not a duplicate).
  *
+ * Identical rows are matched as multisets: the n-th occurrence in one file
+ * pairs with the n-th occurrence in another. Two bus tickets bought the same
+ * day, in two overlapping statements, make two groups of two - so keeping
+ * one copy per group keeps as many as the file with the most occurrences.
+ *
  * @param transactions - All transactions to check
  * @returns Array of duplicate groups, each containing 2+ transactions
  */
 export function findDuplicates(transactions: Transaction[]): DuplicateGroup[] {
-  // Group transactions by their key
+  // Group transactions by their key and occurrence within their file
   const groups = new Map<string, Transaction[]>()
+  const occurrences = new Map<string, number>()
 
   for (const transaction of transactions) {
-    const key = getTransactionKey(transaction)
+    const contentKey = getContentKey(transaction)
+    const fileKey = `${transaction.sourceFile}|${contentKey}`
+    const occurrence = occurrences.get(fileKey) ?? 0
+    occurrences.set(fileKey, occurrence + 1)
+
+    const key = `${contentKey}#${occurrence}`
     const existing = groups.get(key) || []
     existing.push(transaction)
     groups.set(key, existing)
   }
 
-  // Filter to groups with multiple transactions from different files
+  // Each group has at most one copy per file, so two or more copies means different files
   const duplicateGroups: DuplicateGroup[] = []
 
   for (const [, group] of groups) {
     if (group.length < 2) continue
 
-    // Check if they're from different source files
-    const uniqueFiles = new Set(group.map(t => t.sourceFile))
-    if (uniqueFiles.size < 2) continue
-
     // This is a duplicate group
     duplicateGroups.push({
       transactions: group,
@@ -62,6 +170,120 @@ export function findDuplicates(transactions: Transaction[]): DuplicateGroup[] {
   return duplicateGroups
 }
 
+/**
+ * Settings for finding likely (not exact) duplicates.
+ */
+export interface FuzzyMatchOptions {
+  dateToleranceDays: number   // How many booking days apart copies may be
+}
+
+export const DEFAULT_FUZZY_OPTIONS: FuzzyMatchOptions = {
+  dateToleranceDays: 1,
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * How much each difference between two copies lowers the match confidence.
+ */
+const CONFIDENCE_PENALTY = {
+  perDayApart: 0.2,
+  titleNormalized: 0.05,      // Titles equal only after normalising
+  referenceMissing: 0.1,      // One copy has a reference number, the other none
+  referenceDiffers: 0.3,
+}
+
+/**
+ * Normalise a title for fuzzy comparison: trimmed, single-spaced, lower case.
+ * "  LIDL  Helsinki " -> "lidl helsinki"
+ */
+export function normalizeTitle(title: string): string {
+  return title.trim().replace(/\s+/g, ' ').toLowerCase()
+}
+
+/**
+ * Score how likely two transactions are the same booking, from 0 to 1.
+ * Assumes the amounts and normalised titles already match.
+ */
+function scoreMatch(a: Transaction, b: Transaction): number {
+  const daysApart = Math.round(Math.abs(a.date.getTime() - b.date.getTime()) / DAY_MS)
+  let confidence = 1 - daysApart * CONFIDENCE_PENALTY.perDayApart
+
+  if (a.title !== b.title) {
+    confidence -= CONFIDENCE_PENALTY.titleNormalized
+  }
+  if (a.referenceNumber && b.referenceNumber) {
+    if (a.referenceNumber !== b.referenceNumber) confidence -= CONFIDENCE_PENALTY.referenceDiffers
+  } else if (a.referenceNumber || b.referenceNumber) {
+    confidence -= CONFIDENCE_PENALTY.referenceMissing
+  }
+
+  return Math.max(0, Math.round(confidence * 100) / 100)
+}
+
+/**
+ * Find likely duplicates that findDuplicates misses: copies of a booking
+ * from overlapping exports that differ by a booking day or two, or by
+ * whitespace or case in the title.
+ *
+ * Copies must have the same amount (as booked) and normalised title, come
+ * from different files, and be booked within the date tolerance. Each file
+ * contributes at most one copy to a group. Transactions that are already
+ * exact duplicates are left out.
+ *
+ * @param transactions - All transactions to check
+ * @param options - Date tolerance
+ * @returns Candidate groups scored by confidence (lowest pairwise score), most confident first
+ */
+export function findFuzzyDuplicates(
+  transactions: Transaction[],
+  options: FuzzyMatchOptions = DEFAULT_FUZZY_OPTIONS
+): DuplicateGroup[] {
+  const exact = new Set(findDuplicates(transactions).flatMap(g => g.transactions))
+  const candidates = transactions
+    .filter(t => !exact.has(t))
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+
+  const maxApart = options.dateToleranceDays * DAY_MS + DAY_MS / 2 // Half a day of slack for DST
+  const grouped = new Set<Transaction>()
+  const groups: DuplicateGroup[] = []
+
+  for (let i = 0; i < candidates.length; i++) {
+    const first = candidates[i]
+    if (grouped.has(first)) continue
+
+    const title = normalizeTitle(first.title)
+    const amount = getBookedAmount(first)
+    const group = [first]
+    const files = new Set([first.sourceFile])
+    let confidence = 1
+
+    for (let j = i + 1; j < candidates.length; j++) {
+      const other = candidates[j]
+      if (other.date.getTime() - first.date.getTime() > maxApart) break
+      if (grouped.has(other) || files.has(other.sourceFile)) continue
+      if (getBookedAmount(other) !== amount || normalizeTitle(other.title) !== title) continue
+
+      group.push(other)
+      files.add(other.sourceFile)
+      confidence = Math.min(confidence, scoreMatch(first, other))
+    }
+
+    if (group.length < 2) continue
+    group.forEach(t => grouped.add(t))
+    groups.push({
+      transactions: group,
+      date: first.date,
+      amount: first.amount,
+      title: first.title,
+      referenceNumber: first.referenceNumber,
+      confidence,
+    })
+  }
+
+  return groups.sort((a, b) => (b.confidence ?? 0) - (a.confidence ?? 0) || a.date.getTime() - b.date.getTime())
+}
+
 /**
  * Get all duplicate transactions (flattened from groups).
  * Useful for counting or displaying all duplicates.
@@ -70,27 +292,119 @@ export function getAllDuplicateTransactions(groups: DuplicateGroup[]): Transacti
   return groups.flatMap(g => g.transactions)
 }
 
+/**
+ * Key identifying a duplicate group across imports: the content-derived IDs
+ * of its transactions. Exact copies share one ID; likely duplicates have one
+ * per copy.
+ */
+export function getDuplicateGroupKey(group: DuplicateGroup): string {
+  return [...new Set(group.transactions.map(t => t.id))].sort().join('+')
+}
+
+/**
+ * Content hash of each imported file by its filename, for matching saved
+ * duplicate decisions to renamed files.
+ */
+export function getFileHashes(files: ImportReport[]): Map<string, string> {
+  return new Map(files.flatMap(f => (f.contentHash ? [[f.filename, f.contentHash]] : [])))
+}
+
+/**
+ * Record a decision to keep the copies from some files, by name and content.
+ *
+ * @param groupKey - The group decided on (see getDuplicateGroupKey)
+ * @param keep - Source files whose copies are kept
+ * @param fileHashes - Content hash of each file (see getFileHashes)
+ * @param notDuplicate - The copies are separate transactions
+ */
+export function createDuplicateDecision(
+  groupKey: string,
+  keep: string[],
+  fileHashes: Map<string, string>,
+  notDuplicate = false
+): DuplicateDecision {
+  const keepContent = keep.flatMap(file => fileHashes.get(file) ?? [])
+  return {
+    groupKey,
+    keep,
+    ...(keepContent.length === keep.length && { keepContent }),
+    ...(notDuplicate && { notDuplicate }),
+  }
+}
+
+/**
+ * Whether a decision keeps this copy: by file content where both the
+ * decision and the file have it, otherwise by filename.
+ */
+function isKept(t: Transaction, decision: DuplicateDecision, fileHashes: Map<string, string>): boolean {
+  const hash = fileHashes.get(t.sourceFile)
+  return decision.keepContent && hash
+    ? decision.keepContent.includes(hash)
+    : decision.keep.includes(t.sourceFile)
+}
+
+/**
+ * Whether a decision still applies to a group - it keeps at least one of
+ * the group's copies. Decisions saved for files that are no longer uploaded
+ * don't, and should be shown to the user rather than silently ignored.
+ */
+export function isDecisionMatched(
+  group: DuplicateGroup,
+  decision: DuplicateDecision,
+  fileHashes: Map<string, string> = new Map()
+): boolean {
+  return decision.notDuplicate === true || group.transactions.some(t => isKept(t, decision, fileHashes))
+}
+
+/**
+ * Get the copies of a group to remove under a decision.
+ * Without a decision, or when none of the kept files is in the group,
+ * the first copy is kept.
+ */
+export function getCopiesToRemove(
+  group: DuplicateGroup,
+  decision?: DuplicateDecision,
+  fileHashes: Map<string, string> = new Map()
+): Transaction[] {
+  if (decision?.notDuplicate) return []
+
+  if (!decision || !isDecisionMatched(group, decision, fileHashes)) {
+    return group.transactions.slice(1)
+  }
+  return group.transactions.filter(t => !isKept(t, decision, fileHashes))
+}
+
 /**
  * Get transactions to remove (all but first occurrence in each group).
  * This is the default deduplication strategy: keep the first, remove the rest.
+ * Groups the user has decided on follow their decision instead.
+ *
+ * @param groups - Duplicate groups
+ * @param decisions - The user's decisions, matched by group key
+ * @param fileHashes - Content hash of each file (see getFileHashes)
  */
-export function getTransactionsToRemove(groups: DuplicateGroup[]): Transaction[] {
-  return groups.flatMap(g => g.transactions.slice(1))
+export function getTransactionsToRemove(
+  groups: DuplicateGroup[],
+  decisions: DuplicateDecision[] = [],
+  fileHashes: Map<string, string> = new Map()
+): Transaction[] {
+  const byKey = new Map(decisions.map(d => [d.groupKey, d]))
+  return groups.flatMap(g => getCopiesToRemove(g, byKey.get(getDuplicateGroupKey(g)), fileHashes))
 }
 
 /**
  * Remove specific transactions from the array.
  *
  * @param transactions - Original transaction array
- * @param toRemove - Transactions to remove (matched by id)
+ * @param toRemove - Transactions to remove (matched by id and source file)
  * @returns New array with specified transactions removed
  */
 export function removeDuplicates(
   transactions: Transaction[],
   toRemove: Transaction[]
 ): Transaction[] {
-  const removeIds = new Set(toRemove.map(t => t.id))
-  return transactions.filter(t => !removeIds.has(t.id))
+  const removeKeys = new Set(toRemove.map(getCopyKey))
+  return transactions.filter(t => !removeKeys.has(getCopyKey(t)))
 }
 
 /**
@@ -105,13 +419,13 @@ export function markDuplicates(
   transactions: Transaction[],
   duplicateGroups: DuplicateGroup[]
 ): Transaction[] {
-  const duplicateIds = new Set(
-    duplicateGroups.flatMap(g => g.transactions.map(t => t.id))
+  const duplicateKeys = new Set(
+    duplicateGroups.flatMap(g => g.transactions.map(getCopyKey))
   )
 
   return transactions.map(t => ({
     ...t,
-    isDuplicate: duplicateIds.has(t.id),
+    isDuplicate: duplicateKeys.has(getCopyKey(t)),
   }))
 }
 
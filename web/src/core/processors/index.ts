@@ -2,3 +2,6 @@ export * from './deduplication'
 export * from './contributors'
 export * from './categorization'
 export * from './patterns'
+export * from './transfers'
+export * from './currency'
+export * from './legacyRules'
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest'
+import { getLegacyHelperKind, parseLegacyRules } from './legacyRules'
+import { CSVParseError } from '../parsers'
+
+const MINOR_GROUPS = [
+  'Title,Minor group',
+  'ALEPA ERATORI,Alepa',
+  'Sun Koti Oy, Sun Koti Oy',
+  'NETFLIX INTERNATIONAL B.V, Netflix',
+  'Netflix.com, Netflix',
+].join('\r\n')
+
+const FALLBACK_PATTERNS = [
+  'Pattern,Minor group',
+  'Lidl,Lidl',
+  'K-market,K-market',
+].join('\r\n')
+
+const MAJOR_GROUPS = [
+  'Minor group,Major group',
+  'Alepa,Groceries',
+  'Lidl, Groceries',
+  'K-Market, Groceries',
+  'Netflix, Subscriptions',
+  'Sun Koti Oy, Housing Fee',
+].join('\n')
+
+describe('getLegacyHelperKind', () => {
+  it('recognises the helper files by name', () => {
+    expect(getLegacyHelperKind('minor_groups.csv')).toBe('minorGroups')
+    expect(getLegacyHelperKind('helpers/MAJOR_GROUPS.csv')).toBe('majorGroups')
+    expect(getLegacyHelperKind('fallback_patterns.csv')).toBe('fallbackPatterns')
+  })
+
+  it('ignores other files', () => {
+    expect(getLegacyHelperKind('202405.csv')).toBeNull()
+  })
+})
+
+describe('parseLegacyRules', () => {
+  const result = parseLegacyRules([
+    { filename: 'major_groups.csv', content: MAJOR_GROUPS },
+    { filename: 'fallback_patterns.csv', content: FALLBACK_PATTERNS },
+    { filename: 'minor_groups.csv', content: MINOR_GROUPS },
+  ])
+
+  it('turns titles into exact rules, trimming stray spaces', () => {
+    expect(result.categories.slice(0, 2)).toEqual([
+      { pattern: 'ALEPA ERATORI', category: 'Alepa', matchType: 'exact' },
+      { pattern: 'Sun Koti Oy', category: 'Sun Koti Oy', matchType: 'exact' },
+    ])
+  })
+
+  it('turns fallback patterns into contains rules after the titles', () => {
+    expect(result.categories.slice(-2)).toEqual([
+      { pattern: 'Lidl', category: 'Lidl', matchType: 'contains' },
+      { pattern: 'K-market', category: 'K-market', matchType: 'contains' },
+    ])
+  })
+
+  it('reads the major groups', () => {
+    expect(result.majorGroups).toEqual({
+      Alepa: 'Groceries',
+      Lidl: 'Groceries',
+      'K-Market': 'Groceries',
+      Netflix: 'Subscriptions',
+      'Sun Koti Oy': 'Housing Fee',
+    })
+    expect(result.unmapped).toEqual([])
+  })
+
+  it('warns about minor groups without a major group', () => {
+    expect(result.warnings).toEqual([
+      'Minor group "K-market" has no major group (major_groups.csv has "K-Market")',
+    ])
+  })
+
+  it('lists rows it could not map', () => {
+    const { categories, unmapped } = parseLegacyRules([{
+      filename: 'minor_groups.csv',
+      content: 'Title,Minor group\nHelen Oy,Helen\nSPOTIFY AB,\nElisa Oyj,Elisa,extra\nHELEN OY,Electricity\nhelen oy,Helen',
+    }])
+
+    expect(categories).toEqual([{ pattern: 'Helen Oy', category: 'Helen', matchType: 'exact' }])
+    expect(unmapped).toEqual([
+      { filename: 'minor_groups.csv', row: 2, raw: 'SPOTIFY AB,', reason: 'No minor group' },
+      { filename: 'minor_groups.csv', row: 3, raw: 'Elisa Oyj,Elisa,extra', reason: 'Expected 2 columns, found 3' },
+      { filename: 'minor_groups.csv', row: 4, raw: 'HELEN OY,Electricity', reason: '"HELEN OY" is already in minor group "Helen"' },
+    ])
+  })
+
+  it('leaves out major groups that would make a third tier', () => {
+    const { majorGroups, unmapped } = parseLegacyRules([{
+      filename: 'major_groups.csv',
+      content: 'Minor group,Major group\nLidl,Groceries\nGroceries,Food\nLidl,Discount',
+    }])
+
+    expect(majorGroups).toEqual({ Lidl: 'Groceries' })
+    expect(unmapped.map(u => u.reason)).toEqual([
+      '"Groceries" is the major group of Lidl',
+      '"Lidl" is already in major group "Groceries"',
+    ])
+  })
+
+  it('rejects a file with the wrong columns', () => {
+    expect(() => parseLegacyRules([{ filename: 'minor_groups.csv', content: 'Pattern,Minor group\nLidl,Lidl' }]))
+      .toThrow(CSVParseError)
+  })
+})
@@ -0,0 +1,168 @@
+import Papa from 'papaparse'
+import {
+  getMajorGroupError,
+  type CategoryMapping,
+  type MajorGroups,
+  type MatchType,
+} from '../types'
+import { CSVParseError } from '../parsers'
+
+/**
+ * The helper files of the old R project, each a two-column CSV.
+ */
+export type LegacyHelperKind = 'minorGroups' | 'majorGroups' | 'fallbackPatterns'
+
+const LEGACY_HELPERS: Record<LegacyHelperKind, { filename: string; columns: [string, string] }> = {
+  minorGroups: { filename: 'minor_groups.csv', columns: ['Title', 'Minor group'] },
+  fallbackPatterns: { filename: 'fallback_patterns.csv', columns: ['Pattern', 'Minor group'] },
+  majorGroups: { filename: 'major_groups.csv', columns: ['Minor group', 'Major group'] },
+}
+
+/**
+ * A helper file's name and content.
+ */
+export interface LegacyHelperFile {
+  filename: string
+  content: string
+}
+
+/**
+ * A helper file row that couldn't be turned into a rule.
+ */
+export interface UnmappedHelperRow {
+  filename: string
+  row: number         // 1-indexed data row
+  raw: string         // The row as it appears in the file
+  reason: string
+}
+
+/**
+ * Rules converted from the R project's helper files.
+ */
+export interface LegacyRuleImport {
+  categories: CategoryMapping[] // Exact title rules, then fallback keyword rules
+  majorGroups: MajorGroups
+  unmapped: UnmappedHelperRow[]
+  warnings: string[]            // Rules imported with something missing
+}
+
+/**
+ * Tell which R helper file a file is, by its name.
+ *
+ * @returns The kind of helper, or null for any other file
+ */
+export function getLegacyHelperKind(filename: string): LegacyHelperKind | null {
+  const name = filename.split(/[\\/]/).pop()?.toLowerCase()
+  const kinds = Object.keys(LEGACY_HELPERS) as LegacyHelperKind[]
+  return kinds.find(kind => LEGACY_HELPERS[kind].filename === name) ?? null
+}
+
+/**
+ * Read a helper file's rows as trimmed pairs. The R files carry stray
+ * spaces after the commas (" Groceries"), which R's read.csv kept too.
+ *
+ * @throws CSVParseError if the header isn't the one this helper has
+ */
+function readHelperRows(
+  file: LegacyHelperFile,
+  kind: LegacyHelperKind,
+  unmapped: UnmappedHelperRow[]
+): { row: number; key: string; value: string; raw: string }[] {
+  const { columns } = LEGACY_HELPERS[kind]
+  const result = Papa.parse<string[]>(file.content.trim(), { skipEmptyLines: 'greedy' })
+  const [header = [], ...rows] = result.data
+
+  const headerText = header.map(h => h.trim().toLowerCase()).join(',')
+  if (headerText !== columns.join(',').toLowerCase()) {
+    throw new CSVParseError(`Expected the columns "${columns.join(',')}"`, file.filename)
+  }
+
+  return rows.flatMap((fields, i) => {
+    const row = i + 1
+    const raw = fields.join(',')
+    const [key = '', value = ''] = fields.map(f => f.trim())
+
+    if (fields.length !== 2) {
+      unmapped.push({ filename: file.filename, row, raw, reason: `Expected 2 columns, found ${fields.length}` })
+      return []
+    }
+    if (!key || !value) {
+      const missing = !key ? columns[0] : columns[1]
+      unmapped.push({ filename: file.filename, row, raw, reason: `No ${missing.toLowerCase()}` })
+      return []
+    }
+    return [{ row, key, value, raw }]
+  })
+}
+
+/**
+ * Convert the R project's helper files into category rules:
+ * - minor_groups.csv: "Title,Minor group" -> exact title rules
+ * - fallback_patterns.csv: "Pattern,Minor group" -> keyword (contains) rules
+ * - major_groups.csv: "Minor group,Major group" -> the major groups
+ *
+ * Any of the three may be left out. Rows that can't be converted - blank
+ * fields, a title given two different minor groups, a third tier of
+ * groups - are left out and listed in `unmapped`.
+ *
+ * @param files - The helper files, in any order
+ * @returns The converted rules and what was left out
+ * @throws CSVParseError if a file doesn't have its helper's columns
+ */
+export function parseLegacyRules(files: LegacyHelperFile[]): LegacyRuleImport {
+  const unmapped: UnmappedHelperRow[] = []
+  const warnings: string[] = []
+  const categories: CategoryMapping[] = []
+  const majorGroups: MajorGroups = {}
+
+  const filesOf = (kind: LegacyHelperKind) =>
+    files.filter(file => getLegacyHelperKind(file.filename) === kind)
+
+  const addRules = (kind: LegacyHelperKind, matchType: MatchType) => {
+    // Matching ignores case, so "Netflix.com" and "NETFLIX.COM" are one rule
+    const seen = new Map<string, string>()
+
+    for (const file of filesOf(kind)) {
+      for (const { row, key, value, raw } of readHelperRows(file, kind, unmapped)) {
+        const existing = seen.get(key.toLowerCase())
+        if (existing === undefined) {
+          seen.set(key.toLowerCase(), value)
+          categories.push({ pattern: key, category: value, matchType })
+        } else if (existing !== value) {
+          unmapped.push({ filename: file.filename, row, raw, reason: `"${key}" is already in minor group "${existing}"` })
+        }
+      }
+    }
+  }
+
+  addRules('minorGroups', 'exact')
+  addRules('fallbackPatterns', 'contains')
+
+  const majorFiles = filesOf('majorGroups')
+  for (const file of majorFiles) {
+    for (const { row, key, value, raw } of readHelperRows(file, 'majorGroups', unmapped)) {
+      const error = Object.hasOwn(majorGroups, key) && majorGroups[key] !== value
+        ? `"${key}" is already in major group "${majorGroups[key]}"`
+        : getMajorGroupError(key, value, majorGroups)
+
+      if (error) {
+        unmapped.push({ filename: file.filename, row, raw, reason: error })
+      } else {
+        majorGroups[key] = value
+      }
+    }
+  }
+
+  // R put minor groups missing from major_groups.csv under "Unassigned"
+  if (majorFiles.length > 0) {
+    const minorGroups = [...new Set(categories.map(c => c.category))]
+    for (const minor of minorGroups.filter(m => !Object.hasOwn(majorGroups, m))) {
+      const nearMatch = Object.keys(majorGroups).find(m => m.toLowerCase() === minor.toLowerCase())
+      warnings.push(nearMatch
+        ? `Minor group "${minor}" has no major group (major_groups.csv has "${nearMatch}")`
+        : `Minor group "${minor}" has no major group`)
+    }
+  }
+
+  return { categories, majorGroups, unmapped, warnings }
+}
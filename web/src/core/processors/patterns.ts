@@ -1,4 +1,4 @@
-import type { Transaction } from '../types'
+import { getMerchantName, type Transaction } from '../types'
 
 /**
  * A common word/phrase found in transaction titles.
@@ -41,8 +41,9 @@ export function extractTitlePatterns(transactions: Transaction[]): TitlePattern[
   const wordCounts = new Map<string, { count: number; amount: number; titles: Set<string> }>()
 
   for (const t of expenses) {
-    // Extract words from title
-    const words = t.title
+    // Extract words from the merchant name, so terminal numbers don't count
+    const title = getMerchantName(t)
+    const words = title
       .toLowerCase()
       .replace(/[^a-zäöåA-ZÄÖÅ0-9\s]/g, ' ')
       .split(/\s+/)
@@ -54,7 +55,7 @@ export function extractTitlePatterns(transactions: Transaction[]): TitlePattern[
       const existing = wordCounts.get(word) || { count: 0, amount: 0, titles: new Set() }
       existing.count++
       existing.amount += Math.abs(t.amount)
-      existing.titles.add(t.title)
+      existing.titles.add(title)
       wordCounts.set(word, existing)
     }
   }
@@ -79,7 +80,7 @@ export function extractTitlePatterns(transactions: Transaction[]): TitlePattern[
 }
 
 /**
- * Find transactions whose title contains a pattern (case-insensitive).
+ * Find transactions whose title or merchant contains a pattern (case-insensitive).
  */
 export function findMatchingTransactions(
   transactions: Transaction[],
@@ -89,6 +90,7 @@ export function findMatchingTransactions(
   return transactions.filter(t =>
     t.amount < 0 &&
     !t.category &&
-    t.title.toLowerCase().includes(lowerPattern)
+    (t.title.toLowerCase().includes(lowerPattern) ||
+      getMerchantName(t).toLowerCase().includes(lowerPattern))
   )
 }
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest'
+import {
+  normalizeAccount,
+  getCounterpartyAccount,
+  findCounterpartyAccounts,
+  markInternalTransfers,
+  excludeInternalTransfers,
+} from './transfers'
+import type { Transaction } from '../types'
+
+const JOINT = 'FI69 2000 4200 0420 42'
+const SAVINGS = 'FI12 3456 7890 1234 56'
+const ALEX = 'FI98 7654 3210 9876 54'
+
+function createTransaction(overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    id: 'test-0',
+    date: new Date('2024-05-10'),
+    amount: -100,
+    title: 'TEST',
+    name: '',
+    referenceNumber: '',
+    message: '',
+    sourceFile: 'test.csv',
+    ...overrides,
+  }
+}
+
+describe('normalizeAccount', () => {
+  it('removes spaces and upper-cases', () => {
+    expect(normalizeAccount('fi69 2000 4200 0420 42')).toBe('FI6920004200042042')
+  })
+})
+
+describe('getCounterpartyAccount', () => {
+  it('uses the recipient for money out', () => {
+    const t = createTransaction({ amount: -50, senderAccount: JOINT, recipientAccount: SAVINGS })
+
+    expect(getCounterpartyAccount(t)).toBe('FI1234567890123456')
+  })
+
+  it('uses the sender for money in', () => {
+    const t = createTransaction({ amount: 50, senderAccount: ALEX, recipientAccount: JOINT })
+
+    expect(getCounterpartyAccount(t)).toBe('FI9876543210987654')
+  })
+
+  it('returns undefined for card purchases without a counterparty account', () => {
+    const t = createTransaction({ amount: -50, senderAccount: JOINT })
+
+    expect(getCounterpartyAccount(t)).toBeUndefined()
+  })
+})
+
+describe('findCounterpartyAccounts', () => {
+  it('groups transactions by counterparty account, most used first', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'a', amount: 800, name: 'ALEX', senderAccount: ALEX }),
+      createTransaction({ id: 'b', amount: -200, title: 'SAVINGS', recipientAccount: SAVINGS }),
+      createTransaction({ id: 'c', amount: 800, name: 'ALEX', senderAccount: ALEX }),
+      createTransaction({ id: 'd', amount: -30, title: 'LIDL' }),
+    ]
+
+    const accounts = findCounterpartyAccounts(transactions)
+
+    expect(accounts).toHaveLength(2)
+    expect(accounts[0].account).toBe('FI9876543210987654')
+    expect(accounts[0].name).toBe('ALEX')
+    expect(accounts[0].transactionCount).toBe(2)
+    expect(accounts[0].totalIn).toBe(1600)
+    expect(accounts[1].totalOut).toBe(200)
+  })
+})
+
+describe('markInternalTransfers', () => {
+  it('flags transfers to and from own accounts', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'out', amount: -200, recipientAccount: SAVINGS }),
+      createTransaction({ id: 'in', amount: 150, senderAccount: SAVINGS }),
+      createTransaction({ id: 'alex', amount: 800, senderAccount: ALEX }),
+      createTransaction({ id: 'card', amount: -30, senderAccount: JOINT }),
+    ]
+
+    const marked = markInternalTransfers(transactions, ['fi1234567890123456'])
+
+    expect(marked.map(t => t.isInternal)).toEqual([true, true, false, false])
+  })
+
+  it('does not treat our own side of the transaction as a transfer', () => {
+    // The joint account itself appears as sender of every expense
+    const transactions = [createTransaction({ amount: -30, senderAccount: JOINT })]
+
+    const marked = markInternalTransfers(transactions, [JOINT])
+
+    expect(marked[0].isInternal).toBe(false)
+  })
+
+  it('does not modify the input', () => {
+    const transactions = [createTransaction({ amount: -200, recipientAccount: SAVINGS })]
+
+    markInternalTransfers(transactions, [SAVINGS])
+
+    expect(transactions[0].isInternal).toBeUndefined()
+  })
+})
+
+describe('excludeInternalTransfers', () => {
+  it('drops internal transfers', () => {
+    const transactions: Transaction[] = [
+      createTransaction({ id: 'a', isInternal: true }),
+      createTransaction({ id: 'b', isInternal: false }),
+      createTransaction({ id: 'c' }),
+    ]
+
+    expect(excludeInternalTransfers(transactions).map(t => t.id)).toEqual(['b', 'c'])
+  })
+})
@@ -0,0 +1,86 @@
+import type { Transaction } from '../types'
+
+/**
+ * An account seen on the other side of transactions.
+ * Listed so the user can pick which ones are their own.
+ */
+export interface CounterpartyAccount {
+  account: string           // Normalized IBAN
+  name: string              // Counterparty name from the latest transaction
+  transactionCount: number
+  totalIn: number           // Money received from this account
+  totalOut: number          // Money sent to this account (as positive number)
+}
+
+/**
+ * Normalize an account number for comparison: no spaces, upper case.
+ * "fi69 2000 4200 0420 42" -> "FI6920004200042042"
+ */
+export function normalizeAccount(account: string): string {
+  return account.replace(/\s+/g, '').toUpperCase()
+}
+
+/**
+ * Get the account on the other side of a transaction:
+ * the recipient for money out, the sender for money in.
+ */
+export function getCounterpartyAccount(transaction: Transaction): string | undefined {
+  const account = transaction.amount < 0
+    ? transaction.recipientAccount
+    : transaction.senderAccount
+  return account ? normalizeAccount(account) : undefined
+}
+
+/**
+ * Find all counterparty accounts, most used first.
+ */
+export function findCounterpartyAccounts(transactions: Transaction[]): CounterpartyAccount[] {
+  const accounts = new Map<string, CounterpartyAccount>()
+
+  for (const t of transactions) {
+    const account = getCounterpartyAccount(t)
+    if (!account) continue
+
+    const existing = accounts.get(account) ||
+      { account, name: '', transactionCount: 0, totalIn: 0, totalOut: 0 }
+
+    existing.name = t.name.trim() || t.title.trim() || existing.name
+    existing.transactionCount++
+    if (t.amount > 0) {
+      existing.totalIn += t.amount
+    } else {
+      existing.totalOut += Math.abs(t.amount)
+    }
+
+    accounts.set(account, existing)
+  }
+
+  return [...accounts.values()].sort((a, b) => b.transactionCount - a.transactionCount)
+}
+
+/**
+ * Flag transfers to and from our own accounts as internal.
+ *
+ * @param transactions - All transactions
+ * @param ownAccounts - Account numbers (IBANs) belonging to the household
+ * @returns New array with isInternal set on every transaction
+ */
+export function markInternalTransfers(
+  transactions: Transaction[],
+  ownAccounts: string[]
+): Transaction[] {
+  const own = new Set(ownAccounts.map(normalizeAccount))
+
+  return transactions.map(t => {
+    const account = getCounterpartyAccount(t)
+    return { ...t, isInternal: account !== undefined && own.has(account) }
+  })
+}
+
+/**
+ * Drop internal transfers, leaving the transactions that count as
+ * income, contributions and spending.
+ */
+export function excludeInternalTransfers(transactions: Transaction[]): Transaction[] {
+  return transactions.filter(t => !t.isInternal)
+}
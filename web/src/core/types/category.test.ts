@@ -2,7 +2,12 @@ import { describe, it, expect } from 'vitest'
 import {
   CategoryMappingSchema,
   GroupingsFileSchema,
+  MajorGroupsSchema,
   createEmptyGroupingsFile,
+  getMajorGroup,
+  getMajorGroupError,
+  getMinorGroups,
+  readGroupingsFile,
   type CategoryMapping,
   type GroupingsFile,
 } from './category'
@@ -62,12 +67,121 @@ describe('CategoryMappingSchema', () => {
     const result = CategoryMappingSchema.safeParse(mapping)
     expect(result.success).toBe(false)
   })
+
+  it('accepts prefix, suffix and regex mappings', () => {
+    const mappings: CategoryMapping[] = [
+      { pattern: 'K-', category: 'Groceries', matchType: 'prefix' },
+      { pattern: '.COM', category: 'Online', matchType: 'suffix' },
+      { pattern: '^K-(MARKET|SUPERMARKET)', category: 'Groceries', matchType: 'regex' },
+    ]
+
+    for (const mapping of mappings) {
+      expect(CategoryMappingSchema.safeParse(mapping).success).toBe(true)
+    }
+  })
+
+  it('accepts a rule with conditions and no title pattern', () => {
+    const mapping: CategoryMapping = {
+      pattern: '',
+      category: 'Rent',
+      matchType: 'contains',
+      conditions: { message: { pattern: 'vuokra', matchType: 'contains' }, minAmount: 500 },
+      priority: 1,
+    }
+
+    expect(CategoryMappingSchema.safeParse(mapping).success).toBe(true)
+  })
+
+  it('rejects a bad regex or date in the conditions', () => {
+    const badRegex = {
+      pattern: '',
+      category: 'Rent',
+      matchType: 'contains',
+      conditions: { message: { pattern: '(vuokra', matchType: 'regex' } },
+    }
+    const badDate = { pattern: 'LIDL', category: 'Groceries', matchType: 'contains', conditions: { from: '1.5.2024' } }
+
+    expect(CategoryMappingSchema.safeParse(badRegex).success).toBe(false)
+    expect(CategoryMappingSchema.safeParse(badDate).success).toBe(false)
+  })
+
+  it('rejects a regex that does not compile, naming the pattern', () => {
+    const result = CategoryMappingSchema.safeParse({
+      pattern: '^K-(MARKET',
+      category: 'Groceries',
+      matchType: 'regex',
+    })
+
+    expect(result.success).toBe(false)
+    expect(result.error?.issues[0].message).toContain('^K-(MARKET')
+  })
+})
+
+describe('readGroupingsFile', () => {
+  const v1File = {
+    version: 1,
+    contributors: ['Alex'],
+    categories: [{ pattern: 'LIDL', category: 'Groceries', matchType: 'contains' }],
+    ownAccounts: ['FI1234567890123456'],
+    createdAt: '2024-05-01T10:00:00.000Z',
+    lastUsed: '2024-05-01T10:00:00.000Z',
+  }
+
+  it('upgrades version 1 files', () => {
+    const result = readGroupingsFile(v1File)
+
+    expect(result.success).toBe(true)
+    if (!result.success) return
+    expect(result.data.version).toBe(2)
+    expect(result.data.categories).toEqual(v1File.categories)
+    expect(result.data.ownAccounts).toEqual(v1File.ownAccounts)
+  })
+
+  it('reads version 2 files as they are', () => {
+    const v2File = {
+      ...v1File,
+      version: 2,
+      categories: [{ pattern: '.COM', category: 'Online', matchType: 'suffix' }],
+    }
+
+    const result = readGroupingsFile(v2File)
+
+    expect(result.success).toBe(true)
+    if (!result.success) return
+    expect(result.data.categories[0].matchType).toBe('suffix')
+  })
+
+  it('rejects new match types in a version 1 file', () => {
+    const result = readGroupingsFile({
+      ...v1File,
+      categories: [{ pattern: 'K-', category: 'Groceries', matchType: 'prefix' }],
+    })
+
+    expect(result.success).toBe(false)
+  })
+
+  it('reports a bad regex', () => {
+    const result = readGroupingsFile({
+      ...v1File,
+      version: 2,
+      categories: [{ pattern: '[abc', category: 'Groceries', matchType: 'regex' }],
+    })
+
+    expect(result.success).toBe(false)
+    if (result.success) return
+    expect(result.error).toContain('Bad pattern "[abc"')
+  })
+
+  it('rejects files that are not groupings files', () => {
+    expect(readGroupingsFile(null).success).toBe(false)
+    expect(readGroupingsFile({ Groceries: { contains: ['LIDL'] } }).success).toBe(false)
+  })
 })
 
 describe('GroupingsFileSchema', () => {
   it('accepts valid groupings file', () => {
     const groupings: GroupingsFile = {
-      version: 1,
+      version: 2,
       contributors: ['Alex', 'Jordan'],
       categories: [
         { pattern: 'LIDL', category: 'Groceries', matchType: 'contains' },
@@ -83,9 +197,63 @@ describe('GroupingsFileSchema', () => {
 
   it('accepts groupings file with empty arrays', () => {
     const groupings: GroupingsFile = {
-      version: 1,
+      version: 2,
+      contributors: [],
+      categories: [],
+      createdAt: '2024-05-01T10:00:00.000Z',
+      lastUsed: '2024-05-01T10:00:00.000Z',
+    }
+
+    const result = GroupingsFileSchema.safeParse(groupings)
+    expect(result.success).toBe(true)
+  })
+
+  it('accepts groupings file with CSV mapping profiles', () => {
+    const groupings: GroupingsFile = {
+      version: 2,
+      contributors: [],
+      categories: [],
+      csvProfiles: [
+        {
+          name: 'S-Pankki',
+          headers: ['Date', 'Amount', 'Payee'],
+          delimiter: ';',
+          decimalSeparator: ',',
+          dateFormat: 'DD.MM.YYYY',
+          columns: { date: 'Date', amount: 'Amount', title: 'Payee' },
+        },
+      ],
+      createdAt: '2024-05-01T10:00:00.000Z',
+      lastUsed: '2024-05-01T10:00:00.000Z',
+    }
+
+    const result = GroupingsFileSchema.safeParse(groupings)
+    expect(result.success).toBe(true)
+  })
+
+  it('accepts groupings file with own accounts', () => {
+    const groupings: GroupingsFile = {
+      version: 2,
+      contributors: ['Alex'],
+      categories: [],
+      ownAccounts: ['FI1234567890123456'],
+      createdAt: '2024-05-01T10:00:00.000Z',
+      lastUsed: '2024-05-01T10:00:00.000Z',
+    }
+
+    const result = GroupingsFileSchema.safeParse(groupings)
+    expect(result.success).toBe(true)
+  })
+
+  it('accepts groupings file with duplicate decisions', () => {
+    const groupings: GroupingsFile = {
+      version: 2,
       contributors: [],
       categories: [],
+      duplicateDecisions: [
+        { groupKey: 'k3j9x1q2m8-0', keep: ['may.csv'] },
+        { groupKey: 'a1b2c3-0+d4e5f6-0', keep: ['may.csv', 'june.csv'], notDuplicate: true },
+      ],
       createdAt: '2024-05-01T10:00:00.000Z',
       lastUsed: '2024-05-01T10:00:00.000Z',
     }
@@ -94,9 +262,32 @@ describe('GroupingsFileSchema', () => {
     expect(result.success).toBe(true)
   })
 
+  it('rejects CSV mapping profile without an amount column', () => {
+    const groupings = {
+      version: 2,
+      contributors: [],
+      categories: [],
+      csvProfiles: [
+        {
+          name: 'Broken',
+          headers: ['Date', 'Payee'],
+          delimiter: ';',
+          decimalSeparator: ',',
+          dateFormat: 'DD.MM.YYYY',
+          columns: { date: 'Date', title: 'Payee' },
+        },
+      ],
+      createdAt: '2024-05-01T10:00:00.000Z',
+      lastUsed: '2024-05-01T10:00:00.000Z',
+    }
+
+    const result = GroupingsFileSchema.safeParse(groupings)
+    expect(result.success).toBe(false)
+  })
+
   it('rejects groupings file with wrong version', () => {
     const groupings = {
-      version: 2, // Only version 1 is valid
+      version: 3, // Only version 2 is current
       contributors: [],
       categories: [],
       createdAt: '2024-05-01T10:00:00.000Z',
@@ -109,7 +300,7 @@ describe('GroupingsFileSchema', () => {
 
   it('rejects groupings file with invalid date format', () => {
     const groupings = {
-      version: 1,
+      version: 2,
       contributors: [],
       categories: [],
       createdAt: '2024-05-01', // Not ISO datetime
@@ -122,7 +313,7 @@ describe('GroupingsFileSchema', () => {
 
   it('rejects groupings file with invalid category mapping', () => {
     const groupings = {
-      version: 1,
+      version: 2,
       contributors: [],
       categories: [
         { pattern: '', category: 'Groceries', matchType: 'exact' }, // Empty pattern
@@ -136,6 +327,64 @@ describe('GroupingsFileSchema', () => {
   })
 })
 
+describe('getMajorGroup', () => {
+  const majorGroups = { Lidl: 'Groceries', Alepa: 'Groceries' }
+
+  it('finds the major group a category rolls up into', () => {
+    expect(getMajorGroup('Lidl', majorGroups)).toBe('Groceries')
+  })
+
+  it('keeps a category without a major group as its own', () => {
+    expect(getMajorGroup('Netflix', majorGroups)).toBe('Netflix')
+    expect(getMajorGroup('constructor', majorGroups)).toBe('constructor')
+  })
+})
+
+describe('getMinorGroups', () => {
+  it('lists the categories in a major group', () => {
+    const categories = ['Lidl', 'Netflix', 'Alepa', 'Groceries']
+
+    expect(getMinorGroups('Groceries', categories, { Lidl: 'Groceries', Alepa: 'Groceries' }))
+      .toEqual(['Lidl', 'Alepa', 'Groceries'])
+  })
+})
+
+describe('getMajorGroupError', () => {
+  const majorGroups = { Lidl: 'Groceries', Alepa: 'Groceries' }
+
+  it('accepts a new or existing major group', () => {
+    expect(getMajorGroupError('Prisma', 'Groceries', majorGroups)).toBeNull()
+    expect(getMajorGroupError('Netflix', 'Entertainment', majorGroups)).toBeNull()
+  })
+
+  it('rejects a group that is in a major group itself', () => {
+    expect(getMajorGroupError('Prisma', 'Lidl', majorGroups)).toBe('"Lidl" is itself in major group "Groceries"')
+  })
+
+  it('rejects grouping a category other categories roll up into', () => {
+    expect(getMajorGroupError('Groceries', 'Food', majorGroups)).toBe('"Groceries" is the major group of Lidl, Alepa')
+  })
+})
+
+describe('MajorGroupsSchema', () => {
+  it('accepts categories rolling up into major groups', () => {
+    expect(MajorGroupsSchema.safeParse({ Lidl: 'Groceries', Netflix: 'Entertainment' }).success).toBe(true)
+  })
+
+  it('rejects a third tier', () => {
+    const result = MajorGroupsSchema.safeParse({ Lidl: 'Groceries', Groceries: 'Food' })
+
+    expect(result.success).toBe(false)
+    expect(result.error?.issues[0].message).toContain('Groceries')
+  })
+
+  it('is optional in the groupings file', () => {
+    const groupings = { ...createEmptyGroupingsFile(), majorGroups: { Lidl: 'Groceries' } }
+
+    expect(GroupingsFileSchema.safeParse(groupings).success).toBe(true)
+  })
+})
+
 describe('createEmptyGroupingsFile', () => {
   it('creates a valid groupings file', () => {
     const groupings = createEmptyGroupingsFile()
@@ -144,9 +393,9 @@ describe('createEmptyGroupingsFile', () => {
     expect(result.success).toBe(true)
   })
 
-  it('has version 1', () => {
+  it('has version 2', () => {
     const groupings = createEmptyGroupingsFile()
-    expect(groupings.version).toBe(1)
+    expect(groupings.version).toBe(2)
   })
 
   it('has empty contributors array', () => {
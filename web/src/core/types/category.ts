@@ -1,26 +1,180 @@
 import { z } from 'zod'
+import { CsvMappingProfileSchema, type CsvMappingProfile } from './csvProfile'
+import { DuplicateDecisionSchema, type DuplicateDecision } from './report'
 
 /**
- * How a category mapping matches transaction titles.
- * - 'exact': Title must match exactly (case-insensitive)
- * - 'contains': Title must contain the pattern (case-insensitive)
+ * How a category mapping matches transaction titles. All are case-insensitive.
+ * - 'exact': Title must match exactly
+ * - 'contains': Title must contain the pattern
+ * - 'prefix': Title must start with the pattern
+ * - 'suffix': Title must end with the pattern
+ * - 'regex': Title must match the pattern as a regular expression,
+ *   e.g. "^K-(MARKET|SUPERMARKET)"
  */
-export type MatchType = 'exact' | 'contains'
+export type MatchType = 'exact' | 'contains' | 'prefix' | 'suffix' | 'regex'
+
+export const MATCH_TYPES: MatchType[] = ['exact', 'contains', 'prefix', 'suffix', 'regex']
+
+/**
+ * A pattern matched against one text field of a transaction.
+ */
+export interface TextMatch {
+  pattern: string
+  matchType: MatchType
+}
+
+/**
+ * Whether a rule applies to money going out or coming in.
+ */
+export type RuleDirection = 'expense' | 'income'
+
+/**
+ * Conditions a rule adds on top of its title pattern. All must hold.
+ */
+export interface RuleConditions {
+  name?: TextMatch            // Counterparty name
+  message?: TextMatch
+  referenceNumber?: TextMatch
+  minAmount?: number          // Smallest amount, inclusive, ignoring sign
+  maxAmount?: number          // Largest amount, exclusive, ignoring sign
+  direction?: RuleDirection   // Defaults to expenses
+  from?: string               // First day the rule applies, "YYYY-MM-DD"
+  to?: string                 // Last day the rule applies, "YYYY-MM-DD"
+}
 
 /**
  * A mapping from a pattern to a category.
- * Used to automatically categorize transactions based on their title.
+ * Used to automatically categorize transactions based on their title, and
+ * optionally other fields, amount, direction and date.
+ *
+ * Example: "LIDL under 5 is Snacks"
+ * { pattern: 'LIDL', matchType: 'contains', category: 'Snacks', conditions: { maxAmount: 5 } }
  */
 export interface CategoryMapping {
-  pattern: string       // The title or substring to match
+  pattern: string       // The title, substring or regular expression to match; empty matches any title
   category: string      // The category to assign
-  matchType: MatchType  // How to match: exact or contains
+  matchType: MatchType  // How to match the pattern
+  conditions?: RuleConditions
+  priority?: number     // Higher priorities are tried first; default 0
 }
 
-export const CategoryMappingSchema = z.object({
+/**
+ * Check that a regular expression pattern compiles.
+ *
+ * @returns The reason it doesn't, or null if it's valid
+ */
+export function getRegexError(pattern: string): string | null {
+  try {
+    new RegExp(pattern, 'i')
+    return null
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid regular expression'
+  }
+}
+
+/**
+ * Report a regex pattern that doesn't compile.
+ */
+function checkPattern(match: TextMatch, ctx: z.RefinementCtx, path: string[]): void {
+  if (match.matchType !== 'regex') return
+  const error = getRegexError(match.pattern)
+  if (error) {
+    ctx.addIssue({ code: 'custom', path, message: `Bad pattern "${match.pattern}": ${error}` })
+  }
+}
+
+const TextMatchSchema = z.object({
   pattern: z.string().min(1),
+  matchType: z.enum(MATCH_TYPES),
+}).superRefine((match, ctx) => checkPattern(match, ctx, ['pattern']))
+
+const DaySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/)
+
+export const RuleConditionsSchema = z.object({
+  name: TextMatchSchema.optional(),
+  message: TextMatchSchema.optional(),
+  referenceNumber: TextMatchSchema.optional(),
+  minAmount: z.number().nonnegative().optional(),
+  maxAmount: z.number().positive().optional(),
+  direction: z.enum(['expense', 'income']).optional(),
+  from: DaySchema.optional(),
+  to: DaySchema.optional(),
+})
+
+/**
+ * Whether a rule has any condition besides its title pattern.
+ */
+export function hasConditions(mapping: Pick<CategoryMapping, 'conditions'>): boolean {
+  return Object.values(mapping.conditions ?? {}).some(value => value !== undefined)
+}
+
+export const CategoryMappingSchema = z.object({
+  pattern: z.string(),
   category: z.string().min(1),
-  matchType: z.enum(['exact', 'contains']),
+  matchType: z.enum(MATCH_TYPES),
+  conditions: RuleConditionsSchema.optional(),
+  priority: z.number().int().optional(),
+}).superRefine((mapping, ctx) => {
+  // A rule matching any title needs something else to go on
+  if (!mapping.pattern && !hasConditions(mapping)) {
+    ctx.addIssue({ code: 'custom', path: ['pattern'], message: 'A rule without conditions needs a title pattern' })
+  }
+  if (mapping.pattern) checkPattern(mapping, ctx, ['pattern'])
+})
+
+/**
+ * The major group each category rolls up into - categories are the minor
+ * groups of the two-tier hierarchy.
+ *
+ * Example: { Lidl: 'Groceries', Alepa: 'Groceries', Netflix: 'Entertainment' }
+ */
+export type MajorGroups = Record<string, string>
+
+/**
+ * Which tier of the hierarchy to total spending by.
+ */
+export type CategoryLevel = 'major' | 'minor'
+
+/**
+ * Get the major group a category rolls up into. A category without one is
+ * its own major group.
+ */
+export function getMajorGroup(category: string, majorGroups: MajorGroups): string {
+  return Object.hasOwn(majorGroups, category) ? majorGroups[category] : category
+}
+
+/**
+ * Get the categories that roll up into a major group, including a category
+ * of the same name.
+ */
+export function getMinorGroups(majorGroup: string, categories: string[], majorGroups: MajorGroups): string[] {
+  return categories.filter(category => getMajorGroup(category, majorGroups) === majorGroup)
+}
+
+/**
+ * Check that putting a category in a major group keeps the hierarchy to
+ * two tiers.
+ *
+ * @returns Why the category can't go in the group, or null if it can
+ */
+export function getMajorGroupError(category: string, majorGroup: string, majorGroups: MajorGroups): string | null {
+  const parent = getMajorGroup(majorGroup, majorGroups)
+  if (parent !== majorGroup) {
+    return `"${majorGroup}" is itself in major group "${parent}"`
+  }
+
+  const members = Object.keys(majorGroups).filter(c => c !== category && majorGroups[c] === category)
+  if (majorGroup !== category && members.length > 0) {
+    return `"${category}" is the major group of ${members.join(', ')}`
+  }
+  return null
+}
+
+export const MajorGroupsSchema = z.record(z.string().min(1), z.string().min(1)).superRefine((groups, ctx) => {
+  for (const [category, group] of Object.entries(groups)) {
+    const error = getMajorGroupError(category, group, groups)
+    if (error) ctx.addIssue({ code: 'custom', path: [category], message: error })
+  }
 })
 
 /**
@@ -29,28 +183,85 @@ export const CategoryMappingSchema = z.object({
  * This is the persistence mechanism - no server storage.
  */
 export interface GroupingsFile {
-  version: 1                        // Schema version for future compatibility
+  version: 2                        // Schema version for future compatibility
   contributors: string[]            // Selected contributor names to track
   categories: CategoryMapping[]     // All category mappings
+  csvProfiles?: CsvMappingProfile[] // Saved column mappings for banks without a built-in parser
+  ownAccounts?: string[]            // Our own account numbers (IBANs); transfers between them are internal
+  baseCurrency?: string             // Currency the report is converted to
+  duplicateDecisions?: DuplicateDecision[] // How duplicate groups were resolved
+  majorGroups?: MajorGroups         // Category -> the major group it rolls up into
   createdAt: string                 // ISO date when first created
   lastUsed: string                  // ISO date when last used
 }
 
 export const GroupingsFileSchema = z.object({
-  version: z.literal(1),
+  version: z.literal(2),
   contributors: z.array(z.string()),
   categories: z.array(CategoryMappingSchema),
+  csvProfiles: z.array(CsvMappingProfileSchema).optional(),
+  ownAccounts: z.array(z.string().min(1)).optional(),
+  baseCurrency: z.string().regex(/^[A-Z]{3}$/).optional(),
+  duplicateDecisions: z.array(DuplicateDecisionSchema).optional(),
+  majorGroups: MajorGroupsSchema.optional(),
   createdAt: z.string().datetime(),
   lastUsed: z.string().datetime(),
 })
 
+/**
+ * Version 1 groupings files: the same fields, with only exact and contains
+ * matching.
+ */
+export const GroupingsFileV1Schema = GroupingsFileSchema.extend({
+  version: z.literal(1),
+  categories: z.array(CategoryMappingSchema.refine(
+    m => m.matchType === 'exact' || m.matchType === 'contains',
+    { message: 'Version 1 files only have exact and contains matching' }
+  )),
+})
+
+export type GroupingsFileV1 = z.infer<typeof GroupingsFileV1Schema>
+
+/**
+ * Upgrade a version 1 groupings file to the current version.
+ */
+export function migrateGroupingsFile(file: GroupingsFileV1): GroupingsFile {
+  return { ...file, version: 2 } as GroupingsFile
+}
+
+export type GroupingsFileResult =
+  | { success: true; data: GroupingsFile }
+  | { success: false; error: string }   // What is wrong, one problem per line
+
+/**
+ * Validate a loaded groupings file, upgrading older versions.
+ *
+ * @param data - The parsed JSON
+ * @returns The file in the current version, or the validation error
+ */
+export function readGroupingsFile(data: unknown): GroupingsFileResult {
+  const version = typeof data === 'object' && data !== null && 'version' in data ? data.version : undefined
+
+  if (version === 1) {
+    const v1 = GroupingsFileV1Schema.safeParse(data)
+    return v1.success
+      ? { success: true, data: migrateGroupingsFile(v1.data) }
+      : { success: false, error: z.prettifyError(v1.error) }
+  }
+
+  const current = GroupingsFileSchema.safeParse(data)
+  return current.success
+    ? { success: true, data: current.data as GroupingsFile }
+    : { success: false, error: z.prettifyError(current.error) }
+}
+
 /**
  * Create a new empty groupings file.
  */
 export function createEmptyGroupingsFile(): GroupingsFile {
   const now = new Date().toISOString()
   return {
-    version: 1,
+    version: 2,
     contributors: [],
     categories: [],
     createdAt: now,
@@ -0,0 +1,76 @@
+import { z } from 'zod'
+
+/**
+ * Decimal separator used for amounts in a statement file.
+ * - ',': European style, e.g. "1.234,56"
+ * - '.': English style, e.g. "1,234.56"
+ */
+export type DecimalSeparator = ',' | '.'
+
+/**
+ * Date formats supported by the generic CSV importer.
+ * Single-digit days and months are accepted for all of them.
+ */
+export const DATE_FORMATS = [
+  'YYYY-MM-DD',
+  'YYYY/MM/DD',
+  'DD.MM.YYYY',
+  'DD/MM/YYYY',
+  'MM/DD/YYYY',
+] as const
+
+export type DateFormat = typeof DATE_FORMATS[number]
+
+/**
+ * Which CSV column holds each transaction field.
+ * Amount comes either from one signed column, or from separate
+ * debit (money out) and credit (money in) columns.
+ */
+export interface CsvColumnMapping {
+  date: string
+  amount?: string       // Signed amount column
+  debit?: string        // Money out, as a positive or negative number
+  credit?: string       // Money in
+  title: string
+  name?: string
+  message?: string
+  reference?: string
+  balance?: string      // Running account balance after each row
+}
+
+/**
+ * A saved column mapping for a bank we have no built-in parser for.
+ * Stored in the groupings file so the next upload is recognised automatically.
+ */
+export interface CsvMappingProfile {
+  name: string                        // User-chosen name, e.g. "S-Pankki"
+  headers: string[]                   // Header row the profile was made for
+  delimiter: string
+  decimalSeparator: DecimalSeparator
+  dateFormat: DateFormat
+  columns: CsvColumnMapping
+}
+
+export const CsvColumnMappingSchema = z.object({
+  date: z.string().min(1),
+  amount: z.string().min(1).optional(),
+  debit: z.string().min(1).optional(),
+  credit: z.string().min(1).optional(),
+  title: z.string().min(1),
+  name: z.string().optional(),
+  message: z.string().optional(),
+  reference: z.string().optional(),
+  balance: z.string().optional(),
+}).refine(
+  columns => Boolean(columns.amount || columns.debit || columns.credit),
+  { message: 'An amount column, or debit/credit columns, are required' }
+)
+
+export const CsvMappingProfileSchema = z.object({
+  name: z.string().min(1),
+  headers: z.array(z.string()).min(1),
+  delimiter: z.string().min(1),
+  decimalSeparator: z.enum([',', '.']),
+  dateFormat: z.enum(DATE_FORMATS),
+  columns: CsvColumnMappingSchema,
+})
@@ -0,0 +1,65 @@
+import type { Transaction } from './transaction'
+
+/**
+ * Currency assumed for statements that don't say, and the default base currency.
+ */
+export const DEFAULT_CURRENCY = 'EUR'
+
+/**
+ * One row of the user's exchange rate table.
+ * Rates are entered by the user or loaded from a local CSV - never fetched.
+ */
+export interface ExchangeRate {
+  date: Date              // Day the rate applies from
+  currency: string        // ISO 4217 code, e.g. "SEK"
+  rate: number            // Units of base currency for one unit of `currency`
+}
+
+/**
+ * Symbols for common currencies; others are shown by their code.
+ */
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  EUR: '€',
+  USD: '$',
+  GBP: '£',
+  JPY: '¥',
+  SEK: 'kr ',
+  NOK: 'kr ',
+  DKK: 'kr ',
+}
+
+/**
+ * Get the prefix to show before an amount: "€" for EUR, "CHF " for CHF.
+ */
+export function getCurrencySymbol(currency: string = DEFAULT_CURRENCY): string {
+  return CURRENCY_SYMBOLS[currency] ?? `${currency} `
+}
+
+/**
+ * Format an amount with its currency: 1234.5, "EUR" -> "€1,234.50"
+ */
+export function formatMoney(amount: number, currency: string = DEFAULT_CURRENCY): string {
+  const value = amount.toLocaleString('en', { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+  return `${getCurrencySymbol(currency)}${value}`
+}
+
+/**
+ * Get the currency a transaction was booked in, before any conversion.
+ */
+export function getAccountCurrency(transaction: Transaction): string {
+  return transaction.originalCurrency ?? transaction.currency ?? DEFAULT_CURRENCY
+}
+
+/**
+ * Get the amount as booked, in the account's own currency.
+ */
+export function getBookedAmount(transaction: Transaction): number {
+  return transaction.originalAmount ?? transaction.amount
+}
+
+/**
+ * Get the balance as booked, in the account's own currency.
+ */
+export function getBookedBalance(transaction: Transaction): number | undefined {
+  return transaction.originalCurrency ? transaction.originalBalance : transaction.balance
+}
@@ -1,3 +1,6 @@
 export * from './transaction'
 export * from './category'
 export * from './report'
+export * from './csvProfile'
+export * from './currency'
+export * from './transactionId'
@@ -1,3 +1,4 @@
+import { z } from 'zod'
 import type { Transaction } from './transaction'
 
 /**
@@ -36,7 +37,23 @@ export interface MonthlyCashFlow {
   income: number          // Total positive amounts
   outgoings: number       // Total negative amounts (as positive number)
   net: number             // income - outgoings
-  cumulativeBalance: number // Running total of net
+  openingBalance: number  // Account balance at the start of the month
+  closingBalance: number  // Account balance at the end of the month
+  lowestBalance: number   // Lowest balance reached during the month
+}
+
+/**
+ * A break in the running balance: the balance carried forward from one
+ * transaction does not lead to the next, so something is missing between them.
+ */
+export interface BalanceGap {
+  after: Date             // Date of the last transaction before the break
+  before: Date            // Date of the first transaction after the break
+  expectedBalance: number // Balance after the earlier transaction
+  actualBalance: number   // Opening balance implied by the later transaction (balance - amount)
+  difference: number      // actualBalance - expectedBalance: net amount of the missing transactions
+  currency: string        // Account currency the balances are in
+  account?: string        // Account the balances belong to, if the statement names it
 }
 
 /**
@@ -55,6 +72,49 @@ export interface DataQuality {
   duplicatesRemoved: number
   missingWeeks: string[]    // Format: "YYYY-WW"
   missingMonths: string[]   // Format: "YYYY-MM"
+  balanceGaps: BalanceGap[] // Breaks in the running balance, oldest first
+}
+
+/**
+ * Dates one statement file covers: its first to last transaction.
+ */
+export interface FileCoverage {
+  sourceFile: string
+  start: Date
+  end: Date
+  transactionCount: number
+}
+
+/**
+ * Dates two files both cover. Transactions in them should turn up as duplicates.
+ */
+export interface CoverageOverlap {
+  files: [string, string]
+  start: Date
+  end: Date
+  duplicateGroups: number   // Duplicate groups with copies in both files
+}
+
+/**
+ * Dates no file covers - transactions may be missing.
+ */
+export interface CoverageGap {
+  start: Date               // First uncovered day
+  end: Date                 // Last uncovered day
+  missingWeeks: string[]    // Weeks in the gap with no transactions, "YYYY-Www"
+  missingMonths: string[]   // Months in the gap with no transactions, "YYYY-MM"
+}
+
+/**
+ * Which dates each statement file covers, where files overlap and where
+ * none of them covers.
+ */
+export interface StatementCoverage {
+  start: Date
+  end: Date
+  files: FileCoverage[]         // By start date
+  overlaps: CoverageOverlap[]   // By start date
+  gaps: CoverageGap[]           // By start date
 }
 
 /**
@@ -84,6 +144,8 @@ export interface ReportData {
   spending: {
     byCategory: Map<string, number>   // Category -> total amount
     monthly: MonthlySpending[]
+    byMajorGroup: Map<string, number> // Major group -> total amount
+    monthlyByMajorGroup: MonthlySpending[]
     uncategorized: Transaction[]
     uncategorizedTotal: number
     uncategorizedCount: number
@@ -94,6 +156,13 @@ export interface ReportData {
     totalIncome: number
     totalOutgoings: number
     netBalance: number
+    openingBalance: number | null     // Balance before the first transaction; null if unknown
+  }
+
+  transfers: {
+    transactions: Transaction[]       // Transfers to/from our own accounts
+    totalIn: number
+    totalOut: number
   }
 }
 
@@ -106,4 +175,37 @@ export interface DuplicateGroup {
   amount: number
   title: string
   referenceNumber: string
+  confidence?: number                 // 0-1, set on likely (fuzzy) matches only
 }
+
+/**
+ * A statement file left out of an upload because another file in it already
+ * holds all of its transactions.
+ */
+export interface ReuploadedFile {
+  filename: string
+  duplicateOf: string               // The file that was kept
+  kind: 'identical' | 'contained'   // Same content, or all its transactions in the other file
+  transactionCount: number
+}
+
+/**
+ * The user's decision on a duplicate group, saved in the groupings file so
+ * the same group is resolved the same way on the next import.
+ * Copies are identified by their source file - a group has at most one
+ * copy per file. Files are matched by content where it was recorded, so a
+ * renamed statement keeps its decision; older decisions match by filename.
+ */
+export interface DuplicateDecision {
+  groupKey: string          // Transaction IDs in the group (see getDuplicateGroupKey)
+  keep: string[]            // Source files whose copies are kept
+  keepContent?: string[]    // Content hashes of those files (see ImportReport.contentHash)
+  notDuplicate?: boolean    // Separate real transactions - keep every copy
+}
+
+export const DuplicateDecisionSchema = z.object({
+  groupKey: z.string().min(1),
+  keep: z.array(z.string()),
+  keepContent: z.array(z.string()).optional(),
+  notDuplicate: z.boolean().optional(),
+})
@@ -4,6 +4,9 @@ import {
   TransactionSchema,
   parseEuropeanDecimal,
   parseNordeaDate,
+  parseDottedDate,
+  parseDecimal,
+  parseDateWithFormat,
   type Transaction,
 } from './transaction'
 
@@ -128,6 +131,66 @@ describe('parseNordeaDate', () => {
   })
 })
 
+describe('parseDottedDate', () => {
+  it('parses standard date format DD.MM.YYYY', () => {
+    const date = parseDottedDate('10.05.2024')
+    expect(date.getFullYear()).toBe(2024)
+    expect(date.getMonth()).toBe(4)
+    expect(date.getDate()).toBe(10)
+  })
+
+  it('parses date with single-digit day and month', () => {
+    const date = parseDottedDate('1.5.2024')
+    expect(date.getMonth()).toBe(4)
+    expect(date.getDate()).toBe(1)
+  })
+
+  it('throws on invalid format', () => {
+    expect(() => parseDottedDate('2024/05/10')).toThrow('Invalid date format')
+  })
+
+  it('throws on impossible date', () => {
+    expect(() => parseDottedDate('31.02.2024')).toThrow('Invalid date')
+  })
+})
+
+describe('parseDecimal', () => {
+  it('parses comma decimals with dot thousands', () => {
+    expect(parseDecimal('-1.234,56', ',')).toBe(-1234.56)
+  })
+
+  it('parses dot decimals with comma thousands', () => {
+    expect(parseDecimal('1,234.56', '.')).toBe(1234.56)
+  })
+
+  it('ignores space thousand separators', () => {
+    expect(parseDecimal('1 234,56', ',')).toBe(1234.56)
+  })
+
+  it('throws on invalid input', () => {
+    expect(() => parseDecimal('abc', '.')).toThrow('Invalid number format')
+  })
+})
+
+describe('parseDateWithFormat', () => {
+  it('parses each supported format', () => {
+    const expected = new Date(2024, 4, 10)
+    expect(parseDateWithFormat('2024-05-10', 'YYYY-MM-DD')).toEqual(expected)
+    expect(parseDateWithFormat('2024/5/10', 'YYYY/MM/DD')).toEqual(expected)
+    expect(parseDateWithFormat('10.5.2024', 'DD.MM.YYYY')).toEqual(expected)
+    expect(parseDateWithFormat('10/05/2024', 'DD/MM/YYYY')).toEqual(expected)
+    expect(parseDateWithFormat('05/10/2024', 'MM/DD/YYYY')).toEqual(expected)
+  })
+
+  it('throws when the value does not fit the format', () => {
+    expect(() => parseDateWithFormat('13/25/2024', 'MM/DD/YYYY')).toThrow('Invalid date')
+  })
+
+  it('throws on incomplete date', () => {
+    expect(() => parseDateWithFormat('2024-05', 'YYYY-MM-DD')).toThrow('Invalid date format')
+  })
+})
+
 describe('TransactionSchema', () => {
   it('validates a complete transaction', () => {
     const transaction: Transaction = {
@@ -1,8 +1,10 @@
 import { z } from 'zod'
+import type { DateFormat, DecimalSeparator } from './csvProfile'
 
 /**
  * Raw row as it comes from Nordea CSV (before transformation).
- * Column names match the CSV header exactly.
+ * Column names match the English CSV header; Finnish, Swedish and Danish
+ * headers are renamed to these when parsing.
  */
 export const RawNordeaRowSchema = z.object({
   'Booking date': z.string(),
@@ -19,12 +21,31 @@ export const RawNordeaRowSchema = z.object({
 
 export type RawNordeaRow = z.infer<typeof RawNordeaRowSchema>
 
+/**
+ * Raw row as it comes from OP (OP-Pohjola) CSV (before transformation).
+ * Column names match the CSV header exactly.
+ */
+export const RawOPRowSchema = z.object({
+  'Kirjauspäivä': z.string(),       // Booking date: "DD.MM.YYYY"
+  'Arvopäivä': z.string(),          // Value date: "DD.MM.YYYY"
+  'Määrä EUROA': z.string(),        // Amount with comma decimal: "-45,99" or "+800,00"
+  'Laji': z.string(),               // Transaction type code, e.g. "162"
+  'Selitys': z.string(),            // Transaction type text, e.g. "KORTTIOSTO"
+  'Saaja/Maksaja': z.string(),      // Counterparty name
+  'Saajan tilinumero': z.string(),  // Counterparty account (IBAN + BIC)
+  'Viite': z.string(),              // Reference number
+  'Viesti': z.string(),             // Message
+  'Arkistointitunnus': z.string(),  // Archive ID - unique per transaction
+})
+
+export type RawOPRow = z.infer<typeof RawOPRowSchema>
+
 /**
  * Normalized transaction after parsing and transformation.
  * This is the shape we work with throughout the app.
  */
 export interface Transaction {
-  id: string                      // Generated unique ID (sourceFile + index)
+  id: string                      // Derived from the content - see assignTransactionIds
   date: Date                      // Parsed from "Booking date"
   amount: number                  // Parsed from "Amount" (positive = income, negative = expense)
   title: string                   // From "Title" - the payee/description
@@ -32,11 +53,31 @@ export interface Transaction {
   referenceNumber: string         // From "Reference number" - kept as string for leading zeros
   message: string                 // From "Message"
   sourceFile: string              // Which CSV file this came from
+  externalId?: string             // Bank-assigned unique ID (OP archive ID, account + camt entry ref or OFX FITID), if any
+  balance?: number                // Booked account balance after this transaction, if the statement has one
+  senderAccount?: string          // Paying account (IBAN), from "Sender"
+  recipientAccount?: string       // Receiving account (IBAN), from "Recipient"
+  currency?: string               // ISO 4217 code, from "Currency" (EUR if the statement doesn't say)
+
+  // Set when converted to the base currency; amount and balance are then in the base currency
+  originalAmount?: number         // Amount in the statement's currency
+  originalCurrency?: string       // The statement's currency
+  originalBalance?: number        // Balance in the statement's currency
+
+  // Card purchase details picked out of the title and message, where present
+  merchant?: string               // Merchant name without terminal or card details
+  terminal?: string               // Store/terminal number, e.g. "789" in "Fat Lizard Otaniemi - 789"
+  city?: string                   // Where the card was used, e.g. "HELSINKI"
+  cardSuffix?: string             // Last four digits of the card
+  foreignAmount?: number          // Purchase amount in the merchant's currency
+  foreignCurrency?: string        // The merchant's currency, if not the account's
 
   // Added during processing (optional until assigned)
   category?: string               // User-assigned spending category
+  categoryRule?: string           // Key of the rule that assigned it (getRuleKey)
   contributor?: string            // Identified contributor name (for income)
   isDuplicate?: boolean           // Flagged during deduplication
+  isInternal?: boolean            // Transfer to/from one of our own accounts
 }
 
 /**
@@ -52,11 +93,35 @@ export const TransactionSchema = z.object({
   referenceNumber: z.string(),
   message: z.string(),
   sourceFile: z.string().min(1),
+  externalId: z.string().optional(),
+  balance: z.number().optional(),
+  senderAccount: z.string().optional(),
+  recipientAccount: z.string().optional(),
+  currency: z.string().optional(),
+  originalAmount: z.number().optional(),
+  originalCurrency: z.string().optional(),
+  originalBalance: z.number().optional(),
+  merchant: z.string().optional(),
+  terminal: z.string().optional(),
+  city: z.string().optional(),
+  cardSuffix: z.string().optional(),
+  foreignAmount: z.number().optional(),
+  foreignCurrency: z.string().optional(),
   category: z.string().optional(),
+  categoryRule: z.string().min(1).optional(),
   contributor: z.string().optional(),
   isDuplicate: z.boolean().optional(),
+  isInternal: z.boolean().optional(),
 })
 
+/**
+ * Get the name to categorise and report a transaction by: the clean
+ * merchant name for card purchases, otherwise the title.
+ */
+export function getMerchantName(transaction: Transaction): string {
+  return (transaction.merchant ?? transaction.title).trim()
+}
+
 /**
  * Parse European decimal format (comma as decimal separator).
  * "1.234,56" -> 1234.56
@@ -87,3 +152,68 @@ export function parseNordeaDate(value: string): Date {
   }
   return date
 }
+
+/**
+ * Parse day-first dotted date format: "DD.MM.YYYY" or "D.M.YYYY"
+ */
+export function parseDottedDate(value: string): Date {
+  const parts = value.trim().split('.')
+  if (parts.length !== 3 || parts.some(p => !/^\d+$/.test(p))) {
+    throw new Error(`Invalid date format: "${value}"`)
+  }
+  const [day, month, year] = parts.map(Number)
+  const date = new Date(year, month - 1, day) // month is 0-indexed
+  if (isNaN(date.getTime()) || date.getMonth() !== month - 1) {
+    throw new Error(`Invalid date: "${value}"`)
+  }
+  return date
+}
+
+/**
+ * Parse a number with a known decimal separator.
+ * Thousand separators (the other of '.' / ',', spaces) are dropped.
+ * "1 234,56" with ',' -> 1234.56, "1,234.56" with '.' -> 1234.56
+ */
+export function parseDecimal(value: string, decimalSeparator: DecimalSeparator): number {
+  const compact = value.replace(/[\s\u00a0]/g, '')
+  const normalized = decimalSeparator === ','
+    ? compact.replace(/\./g, '').replace(',', '.')
+    : compact.replace(/,/g, '')
+  const parsed = parseFloat(normalized)
+  if (isNaN(parsed)) {
+    throw new Error(`Invalid number format: "${value}"`)
+  }
+  return parsed
+}
+
+/**
+ * Parse a date in one of the supported DateFormat layouts.
+ * Separators are not checked strictly - only the field order matters.
+ */
+export function parseDateWithFormat(value: string, format: DateFormat): Date {
+  const parts = value.trim().split(/[^0-9]+/).filter(Boolean).map(Number)
+  if (parts.length !== 3) {
+    throw new Error(`Invalid date format: "${value}"`)
+  }
+
+  let year: number, month: number, day: number
+  switch (format) {
+    case 'YYYY-MM-DD':
+    case 'YYYY/MM/DD':
+      [year, month, day] = parts
+      break
+    case 'DD.MM.YYYY':
+    case 'DD/MM/YYYY':
+      [day, month, year] = parts
+      break
+    case 'MM/DD/YYYY':
+      [month, day, year] = parts
+      break
+  }
+
+  const date = new Date(year, month - 1, day) // month is 0-indexed
+  if (isNaN(date.getTime()) || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    throw new Error(`Invalid date: "${value}"`)
+  }
+  return date
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import { assignTransactionIds, getContentKey, type TransactionDraft } from './transactionId'
+
+function createDraft(overrides: Partial<TransactionDraft> = {}): TransactionDraft {
+  return {
+    date: new Date(2024, 4, 10),
+    amount: -4.5,
+    title: 'CAFE REGATTA',
+    name: '',
+    referenceNumber: '',
+    message: '',
+    sourceFile: 'may.csv',
+    ...overrides,
+  }
+}
+
+describe('getContentKey', () => {
+  it('uses the bank-assigned ID when there is one', () => {
+    expect(getContentKey(createDraft({ externalId: 'ARCH-1' }))).toBe('ext|ARCH-1')
+  })
+
+  it('uses the booked amount, ignoring currency conversion', () => {
+    const booked = createDraft({ amount: -100, currency: 'SEK' })
+    const converted = createDraft({ amount: -8.6, currency: 'EUR', originalAmount: -100, originalCurrency: 'SEK' })
+
+    expect(getContentKey(converted)).toBe(getContentKey(booked))
+  })
+
+  it('tells apart identical rows on different accounts', () => {
+    const checking = createDraft({ title: 'PALVELUMAKSU', senderAccount: 'FI69 2000 4200 0420 42' })
+    const savings = createDraft({ title: 'PALVELUMAKSU', senderAccount: 'FI98 7654 3210 9876 54' })
+
+    expect(getContentKey(checking)).not.toBe(getContentKey(savings))
+  })
+
+  it('ignores how the account is spaced', () => {
+    const spaced = createDraft({ senderAccount: 'FI69 2000 4200 0420 42' })
+    const compact = createDraft({ senderAccount: 'fi6920004200042042' })
+
+    expect(getContentKey(spaced)).toBe(getContentKey(compact))
+  })
+})
+
+describe('assignTransactionIds', () => {
+  it('gives the same content the same ID in any file', () => {
+    const [inMay] = assignTransactionIds([createDraft()])
+    const [inExport] = assignTransactionIds([createDraft({ sourceFile: 'export.csv' })])
+
+    expect(inMay.id).toBe(inExport.id)
+  })
+
+  it('counts identical rows on the same day', () => {
+    const ids = assignTransactionIds([createDraft(), createDraft(), createDraft()]).map(t => t.id)
+
+    expect(new Set(ids).size).toBe(3)
+    expect(ids[0].replace(/-0$/, '-1')).toBe(ids[1])
+  })
+
+  it('keeps IDs when other rows are added', () => {
+    const before = assignTransactionIds([createDraft(), createDraft({ title: 'LIDL' })])
+    const after = assignTransactionIds([
+      createDraft({ title: 'ALEPA' }),
+      createDraft(),
+      createDraft({ title: 'LIDL' }),
+    ])
+
+    expect(after.slice(1).map(t => t.id)).toEqual(before.map(t => t.id))
+  })
+
+  it('gives different content different IDs', () => {
+    const [a, b] = assignTransactionIds([createDraft(), createDraft({ amount: -4.6 })])
+
+    expect(a.id).not.toBe(b.id)
+  })
+})
@@ -0,0 +1,81 @@
+import type { Transaction } from './transaction'
+
+/**
+ * A parsed transaction before its ID is assigned.
+ */
+export type TransactionDraft = Omit<Transaction, 'id'>
+
+/**
+ * Format a date as local "YYYY-MM-DD", so keys don't shift with the time zone.
+ */
+function formatDay(date: Date): string {
+  const year = date.getFullYear()
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${year}-${month}-${day}`
+}
+
+/**
+ * Account as part of a key, without the spacing exports differ in.
+ */
+function formatAccount(account: string | undefined): string {
+  return account ? account.replace(/\s+/g, '').toUpperCase() : ''
+}
+
+/**
+ * Key identifying a transaction by its content: the bank-assigned ID where
+ * the format has one, otherwise date + amount + title + reference number +
+ * accounts. The same transaction in two exports has the same key; the same
+ * fee charged on two accounts does not.
+ */
+export function getContentKey(t: TransactionDraft): string {
+  // Bank-assigned IDs (archive ID, camt entry reference, OFX FITID) identify a transaction exactly
+  if (t.externalId) {
+    return `ext|${t.externalId}`
+  }
+
+  // Amount as booked, so converting currencies doesn't change the key
+  const amount = t.originalAmount ?? t.amount
+  const accounts = `${formatAccount(t.senderAccount)}>${formatAccount(t.recipientAccount)}`
+  return `${formatDay(t.date)}|${amount}|${t.title}|${t.referenceNumber}|${accounts}`
+}
+
+/**
+ * 53-bit string hash (cyrb53), as base 36. Not cryptographic - just short,
+ * stable and well spread.
+ */
+export function hashString(value: string): string {
+  let h1 = 0xdeadbeef
+  let h2 = 0x41c6ce57
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i)
+    h1 = Math.imul(h1 ^ ch, 2654435761)
+    h2 = Math.imul(h2 ^ ch, 1597334677)
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36)
+}
+
+/**
+ * Give the transactions of one statement file IDs derived from their content.
+ *
+ * The ID is a hash of the content key plus an occurrence counter, so
+ * identical rows on the same day (two coffees at the same café) stay
+ * distinct: "k3j9x1q2m8-0", "k3j9x1q2m8-1". Re-exporting the same month
+ * under another filename, or with rows added, keeps every existing ID -
+ * so the same transaction in two files also shares its ID.
+ *
+ * @param drafts - One file's transactions, in file order
+ * @returns The transactions with IDs
+ */
+export function assignTransactionIds(drafts: TransactionDraft[]): Transaction[] {
+  const occurrences = new Map<string, number>()
+
+  return drafts.map(draft => {
+    const key = getContentKey(draft)
+    const occurrence = occurrences.get(key) ?? 0
+    occurrences.set(key, occurrence + 1)
+    return { id: `${hashString(key)}-${occurrence}`, ...draft }
+  })
+}
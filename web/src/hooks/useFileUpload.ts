@@ -1,83 +1,250 @@
-import { useCallback } from 'react'
+import { useCallback, useState } from 'react'
 import { useAppDispatch } from '../context'
-import { parseNordeaCSV } from '../core/parsers'
-import { findDuplicates } from '../core/processors'
-import { GroupingsFileSchema, type CategoryMapping } from '../core/types/category'
-import type { Transaction } from '../core/types'
+import {
+  createProfileParser,
+  findSpreadsheetDamage,
+  readStatementFile,
+  type ImportIssue,
+  type ImportReport,
+  type StatementSample,
+} from '../core/parsers'
+import {
+  convertTransactions,
+  findReuploadedFiles,
+  getLegacyHelperKind,
+  getUniqueFilenames,
+  parseLegacyRules,
+  parseRateTable,
+  type FuzzyMatchOptions,
+} from '../core/processors'
+import { readGroupingsFile } from '../core/types/category'
+import { hashString, type CsvMappingProfile, type ExchangeRate, type Transaction } from '../core/types'
+import {
+  WorkerCancelledError,
+  cancelWork,
+  errorMessage,
+  findDuplicatesInWorker,
+  parseFilesInWorker,
+  type FileProgress,
+} from '../workers'
 
 interface UseFileUploadResult {
-  processFiles: (files: File[]) => Promise<void>
+  fileProgress: FileProgress[]
+  processFiles: (files: File[], lenient: boolean) => Promise<void>
+  cancelProcessing: () => void
+  applyCsvProfile: (profile: CsvMappingProfile, unmapped: StatementSample[], lenient: boolean) => void
+  loadExchangeRates: (file: File) => Promise<void>
+  continueToDedup: (
+    transactions: Transaction[],
+    rates: ExchangeRate[],
+    baseCurrency: string,
+    fuzzy: FuzzyMatchOptions
+  ) => Promise<void>
 }
 
 /**
  * Hook for handling file uploads.
- * Parses CSV files and optional groupings JSON, then updates app state.
+ * Parses statement files (any registered format) in the statement worker,
+ * reporting per-file progress, and loads an optional groupings JSON and the
+ * old R project's helper CSVs. In lenient mode rows that fail to parse are
+ * skipped and listed in each file's import report instead of failing the
+ * upload. CSV files no parser recognises
+ * are held back for the column mapping wizard. The landing screen shows what
+ * was loaded and calls continueToDedup when the user moves on, which converts
+ * everything to the base currency first.
  */
 export function useFileUpload(): UseFileUploadResult {
   const dispatch = useAppDispatch()
+  const [fileProgress, setFileProgress] = useState<FileProgress[]>([])
 
-  const processFiles = useCallback(async (files: File[]) => {
+  const updateProgress = useCallback((progress: FileProgress) => {
+    // Each file keeps its place in the list as its status changes
+    setFileProgress(prev => prev.some(p => p.filename === progress.filename)
+      ? prev.map(p => (p.filename === progress.filename ? progress : p))
+      : [...prev, progress])
+  }, [])
+
+  const processFiles = useCallback(async (files: File[], lenient: boolean) => {
     dispatch({ type: 'SET_LOADING', isLoading: true })
     dispatch({ type: 'SET_ERROR', error: null })
+    setFileProgress([])
 
     try {
-      const csvFiles: File[] = []
+      const statementFiles: File[] = []
+      const helperFiles: File[] = []
       let groupingsFile: File | null = null
 
-      // Separate CSV and JSON files
+      // Separate statement, JSON and R helper files
       for (const file of files) {
-        if (file.name.endsWith('.csv')) {
-          csvFiles.push(file)
-        } else if (file.name.endsWith('.json')) {
+        if (file.name.endsWith('.json')) {
           groupingsFile = file
+        } else if (getLegacyHelperKind(file.name)) {
+          helperFiles.push(file)
+        } else {
+          statementFiles.push(file)
         }
       }
 
-      if (csvFiles.length === 0) {
-        throw new Error('Please select at least one CSV file')
-      }
-
-      // Parse CSV files
-      const allTransactions: Transaction[] = []
-
-      for (const file of csvFiles) {
-        const content = await file.text()
-        const transactions = parseNordeaCSV(content, file.name)
-        allTransactions.push(...transactions)
+      if (statementFiles.length === 0) {
+        throw new Error('Please select at least one bank statement file')
       }
 
-      // Sort by date
-      allTransactions.sort((a, b) => a.date.getTime() - b.date.getTime())
-
-      // Update state with loaded transactions
-      dispatch({ type: 'FILES_LOADED', transactions: allTransactions })
+      // Parse groupings file first - its saved CSV profiles help recognise statements
+      let csvProfiles: CsvMappingProfile[] = []
 
-      // Parse groupings file if provided
       if (groupingsFile) {
         const groupingsContent = await groupingsFile.text()
         const groupingsData = JSON.parse(groupingsContent)
-        const validated = GroupingsFileSchema.safeParse(groupingsData)
+        const validated = readGroupingsFile(groupingsData)
 
         if (validated.success) {
+          csvProfiles = validated.data.csvProfiles ?? []
           dispatch({
             type: 'GROUPINGS_LOADED',
             contributors: validated.data.contributors,
-            categories: validated.data.categories as CategoryMapping[],
+            categories: validated.data.categories,
+            csvProfiles,
+            ownAccounts: validated.data.ownAccounts ?? [],
+            baseCurrency: validated.data.baseCurrency,
+            duplicateDecisions: validated.data.duplicateDecisions ?? [],
+            majorGroups: validated.data.majorGroups ?? {},
           })
         } else {
-          console.warn('Invalid groupings file format, ignoring')
+          // Report bad rules (e.g. a regex that doesn't compile) rather than dropping them silently
+          throw new Error(`${groupingsFile.name} is not a valid groupings file:\n${validated.error}`)
         }
       }
 
-      // Find duplicates and advance to next step
-      const duplicateGroups = findDuplicates(allTransactions)
-      dispatch({ type: 'DUPLICATES_FOUND', groups: duplicateGroups })
+      // Rules from the old R project's helpers/ folder, added to any from the groupings file
+      if (helperFiles.length > 0) {
+        const helpers = await Promise.all(helperFiles.map(async file => ({
+          filename: file.name,
+          content: (await readStatementFile(file)).content,
+        })))
+        dispatch({ type: 'LEGACY_RULES_IMPORTED', rules: parseLegacyRules(helpers) })
+      }
+
+      // Two exports both named "export.csv" must keep their transactions apart
+      const uniqueNames = getUniqueFilenames(statementFiles.map(file => file.name))
+      const namedFiles = statementFiles.map((file, i) => uniqueNames[i] === file.name
+        ? file
+        : new File([file], uniqueNames[i], { type: file.type, lastModified: file.lastModified }))
 
+      // Parse statement files in the worker, detecting each file's format
+      const parsed = await parseFilesInWorker(
+        { files: namedFiles, profiles: csvProfiles, lenient },
+        updateProgress
+      )
+      const allTransactions = parsed.transactions
+      const importedFiles = parsed.files
+      const unmapped = parsed.unmapped
+
+      // Leave out files uploaded twice, or already inside another uploaded file
+      const reuploads = findReuploadedFiles(importedFiles, allTransactions)
+      const dropped = new Set(reuploads.map(r => r.filename))
+      const keptTransactions = allTransactions.filter(t => !dropped.has(t.sourceFile))
+
+      // Sort by date
+      keptTransactions.sort((a, b) => a.date.getTime() - b.date.getTime())
+
+      // Update state with loaded transactions
+      dispatch({
+        type: 'FILES_LOADED',
+        transactions: keptTransactions,
+        files: importedFiles.filter(f => !dropped.has(f.filename)),
+        unmapped,
+        reuploads,
+      })
     } catch (error) {
-      const message = error instanceof Error ? error.message : 'Failed to process files'
-      dispatch({ type: 'SET_ERROR', error: message })
+      if (error instanceof WorkerCancelledError) {
+        dispatch({ type: 'SET_LOADING', isLoading: false })
+        return
+      }
+      dispatch({ type: 'SET_ERROR', error: errorMessage(error, 'Failed to process files') })
+    }
+  }, [dispatch, updateProgress])
+
+  const cancelProcessing = useCallback(() => {
+    cancelWork()
+    setFileProgress([])
+  }, [])
+
+  const applyCsvProfile = useCallback((
+    profile: CsvMappingProfile,
+    unmapped: StatementSample[],
+    lenient: boolean
+  ) => {
+    try {
+      // The profile was made for the first file; apply it to any other file with the same layout
+      const parser = createProfileParser(profile)
+      const matching = unmapped.filter((sample, i) => i === 0 || parser.detect(sample))
+
+      const transactions: Transaction[] = []
+      const files: ImportReport[] = []
+
+      for (const sample of matching) {
+        const skipped: ImportIssue[] = []
+        const parsed = parser.parse(
+          sample,
+          lenient ? { onSkippedRow: issue => skipped.push(issue) } : {}
+        )
+        transactions.push(...parsed)
+        files.push({
+          filename: sample.filename,
+          format: parser.label,
+          transactionCount: parsed.length,
+          skipped: skipped.sort((a, b) => a.row - b.row),
+          warnings: findSpreadsheetDamage(sample.content),
+          contentHash: hashString(sample.content),
+        })
+      }
+
+      dispatch({ type: 'CSV_PROFILE_APPLIED', profile, transactions, files })
+    } catch (error) {
+      dispatch({ type: 'SET_ERROR', error: errorMessage(error, 'Failed to apply column mapping') })
+    }
+  }, [dispatch])
+
+  const loadExchangeRates = useCallback(async (file: File) => {
+    try {
+      const { content } = await readStatementFile(file)
+      const rates = parseRateTable(content, file.name)
+      dispatch({ type: 'EXCHANGE_RATES_LOADED', rates })
+    } catch (error) {
+      dispatch({ type: 'SET_ERROR', error: errorMessage(error, 'Failed to load exchange rates') })
+    }
+  }, [dispatch])
+
+  const continueToDedup = useCallback(async (
+    transactions: Transaction[],
+    rates: ExchangeRate[],
+    baseCurrency: string,
+    fuzzy: FuzzyMatchOptions
+  ) => {
+    dispatch({ type: 'SET_LOADING', isLoading: true })
+
+    try {
+      const converted = convertTransactions(transactions, rates, baseCurrency)
+      dispatch({ type: 'CURRENCIES_CONVERTED', transactions: converted })
+
+      // Find duplicates in the worker and advance to next step
+      const { groups, fuzzyGroups } = await findDuplicatesInWorker({ transactions: converted, fuzzy })
+      dispatch({ type: 'DUPLICATES_FOUND', groups, fuzzyGroups })
+    } catch (error) {
+      if (error instanceof WorkerCancelledError) {
+        dispatch({ type: 'SET_LOADING', isLoading: false })
+        return
+      }
+      dispatch({ type: 'SET_ERROR', error: errorMessage(error, 'Failed to find duplicates') })
     }
   }, [dispatch])
 
-  return { processFiles }
+  return {
+    fileProgress,
+    processFiles,
+    cancelProcessing,
+    applyCsvProfile,
+    loadExchangeRates,
+    continueToDedup,
+  }
 }
@@ -0,0 +1,127 @@
+import { handleWorkerRequest } from './handler'
+import type {
+  DuplicateSearch,
+  FileProgress,
+  ParsedFiles,
+  WorkerRequest,
+  WorkerResponse,
+} from './protocol'
+import type { ReportData } from '../core/types/report'
+
+/**
+ * Error a pending request rejects with when the work is cancelled.
+ */
+export class WorkerCancelledError extends Error {
+  constructor() {
+    super('Cancelled')
+    this.name = 'WorkerCancelledError'
+  }
+}
+
+interface PendingRequest {
+  resolve: (response: WorkerResponse) => void
+  reject: (error: Error) => void
+  onProgress?: (progress: FileProgress) => void
+}
+
+// Request fields besides type and id, which the client fills in
+type Request<T extends WorkerRequest['type']> = Omit<Extract<WorkerRequest, { type: T }>, 'type' | 'id'>
+
+let worker: Worker | null = null
+let nextId = 1
+const pending = new Map<number, PendingRequest>()
+
+/**
+ * Route a response to the request waiting for it.
+ */
+function receive(response: WorkerResponse): void {
+  const request = pending.get(response.id)
+  if (!request) return // Cancelled
+
+  if (response.type === 'progress') {
+    request.onProgress?.(response.progress)
+    return
+  }
+
+  pending.delete(response.id)
+  if (response.type === 'error') {
+    request.reject(new Error(response.message))
+  } else {
+    request.resolve(response)
+  }
+}
+
+/**
+ * Get the statement worker, starting it on first use.
+ * Returns null where Web Workers aren't available.
+ */
+function getWorker(): Worker | null {
+  if (typeof Worker === 'undefined') return null
+  if (!worker) {
+    worker = new Worker(new URL('./statements.worker.ts', import.meta.url), { type: 'module' })
+    worker.addEventListener('message', (event: MessageEvent<WorkerResponse>) => receive(event.data))
+  }
+  return worker
+}
+
+/**
+ * Send a request and wait for its result.
+ */
+function send(request: WorkerRequest, onProgress?: (progress: FileProgress) => void): Promise<WorkerResponse> {
+  return new Promise((resolve, reject) => {
+    pending.set(request.id, { resolve, reject, onProgress })
+
+    const target = getWorker()
+    if (target) {
+      target.postMessage(request)
+    } else {
+      // No worker support - do the work here instead
+      handleWorkerRequest(request, receive)
+    }
+  })
+}
+
+/**
+ * Parse statement files in the worker.
+ *
+ * @param onProgress - Called as each file is queued, parsed or fails
+ * @throws WorkerCancelledError if cancelWork() is called first
+ */
+export async function parseFilesInWorker(
+  request: Request<'parseFiles'>,
+  onProgress?: (progress: FileProgress) => void
+): Promise<ParsedFiles> {
+  const response = await send({ ...request, type: 'parseFiles', id: nextId++ }, onProgress)
+  return (response as Extract<WorkerResponse, { type: 'filesParsed' }>).result
+}
+
+/**
+ * Find exact and likely duplicate transactions in the worker.
+ */
+export async function findDuplicatesInWorker(request: Request<'findDuplicates'>): Promise<DuplicateSearch> {
+  const response = await send({ ...request, type: 'findDuplicates', id: nextId++ })
+  return (response as Extract<WorkerResponse, { type: 'duplicatesFound' }>).result
+}
+
+/**
+ * Build the report in the worker.
+ */
+export async function buildReportInWorker(request: Request<'buildReport'>): Promise<ReportData> {
+  const response = await send({ ...request, type: 'buildReport', id: nextId++ })
+  return (response as Extract<WorkerResponse, { type: 'reportBuilt' }>).report
+}
+
+/**
+ * Cancel all work in progress. The worker is stopped mid-task and a fresh
+ * one starts with the next request; pending requests reject with
+ * WorkerCancelledError.
+ */
+export function cancelWork(): void {
+  worker?.terminate()
+  worker = null
+
+  for (const request of pending.values()) {
+    request.reject(new WorkerCancelledError())
+  }
+  pending.clear()
+}
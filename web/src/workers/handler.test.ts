@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest'
+import { handleWorkerRequest } from './handler'
+import type { WorkerResponse } from './protocol'
+
+const NORDEA_CSV = `Booking date;Amount;Sender;Recipient;Name;Title;Message;Reference number;Balance;Currency;
+2024/05/01;-39,99;FI69 2000 4200 0420 42;;;Fat Lizard Otaniemi - 789;HELSINKI;654123;123,45;EUR;
+2024/05/10;800,00;;FI69 2000 4200 0420 42;ALEX ROWAN NGUYEN;ALEX ROWAN NGUYEN;;;923,45;EUR;`
+
+// jsdom's File has no arrayBuffer(), so stand in for the parts the handler uses
+function createFile(content: string | Uint8Array, name: string): File {
+  const bytes = typeof content === 'string' ? new TextEncoder().encode(content) : content
+  return { name, arrayBuffer: async () => bytes.buffer } as File
+}
+
+async function run(request: Parameters<typeof handleWorkerRequest>[0]): Promise<WorkerResponse[]> {
+  const responses: WorkerResponse[] = []
+  await handleWorkerRequest(request, response => responses.push(response))
+  return responses
+}
+
+describe('handleWorkerRequest', () => {
+  it('parses files, reporting progress for each', async () => {
+    const files = [
+      createFile(NORDEA_CSV, 'may.csv'),
+      createFile('Date;Amount;Text\n2024-05-01;-1,00;X', 'other.csv'),
+    ]
+
+    const responses = await run({ type: 'parseFiles', id: 1, files, profiles: [], lenient: false })
+
+    const statuses = responses.flatMap(r => (r.type === 'progress' ? [`${r.progress.filename}:${r.progress.status}`] : []))
+    expect(statuses).toEqual([
+      'may.csv:queued',
+      'other.csv:queued',
+      'may.csv:parsing',
+      'may.csv:done',
+      'other.csv:parsing',
+      'other.csv:unrecognised',
+    ])
+
+    const result = responses[responses.length - 1]
+    expect(result.type).toBe('filesParsed')
+    if (result.type !== 'filesParsed') return
+    expect(result.id).toBe(1)
+    expect(result.result.transactions).toHaveLength(2)
+    expect(result.result.files[0].format).toBe('Nordea CSV')
+    expect(result.result.unmapped[0].filename).toBe('other.csv')
+  })
+
+  it('decodes Windows-1252 files and warns about spreadsheet damage', async () => {
+    // "Ä" is a single byte in Windows-1252; the reference became a float in Excel
+    const csv = NORDEA_CSV.replace('Fat Lizard Otaniemi', 'ÄITIYSPAKKAUS').replace('654123', '6.54123E+17')
+    const bytes = Uint8Array.from(csv, c => c.charCodeAt(0))
+
+    const responses = await run({
+      type: 'parseFiles',
+      id: 4,
+      files: [createFile(bytes, 'excel.csv')],
+      profiles: [],
+      lenient: false,
+    })
+
+    const result = responses[responses.length - 1]
+    expect(result.type).toBe('filesParsed')
+    if (result.type !== 'filesParsed') return
+    expect(result.result.transactions[0].title).toBe('ÄITIYSPAKKAUS - 789')
+    expect(result.result.files[0].encoding).toBe('windows-1252')
+    expect(result.result.files[0].warnings).toHaveLength(1)
+  })
+
+  it('hashes file contents so re-uploads can be recognised', async () => {
+    const responses = await run({
+      type: 'parseFiles',
+      id: 5,
+      files: [createFile(NORDEA_CSV, 'may.csv'), createFile(NORDEA_CSV, 'may (1).csv')],
+      profiles: [],
+      lenient: false,
+    })
+
+    const result = responses[responses.length - 1]
+    expect(result.type).toBe('filesParsed')
+    if (result.type !== 'filesParsed') return
+    const [first, second] = result.result.files
+    expect(first.contentHash).toBeTruthy()
+    expect(second.contentHash).toBe(first.contentHash)
+  })
+
+  it('answers with an error message when a file fails', async () => {
+    const broken = NORDEA_CSV.replace('-39,99', 'abc')
+
+    const responses = await run({
+      type: 'parseFiles',
+      id: 2,
+      files: [createFile(broken, 'may.csv')],
+      profiles: [],
+      lenient: false,
+    })
+
+    const last = responses[responses.length - 1]
+    expect(last).toMatchObject({ type: 'error', id: 2 })
+    expect(last.type === 'error' && last.message).toContain('may.csv')
+  })
+
+  it('marks a file that cannot be read as failed and parses the others', async () => {
+    const unreadable = { name: 'locked.csv', arrayBuffer: () => Promise.reject(new Error('Permission denied')) } as File
+
+    const responses = await run({
+      type: 'parseFiles',
+      id: 3,
+      files: [unreadable, createFile(NORDEA_CSV, 'may.csv')],
+      profiles: [],
+      lenient: false,
+    })
+
+    const statuses = responses.flatMap(r => (r.type === 'progress' ? [`${r.progress.filename}:${r.progress.status}`] : []))
+    expect(statuses).toContain('locked.csv:failed')
+    expect(statuses).toContain('may.csv:done')
+    expect(responses[responses.length - 1]).toMatchObject({
+      type: 'error',
+      id: 3,
+      message: 'locked.csv: Permission denied',
+    })
+  })
+
+  it('finds exact and likely duplicates', async () => {
+    const date = new Date('2024-05-01')
+    const base = { date, amount: -10, title: 'LIDL', name: '', referenceNumber: '', message: '' }
+    const transactions = [
+      { ...base, id: 'a', sourceFile: 'a.csv' },
+      { ...base, id: 'b', sourceFile: 'b.csv' },
+      { ...base, id: 'c', title: 'ALEPA', sourceFile: 'a.csv' },
+      { ...base, id: 'd', title: 'Alepa ', date: new Date('2024-05-02'), sourceFile: 'b.csv' },
+    ]
+
+    const [response] = await run({
+      type: 'findDuplicates',
+      id: 3,
+      transactions,
+      fuzzy: { dateToleranceDays: 1 },
+    })
+
+    expect(response.type).toBe('duplicatesFound')
+    if (response.type !== 'duplicatesFound') return
+    expect(response.result.groups).toHaveLength(1)
+    expect(response.result.fuzzyGroups).toHaveLength(1)
+  })
+})
@@ -0,0 +1,115 @@
+import {
+  CSVParseError,
+  UnrecognisedFormatError,
+  parseStatement,
+  readStatementFile,
+} from '../core/parsers'
+import { findDuplicates, findFuzzyDuplicates } from '../core/processors'
+import { hashString } from '../core/types'
+import { buildReport } from '../core/calculations'
+import type { ParsedFiles, WorkerRequest, WorkerResponse } from './protocol'
+
+/**
+ * Turn an error into a message for the error banner.
+ */
+export function errorMessage(error: unknown, fallback: string): string {
+  if (error instanceof CSVParseError) return `${error.filename}: ${error.message}`
+  return error instanceof Error ? error.message : fallback
+}
+
+/**
+ * Parse statement files one by one, reporting progress after each.
+ * Unrecognised CSVs are held back for the column mapping wizard. A file that
+ * can't be read or parsed is marked failed and the rest are still parsed,
+ * then the first failure is reported.
+ */
+async function parseFiles(
+  request: Extract<WorkerRequest, { type: 'parseFiles' }>,
+  post: (response: WorkerResponse) => void
+): Promise<ParsedFiles> {
+  const { id, files, profiles, lenient } = request
+  const result: ParsedFiles = { transactions: [], files: [], unmapped: [] }
+  let failure: CSVParseError | undefined
+
+  for (const file of files) {
+    post({ type: 'progress', id, progress: { filename: file.name, status: 'queued' } })
+  }
+
+  for (const file of files) {
+    post({ type: 'progress', id, progress: { filename: file.name, status: 'parsing' } })
+
+    try {
+      const { content, encoding } = await readStatementFile(file)
+      const parsed = parseStatement(content, file.name, profiles, lenient)
+      result.transactions.push(...parsed.transactions)
+      result.files.push({
+        filename: parsed.filename,
+        format: parsed.format,
+        transactionCount: parsed.transactions.length,
+        skipped: parsed.skipped,
+        warnings: parsed.warnings,
+        encoding,
+        contentHash: hashString(content),
+      })
+      post({
+        type: 'progress',
+        id,
+        progress: { filename: file.name, status: 'done', transactionCount: parsed.transactions.length },
+      })
+    } catch (error) {
+      // Unknown CSV layouts can still be imported by mapping their columns
+      if (error instanceof UnrecognisedFormatError && error.sample.headers.length > 1) {
+        result.unmapped.push(error.sample)
+        post({ type: 'progress', id, progress: { filename: file.name, status: 'unrecognised' } })
+      } else {
+        post({ type: 'progress', id, progress: { filename: file.name, status: 'failed' } })
+        // Name the file even when it couldn't be read at all
+        failure ??= error instanceof CSVParseError
+          ? error
+          : new CSVParseError(errorMessage(error, 'Could not read file'), file.name)
+      }
+    }
+  }
+
+  if (failure) throw failure
+
+  result.transactions.sort((a, b) => a.date.getTime() - b.date.getTime())
+  return result
+}
+
+/**
+ * Handle one request from the app. Runs inside the statement worker, or on
+ * the main thread where Web Workers aren't available (e.g. tests).
+ *
+ * @param request - The request to handle
+ * @param post - Sends a response back to the app
+ */
+export async function handleWorkerRequest(
+  request: WorkerRequest,
+  post: (response: WorkerResponse) => void
+): Promise<void> {
+  try {
+    switch (request.type) {
+      case 'parseFiles':
+        post({ type: 'filesParsed', id: request.id, result: await parseFiles(request, post) })
+        break
+
+      case 'findDuplicates':
+        post({
+          type: 'duplicatesFound',
+          id: request.id,
+          result: {
+            groups: findDuplicates(request.transactions),
+            fuzzyGroups: findFuzzyDuplicates(request.transactions, request.fuzzy),
+          },
+        })
+        break
+
+      case 'buildReport':
+        post({ type: 'reportBuilt', id: request.id, report: buildReport(request.input) })
+        break
+    }
+  } catch (error) {
+    post({ type: 'error', id: request.id, message: errorMessage(error, 'Failed to process files') })
+  }
+}
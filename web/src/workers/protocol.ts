@@ -0,0 +1,63 @@
+import type { Transaction, CsvMappingProfile } from '../core/types'
+import type { DuplicateGroup, ReportData } from '../core/types/report'
+import type { ImportReport, StatementSample } from '../core/parsers'
+import type { ReportInput } from '../core/calculations'
+import type { FuzzyMatchOptions } from '../core/processors'
+
+/**
+ * Messages between the app and the statement worker.
+ * Every request carries an id; the worker answers with messages carrying
+ * the same id - any number of progress messages, then one result or error.
+ * Dates, Maps and Files survive postMessage, so core types pass as they are.
+ */
+
+/**
+ * Where a file is in the parsing pipeline.
+ */
+export type FileStatus =
+  | 'queued'
+  | 'parsing'
+  | 'done'
+  | 'unrecognised'    // Waiting for a column mapping
+  | 'failed'
+
+export interface FileProgress {
+  filename: string
+  status: FileStatus
+  transactionCount?: number   // Set once parsed
+}
+
+export type WorkerRequest =
+  | {
+      type: 'parseFiles'
+      id: number
+      files: File[]
+      profiles: CsvMappingProfile[]   // Saved CSV mappings to try after the built-in parsers
+      lenient: boolean
+    }
+  | { type: 'findDuplicates'; id: number; transactions: Transaction[]; fuzzy: FuzzyMatchOptions }
+  | { type: 'buildReport'; id: number; input: ReportInput }
+
+/**
+ * Result of parsing a batch of statement files.
+ */
+export interface ParsedFiles {
+  transactions: Transaction[]     // All files, oldest first
+  files: ImportReport[]
+  unmapped: StatementSample[]     // CSVs no parser recognised
+}
+
+/**
+ * Exact duplicates, and likely ones for the user to confirm.
+ */
+export interface DuplicateSearch {
+  groups: DuplicateGroup[]
+  fuzzyGroups: DuplicateGroup[]
+}
+
+export type WorkerResponse =
+  | { type: 'progress'; id: number; progress: FileProgress }
+  | { type: 'filesParsed'; id: number; result: ParsedFiles }
+  | { type: 'duplicatesFound'; id: number; result: DuplicateSearch }
+  | { type: 'reportBuilt'; id: number; report: ReportData }
+  | { type: 'error'; id: number; message: string }
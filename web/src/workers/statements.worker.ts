@@ -0,0 +1,10 @@
+import { handleWorkerRequest } from './handler'
+import type { WorkerRequest, WorkerResponse } from './protocol'
+
+/**
+ * Statement worker: parses, deduplicates and builds reports off the main
+ * thread so large multi-year batches don't freeze the UI.
+ */
+self.addEventListener('message', (event: MessageEvent<WorkerRequest>) => {
+  handleWorkerRequest(event.data, (response: WorkerResponse) => self.postMessage(response))
+})